@@ -0,0 +1,92 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Locale, getUiLocale, translate } from "./i18n";
+
+// --- Type Definitions ---
+export type HairLoss = 'none' | 'receding' | 'thinning' | 'bald';
+export type FacialHair = 'none' | 'stubble' | 'moustache' | 'beard';
+export type Expression = 'neutral' | 'smile' | 'laugh' | 'serious';
+
+/**
+ * Attributes to set on top of aging. Each one left null is up to the prompt
+ * template and the age, as it was before these controls existed.
+ */
+export type Appearance = {
+    /** Share of grey hair, 0–100. */
+    greyHair: number | null;
+    hairLoss: HairLoss | null;
+    glasses: boolean | null;
+    facialHair: FacialHair | null;
+    expression: Expression | null;
+};
+
+// --- Options ---
+export const HAIR_LOSS_OPTIONS: readonly HairLoss[] = ['none', 'receding', 'thinning', 'bald'];
+export const FACIAL_HAIR_OPTIONS: readonly FacialHair[] = ['none', 'stubble', 'moustache', 'beard'];
+export const EXPRESSION_OPTIONS: readonly Expression[] = ['neutral', 'smile', 'laugh', 'serious'];
+
+export const GREY_HAIR_STEP = 5;
+
+export const getDefaultAppearance = (): Appearance =>
+    ({ greyHair: null, hairLoss: null, glasses: null, facialHair: null, expression: null });
+
+export const isAppearanceSet = (appearance: Appearance | undefined): boolean =>
+    !!appearance && Object.values(appearance).some(value => value !== null);
+
+export const isSameAppearance = (a: Appearance | undefined, b: Appearance | undefined): boolean => {
+    const [left, right] = [a ?? getDefaultAppearance(), b ?? getDefaultAppearance()];
+    return (Object.keys(left) as (keyof Appearance)[]).every(key => left[key] === right[key]);
+};
+
+const pick = <T extends string>(options: readonly T[], value: unknown): T | null =>
+    options.includes(value as T) ? value as T : null;
+
+/** Keeps only valid choices, so saved sessions from before these controls, or from a newer version, still load. */
+export const normalizeAppearance = (value: Partial<Appearance> | undefined): Appearance => ({
+    greyHair: typeof value?.greyHair === 'number' && Number.isFinite(value.greyHair)
+        ? Math.min(100, Math.max(0, Math.round(value.greyHair)))
+        : null,
+    hairLoss: pick(HAIR_LOSS_OPTIONS, value?.hairLoss),
+    glasses: typeof value?.glasses === 'boolean' ? value.glasses : null,
+    facialHair: pick(FACIAL_HAIR_OPTIONS, value?.facialHair),
+    expression: pick(EXPRESSION_OPTIONS, value?.expression),
+});
+
+// --- Wording ---
+/** Short labels for what is set, in the interface language, e.g. "60% grey" or "No glasses". */
+export const describeAppearance = (appearance: Appearance | undefined, locale: Locale = getUiLocale()): string[] => {
+    if (!appearance) return [];
+    const labels: string[] = [];
+    if (appearance.greyHair !== null) labels.push(translate(locale, 'appearance.badge.greyHair', { percent: appearance.greyHair }));
+    if (appearance.hairLoss) labels.push(translate(locale, `appearance.hairLoss.${appearance.hairLoss}`));
+    if (appearance.glasses !== null) labels.push(translate(locale, appearance.glasses ? 'appearance.badge.glasses' : 'appearance.badge.noGlasses'));
+    if (appearance.facialHair) labels.push(translate(locale, `appearance.facialHair.${appearance.facialHair}`));
+    if (appearance.expression) labels.push(translate(locale, `appearance.expression.${appearance.expression}`));
+    return labels;
+};
+
+/**
+ * Builds the appearance section of the prompt in `locale`, or null when nothing is set.
+ * It comes last and takes precedence, so a template's "a few hints of grey hair" gives
+ * way to the percentage chosen here.
+ */
+export const buildAppearanceInstructions = (appearance: Appearance | undefined, locale: Locale): string | null => {
+    if (!appearance || !isAppearanceSet(appearance)) return null;
+    const lines = [translate(locale, 'prompt.appearance.intro')];
+    if (appearance.greyHair !== null) {
+        lines.push(appearance.greyHair === 0
+            ? translate(locale, 'prompt.appearance.greyHair.none')
+            : translate(locale, 'prompt.appearance.greyHair', { percent: appearance.greyHair }));
+    }
+    if (appearance.hairLoss) lines.push(translate(locale, `prompt.appearance.hairLoss.${appearance.hairLoss}`));
+    if (appearance.glasses !== null) {
+        lines.push(translate(locale, appearance.glasses ? 'prompt.appearance.glasses.on' : 'prompt.appearance.glasses.off'));
+    }
+    if (appearance.facialHair) lines.push(translate(locale, `prompt.appearance.facialHair.${appearance.facialHair}`));
+    if (appearance.expression) lines.push(translate(locale, `prompt.appearance.expression.${appearance.expression}`));
+    return lines.join('\n');
+};
@@ -0,0 +1,65 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { createApp } from "./components/app";
+import { AppActions, createAppController } from "./controller";
+import { loadLocaleSettings, setUiLocale, t } from "./i18n";
+import { loadPromptSettings } from "./prompt";
+import { AgingProvider, createProvider, getProviderConfig } from "./providers";
+import { RequestQueue, getQueueConfig } from "./queue";
+import { AppStore, createInitialState } from "./state";
+import { Store } from "./store";
+import { loadUsageSettings } from "./usage";
+
+export type StartOptions = {
+    /** Defaults to the provider selected in `.env.local`. */
+    provider?: AgingProvider;
+};
+
+export type RunningApp = {
+    store: AppStore;
+    actions: AppActions;
+};
+
+/**
+ * Wires the store, controller and interface together and mounts them into `root`, then
+ * picks up any run the last visit left unfinished. Changing the interface language
+ * rebuilds the interface; the controller, queue and results carry on untouched.
+ */
+export function startApp(root: HTMLElement, { provider = createProvider(getProviderConfig()) }: StartOptions = {}): RunningApp {
+    const queueConfig = getQueueConfig();
+    const localeSettings = loadLocaleSettings();
+    setUiLocale(localeSettings.uiLocale);
+    const store = new Store({
+        ...createInitialState(localeSettings),
+        ...loadPromptSettings(localeSettings.promptLocale),
+        usageSettings: loadUsageSettings(),
+    });
+    const actions = createAppController(store, {
+        provider,
+        queue: new RequestQueue(queueConfig.concurrency),
+        queueConfig,
+    });
+
+    // Each mount renders from its own mirror of the store, so dropping the mirror
+    // detaches every subscription the previous interface made.
+    let unmount = () => {};
+    const mount = () => {
+        unmount();
+        const view: AppStore = new Store(store.getState());
+        unmount = store.subscribe(state => view.setState(state));
+        root.replaceChildren(createApp(view, actions, { maxAttempts: queueConfig.maxRetries + 1 }));
+    };
+    store.select(state => state.uiLocale, locale => {
+        setUiLocale(locale);
+        document.documentElement.lang = locale;
+        document.title = t('app.title');
+        mount();
+    });
+    actions.refreshHistory();
+    actions.resumeQueue();
+    return { store, actions };
+}
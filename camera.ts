@@ -0,0 +1,85 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// --- Type Definitions ---
+/** Why the camera could not be used: blocked by the user, missing, held by another app, or anything else. */
+export type CameraErrorReason = 'denied' | 'unavailable' | 'busy' | 'failed';
+
+export class CameraError extends Error {
+    constructor(message: string, readonly reason: CameraErrorReason, options?: { cause?: unknown }) {
+        super(message, options);
+        this.name = 'CameraError';
+    }
+}
+
+/** Opens the camera and takes frames from it; the controller takes a fake one in tests. */
+export type CameraDevice = {
+    /** Asks for the front camera. Rejects with a `CameraError`. */
+    open(): Promise<MediaStream>;
+    /** The current frame of `stream` as a JPEG file. */
+    capture(stream: MediaStream): Promise<File>;
+};
+
+/** Seconds between pressing "Take photo" and the photo being taken. */
+export const CAMERA_COUNTDOWN_SECONDS = 3;
+
+// The model works from a portrait crop anyway; ask for enough pixels to crop from.
+const VIDEO_CONSTRAINTS: MediaTrackConstraints = { facingMode: 'user', width: { ideal: 1280 }, height: { ideal: 960 } };
+
+const JPEG_QUALITY = 0.92;
+
+/** getUserMedia only exists in secure contexts, so plain HTTP pages have no camera either. */
+export const isCameraSupported = () => typeof navigator !== 'undefined' && typeof navigator.mediaDevices?.getUserMedia === 'function';
+
+// --- Browser Camera ---
+const REASON_BY_ERROR_NAME: Record<string, CameraErrorReason> = {
+    NotAllowedError: 'denied',
+    SecurityError: 'denied',
+    NotFoundError: 'unavailable',
+    OverconstrainedError: 'unavailable',
+    NotReadableError: 'busy',
+    AbortError: 'busy',
+};
+
+const openCamera = async (): Promise<MediaStream> => {
+    if (!isCameraSupported()) throw new CameraError('This browser has no camera access.', 'unavailable');
+    try {
+        return await navigator.mediaDevices.getUserMedia({ video: VIDEO_CONSTRAINTS, audio: false });
+    } catch (error) {
+        const reason = REASON_BY_ERROR_NAME[(error as Error)?.name] ?? 'failed';
+        throw new CameraError(`The camera could not be opened (${(error as Error)?.name}).`, reason, { cause: error });
+    }
+};
+
+/** Plays `stream` in a detached video element until it has a frame to draw. */
+const loadVideo = async (stream: MediaStream): Promise<HTMLVideoElement> => {
+    const video = document.createElement('video');
+    video.muted = true;
+    video.playsInline = true;
+    video.srcObject = stream;
+    await video.play();
+    if (video.readyState < HTMLMediaElement.HAVE_CURRENT_DATA) {
+        await new Promise(resolve => video.addEventListener('loadeddata', resolve, { once: true }));
+    }
+    return video;
+};
+
+/** Saves the frame as the camera sees it; only the live preview is mirrored. */
+const captureFrame = async (stream: MediaStream): Promise<File> => {
+    const video = await loadVideo(stream);
+    const canvas = document.createElement('canvas');
+    canvas.width = video.videoWidth;
+    canvas.height = video.videoHeight;
+    canvas.getContext('2d')!.drawImage(video, 0, 0);
+    video.srcObject = null;
+    const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/jpeg', JPEG_QUALITY));
+    if (!blob) throw new CameraError('The camera frame could not be encoded.', 'failed');
+    return new File([blob], `camera-${new Date().toISOString().slice(0, 19).replace(/[:T]/g, '-')}.jpg`, { type: 'image/jpeg' });
+};
+
+export const stopCamera = (stream: MediaStream) => stream.getTracks().forEach(track => track.stop());
+
+export const browserCamera: CameraDevice = { open: openCamera, capture: captureFrame };
@@ -0,0 +1,63 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { AppActions } from "../controller";
+import { SUPPORTED_LOCALES, t } from "../i18n";
+import { AppStore } from "../state";
+import { createControlsSection } from "./controlsSection";
+import { createDiagnosticsPanel } from "./diagnosticsPanel";
+import { h } from "./dom";
+import { createErrorBanner } from "./errorBanner";
+import { createHistoryPanel } from "./historyPanel";
+import { createLightbox } from "./lightbox";
+import { createResultsSection } from "./resultsSection";
+import { createRunStatus } from "./runStatus";
+import { createUploadSection } from "./uploadSection";
+
+export type AppViewOptions = {
+    /** Attempts per image including the first, shown on cards that are being retried. */
+    maxAttempts: number;
+};
+
+/** The interface language; prompts have their own language in the prompt panel. */
+const createLanguageSwitcher = (store: AppStore, actions: AppActions): HTMLElement => {
+    const select = h('select', { id: 'ui-locale-select', className: 'text-input' },
+        ...SUPPORTED_LOCALES.map(locale => h('option', { value: locale.id, lang: locale.id }, locale.name)));
+    select.value = store.getState().uiLocale;
+    select.addEventListener('change', () => {
+        const locale = SUPPORTED_LOCALES.find(option => option.id === select.value);
+        if (locale) actions.setUiLocale(locale.id);
+    });
+    return h('div', { className: 'language-switcher' },
+        h('label', { htmlFor: select.id, className: 'field-label' }, t('app.language')), select);
+};
+
+/**
+ * Builds the whole interface once; from then on every component patches itself from the
+ * store. Strings are looked up as it is built, so a language change builds it again.
+ */
+export function createApp(store: AppStore, actions: AppActions, { maxAttempts }: AppViewOptions): HTMLElement {
+    const header = h('header', { className: 'app-header' },
+        createLanguageSwitcher(store, actions),
+        h('h1', {}, 'TimeMirror'),
+        h('p', {}, t('app.tagline')));
+
+    const main = h('main', { className: 'app-main' },
+        createUploadSection(store, actions),
+        createControlsSection(store, actions),
+        createResultsSection(store, actions, maxAttempts),
+        createErrorBanner(store),
+        createRunStatus(store),
+        createDiagnosticsPanel(store, actions),
+        createHistoryPanel(store, actions));
+
+    const footer = h('footer', { className: 'app-footer' },
+        h('p', {},
+            h('strong', {}, t('app.privacyTitle')),
+            ` ${t('app.privacy')}`));
+
+    return h('div', { id: 'app-container', className: 'app-container' }, header, main, footer, createLightbox(store, actions));
+}
@@ -0,0 +1,99 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+    Appearance, EXPRESSION_OPTIONS, FACIAL_HAIR_OPTIONS, GREY_HAIR_STEP, HAIR_LOSS_OPTIONS, getDefaultAppearance,
+} from "../appearance";
+import { AppActions } from "../controller";
+import { t } from "../i18n";
+import { AppStore, getActiveScenario } from "../state";
+import { View, h, setInputValue } from "./dom";
+
+/** Reads the grey hair field: empty means Auto, anything outside 0–100 is invalid. */
+const parseGreyHair = (value: string): number | null | undefined => {
+    if (value.trim() === '') return null;
+    const percent = Number(value);
+    return Number.isFinite(percent) && percent >= 0 && percent <= 100 ? Math.round(percent) : undefined;
+};
+
+const createSelect = (id: string, options: { value: string; label: string }[]) =>
+    h('select', { id, className: 'text-input' },
+        h('option', { value: '' }, t('appearance.auto')),
+        ...options.map(option => h('option', { value: option.value }, option.label)));
+
+/**
+ * The appearance fields, each starting on Auto. `onChange` receives every valid edit;
+ * invalid grey hair values are flagged and not passed on. Ids start with `idPrefix`,
+ * so the fields can appear in the controls and on a card at the same time.
+ */
+export const createAppearanceFields = (idPrefix: string, onChange: (changes: Partial<Appearance>) => void): View<Appearance> => {
+    const greyHairInput = h('input', {
+        type: 'number', id: `${idPrefix}-grey-hair`, className: 'text-input', min: '0', max: '100', step: String(GREY_HAIR_STEP),
+        placeholder: t('appearance.auto'), attrs: { 'aria-describedby': `${idPrefix}-grey-hair-hint` },
+    });
+    const hairLossSelect = createSelect(`${idPrefix}-hair-loss`,
+        HAIR_LOSS_OPTIONS.map(value => ({ value, label: t(`appearance.hairLoss.${value}`) })));
+    const glassesSelect = createSelect(`${idPrefix}-glasses`,
+        [{ value: 'on', label: t('appearance.glasses.on') }, { value: 'off', label: t('appearance.glasses.off') }]);
+    const facialHairSelect = createSelect(`${idPrefix}-facial-hair`,
+        FACIAL_HAIR_OPTIONS.map(value => ({ value, label: t(`appearance.facialHair.${value}`) })));
+    const expressionSelect = createSelect(`${idPrefix}-expression`,
+        EXPRESSION_OPTIONS.map(value => ({ value, label: t(`appearance.expression.${value}`) })));
+
+    greyHairInput.addEventListener('input', () => {
+        const greyHair = parseGreyHair(greyHairInput.value);
+        greyHairInput.setAttribute('aria-invalid', String(greyHair === undefined));
+        if (greyHair !== undefined) onChange({ greyHair });
+    });
+    // An empty value is Auto; anything else is one of the options, which the controller checks again.
+    hairLossSelect.addEventListener('change', () =>
+        onChange({ hairLoss: (hairLossSelect.value || null) as Appearance['hairLoss'] }));
+    glassesSelect.addEventListener('change', () =>
+        onChange({ glasses: glassesSelect.value ? glassesSelect.value === 'on' : null }));
+    facialHairSelect.addEventListener('change', () =>
+        onChange({ facialHair: (facialHairSelect.value || null) as Appearance['facialHair'] }));
+    expressionSelect.addEventListener('change', () =>
+        onChange({ expression: (expressionSelect.value || null) as Appearance['expression'] }));
+
+    const field = (control: HTMLInputElement | HTMLSelectElement, label: string, hint?: string) =>
+        h('div', { className: 'timeline-field' },
+            h('label', { htmlFor: control.id, className: 'field-label' }, label),
+            control,
+            hint ? h('p', { id: `${control.id}-hint`, className: 'muted-text settings-hint' }, hint) : null);
+
+    const element = h('div', { className: 'timeline-grid appearance-fields' },
+        field(greyHairInput, t('appearance.greyHair'), t('appearance.greyHairHint')),
+        field(hairLossSelect, t('appearance.hairLoss')),
+        field(glassesSelect, t('appearance.glasses')),
+        field(facialHairSelect, t('appearance.facialHair')),
+        field(expressionSelect, t('appearance.expression')));
+
+    const update = (appearance: Appearance) => {
+        setInputValue(greyHairInput, appearance.greyHair === null ? '' : String(appearance.greyHair));
+        hairLossSelect.value = appearance.hairLoss ?? '';
+        glassesSelect.value = appearance.glasses === null ? '' : appearance.glasses ? 'on' : 'off';
+        facialHairSelect.value = appearance.facialHair ?? '';
+        expressionSelect.value = appearance.expression ?? '';
+    };
+    update(getDefaultAppearance());
+
+    return { element, update };
+};
+
+/** The optional appearance group under the lifestyle sliders, editing the active scenario. */
+export function createAppearanceControls(store: AppStore, actions: AppActions): HTMLElement {
+    const fields = createAppearanceFields('appearance', actions.setAppearance);
+    const resetButton = h('button', { type: 'button', className: 'secondary-button appearance-reset' }, t('appearance.reset'));
+    resetButton.addEventListener('click', () => actions.setAppearance(getDefaultAppearance()));
+
+    store.select(state => getActiveScenario(state).appearance, fields.update);
+
+    return h('fieldset', { id: 'appearance-controls', className: 'appearance-controls', attrs: { 'aria-describedby': 'appearance-hint' } },
+        h('legend', { className: 'field-label' }, t('appearance.title')),
+        h('p', { id: 'appearance-hint', className: 'muted-text settings-hint' }, t('appearance.hint')),
+        fields.element,
+        resetButton);
+}
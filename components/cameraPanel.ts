@@ -0,0 +1,122 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { AppActions } from "../controller";
+import { formatNumber, t } from "../i18n";
+import { AppStore, CameraState } from "../state";
+import { h } from "./dom";
+
+// An oval where the face should sit, over a dimmed frame; drawn in viewBox units so it scales with the video.
+const FACE_GUIDE = `
+    <svg viewBox="0 0 100 100" preserveAspectRatio="none" aria-hidden="true">
+        <defs>
+            <mask id="camera-guide-mask">
+                <rect width="100" height="100" fill="white"/>
+                <ellipse cx="50" cy="46" rx="21" ry="30" fill="black"/>
+            </mask>
+        </defs>
+        <rect width="100" height="100" fill="rgba(0, 0, 0, 0.45)" mask="url(#camera-guide-mask)"/>
+        <ellipse cx="50" cy="46" rx="21" ry="30" fill="none" stroke="currentColor" stroke-width="0.6" stroke-dasharray="2 1.5"
+            vector-effect="non-scaling-stroke"/>
+    </svg>`;
+
+const describeStatus = (camera: CameraState): string => {
+    switch (camera.status) {
+        case 'starting': return t('camera.starting');
+        case 'live': return t('camera.ready');
+        case 'countdown': return t('camera.countdown', { count: camera.countdown });
+        case 'captured': return t('camera.captured');
+        default: return '';
+    }
+};
+
+/**
+ * The camera panel: a mirrored live preview with a face guide, a countdown before
+ * the photo is taken, and the captured frame to use or retake. When the camera
+ * cannot be opened it explains why and offers a file instead.
+ */
+export function createCameraPanel(store: AppStore, actions: AppActions, chooseFile: () => void): HTMLElement {
+    const video = h('video', {
+        className: 'camera-video', autoplay: true, muted: true, playsInline: true, attrs: { 'aria-label': t('camera.previewLabel') },
+    });
+    const guide = h('div', { className: 'camera-guide', innerHTML: FACE_GUIDE });
+    const countdown = h('div', { className: 'camera-countdown', attrs: { 'aria-hidden': 'true' } });
+    const captureImage = h('img', { className: 'camera-capture', alt: t('camera.captureAlt') });
+    const stage = h('div', { className: 'camera-stage' }, video, guide, countdown, captureImage);
+    const status = h('p', { className: 'camera-status', attrs: { role: 'status' } });
+    const errorTitle = h('p', { className: 'error-title' });
+    const errorMessage = h('p', { className: 'error-reason' });
+    const errorBox = h('div', { className: 'camera-error', attrs: { role: 'alert' } }, errorTitle, errorMessage);
+
+    const button = (className: string, label: string, onClick: () => void) => {
+        const element = h('button', { type: 'button', className }, label);
+        element.addEventListener('click', onClick);
+        return element;
+    };
+    const takeButton = button('action-button camera-take', t('camera.take'), actions.takePhoto);
+    const retakeButton = button('secondary-button camera-retake', t('camera.retake'), actions.retakePhoto);
+    const useButton = button('action-button camera-use', t('camera.use'), actions.useCameraPhoto);
+    const tryAgainButton = button('secondary-button camera-try-again', t('camera.tryAgain'), actions.openCamera);
+    const chooseFileButton = button('secondary-button camera-choose-file', t('camera.chooseFile'), () => {
+        actions.closeCamera();
+        chooseFile();
+    });
+    const closeButton = button('secondary-button camera-close', t('camera.close'), actions.closeCamera);
+
+    const element = h('section', { id: 'camera-panel', className: 'camera-panel hidden', attrs: { 'aria-labelledby': 'camera-title' } },
+        h('h2', { id: 'camera-title', className: 'section-title' }, t('camera.title')),
+        stage, status, errorBox,
+        h('div', { className: 'preview-actions' }, takeButton, retakeButton, useButton, tryAgainButton, chooseFileButton, closeButton));
+
+    element.addEventListener('keydown', (e) => {
+        if (e.key !== 'Escape') return;
+        e.preventDefault();
+        actions.closeCamera();
+    });
+
+    let previous: CameraState['status'] | null = null;
+    store.select(state => state.camera, camera => {
+        element.classList.toggle('hidden', camera === null);
+        if (!camera) {
+            video.srcObject = null;
+            previous = null;
+            return;
+        }
+        if (video.srcObject !== camera.stream) video.srcObject = camera.stream;
+        const { status: current } = camera;
+        const isLive = current === 'live' || current === 'countdown';
+        stage.classList.toggle('hidden', current === 'error');
+        video.classList.toggle('hidden', current === 'captured');
+        guide.classList.toggle('hidden', !isLive);
+        countdown.textContent = current === 'countdown' ? formatNumber(camera.countdown) : '';
+        captureImage.classList.toggle('hidden', !camera.capture);
+        if (camera.capture && captureImage.getAttribute('src') !== camera.capture.objectURL) captureImage.src = camera.capture.objectURL;
+        status.textContent = describeStatus(camera);
+        errorBox.classList.toggle('hidden', current !== 'error');
+        if (camera.error) {
+            errorTitle.textContent = t(`camera.error.${camera.error}.title`);
+            errorMessage.textContent = t(`camera.error.${camera.error}.message`);
+        }
+
+        takeButton.classList.toggle('hidden', !isLive && current !== 'starting');
+        takeButton.disabled = current !== 'live';
+        retakeButton.classList.toggle('hidden', current !== 'captured' && current !== 'countdown');
+        retakeButton.textContent = current === 'countdown' ? t('common.cancel') : t('camera.retake');
+        useButton.classList.toggle('hidden', current !== 'captured');
+        tryAgainButton.classList.toggle('hidden', current !== 'error');
+        chooseFileButton.classList.toggle('hidden', current !== 'error');
+
+        // Keep focus on the button for the next step as the panel moves along.
+        if (current !== previous) {
+            const next = current === 'live' ? takeButton : current === 'countdown' ? retakeButton
+                : current === 'captured' ? useButton : current === 'error' ? tryAgainButton : null;
+            if (next && element.isConnected) next.focus();
+        }
+        previous = current;
+    });
+
+    return element;
+}
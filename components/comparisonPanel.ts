@@ -0,0 +1,59 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { AppActions } from "../controller";
+import { t } from "../i18n";
+import { AppState, AppStore, describeResult } from "../state";
+import { shallowEqualArrays } from "../store";
+import { ResultCard } from "../types";
+import { h } from "./dom";
+
+const getSelectedCards = (state: AppState): ResultCard[] => state.compareSelection
+    .map(id => state.results.find(r => r.id === id))
+    .filter((card): card is ResultCard => card?.status === 'success');
+
+/** Split-slider view of two selected cards: the left image is revealed up to the divider. */
+export function createComparisonPanel(store: AppStore, actions: AppActions): HTMLElement {
+    const hint = h('p', { className: 'muted-text' }, t('comparison.hint'));
+    // Described once two cards are picked; empty until then.
+    const rightImage = h('img', { className: 'comparison-image', alt: '' });
+    const leftImage = h('img', { className: 'comparison-image comparison-left', alt: '' });
+    const divider = h('div', { className: 'comparison-divider' });
+    const leftLabel = h('span', { className: 'comparison-label comparison-label-left' });
+    const rightLabel = h('span', { className: 'comparison-label comparison-label-right' });
+    const range = h('input', {
+        type: 'range', className: 'comparison-range', min: '0', max: '100', attrs: { 'aria-label': t('comparison.rangeLabel') },
+    });
+    const closeButton = h('button', { type: 'button', className: 'secondary-button comparison-close' }, t('comparison.close'));
+    const comparison = h('div', {},
+        h('h3', { className: 'comparison-title' }, t('comparison.title')),
+        h('div', { className: 'comparison-frame' }, rightImage, leftImage, divider, leftLabel, rightLabel),
+        range,
+        h('div', {}, closeButton));
+
+    range.addEventListener('input', () => actions.setCompareSplit(Number(range.value)));
+    closeButton.addEventListener('click', actions.closeComparison);
+
+    store.select(getSelectedCards, cards => {
+        hint.classList.toggle('hidden', cards.length !== 1);
+        comparison.classList.toggle('hidden', cards.length !== 2);
+        if (cards.length !== 2) return;
+        const state = store.getState();
+        const [left, right] = cards;
+        leftImage.src = left.imageUrl!;
+        leftImage.alt = leftLabel.textContent = describeResult(state, left);
+        rightImage.src = right.imageUrl!;
+        rightImage.alt = rightLabel.textContent = describeResult(state, right);
+    }, shallowEqualArrays);
+    store.select(state => state.compareSplit, split => {
+        range.value = String(split);
+        range.setAttribute('aria-valuetext', t('comparison.rangeValue', { split }));
+        leftImage.style.clipPath = `inset(0 ${100 - split}% 0 0)`;
+        divider.style.left = `${split}%`;
+    });
+
+    return h('div', { id: 'comparison-panel', className: 'comparison-panel' }, hint, comparison);
+}
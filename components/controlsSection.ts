@@ -0,0 +1,42 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { AppActions } from "../controller";
+import { t } from "../i18n";
+import { AppStore, getActivePerson, isRunBusy } from "../state";
+import { createAppearanceControls } from "./appearanceControls";
+import { h } from "./dom";
+import { createFactorSliders } from "./factorSliders";
+import { createGenerationModeControl } from "./generationModeControl";
+import { createGenerationSettingsPanel } from "./generationSettingsPanel";
+import { createPromptPanel } from "./promptPanel";
+import { createScenarioBar } from "./scenarioBar";
+import { createTimelineForm } from "./timelineForm";
+
+/** Timeline, lifestyle and appearance settings; revealed once a photo has been uploaded. */
+export function createControlsSection(store: AppStore, actions: AppActions): HTMLElement {
+    const generateButton = h('button', { id: 'generate-button', type: 'button', className: 'action-button' });
+    generateButton.addEventListener('click', actions.generate);
+
+    const section = h('div', { id: 'controls-section', className: 'collapsible' },
+        createTimelineForm(store, actions),
+        createGenerationModeControl(store, actions),
+        h('h2', { className: 'section-title' }, t('controls.lifestyleTitle')),
+        createScenarioBar(store, actions),
+        createFactorSliders(store, actions),
+        createAppearanceControls(store, actions),
+        createPromptPanel(store, actions),
+        createGenerationSettingsPanel(store, actions),
+        generateButton);
+
+    store.select(state => getActivePerson(state).uploadedImage !== null, hasImage => section.classList.toggle('is-open', hasImage));
+    store.select(isRunBusy, isBusy => {
+        generateButton.disabled = isBusy;
+        generateButton.textContent = isBusy ? t('controls.generating') : t('controls.generate');
+    });
+
+    return section;
+}
@@ -0,0 +1,156 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { AppActions } from "../controller";
+import { formatDate, formatNumber, formatTime, t } from "../i18n";
+import { getErrorExplanation } from "../messages";
+import { AppStore } from "../state";
+import {
+    Pricing, RequestRecord, UsageSettings, UsageTotals, formatBytes, formatCost, formatDuration, getLastRunTotals, isOverBudget,
+} from "../usage";
+import { h, setInputValue } from "./dom";
+
+/** How many of the latest requests are listed. */
+const RECENT_REQUESTS = 10;
+
+/** The rows of the totals table, each rendering one column's value. */
+const METRICS: { label: () => string; value: (totals: UsageTotals) => string }[] = [
+    { label: () => t('usage.requests'), value: totals => formatNumber(totals.requests) },
+    { label: () => t('usage.images'), value: totals => formatNumber(totals.images) },
+    { label: () => t('usage.failed'), value: totals => formatNumber(totals.failed) },
+    { label: () => t('usage.cancelled'), value: totals => formatNumber(totals.cancelled) },
+    { label: () => t('usage.retries'), value: totals => formatNumber(totals.retries) },
+    {
+        label: () => t('usage.averageTime'),
+        value: totals => totals.requests > 0 ? formatDuration(totals.durationMs / totals.requests) : '—',
+    },
+    { label: () => t('usage.received'), value: totals => formatBytes(totals.responseBytes) },
+    { label: () => t('usage.promptTokens'), value: totals => formatNumber(totals.promptTokens) },
+    { label: () => t('usage.outputTokens'), value: totals => formatNumber(totals.outputTokens) },
+    { label: () => t('usage.cost'), value: totals => formatCost(totals.cost) },
+];
+
+const describeBudget = (settings: UsageSettings): string => {
+    const spent = formatCost(settings.allTime.cost);
+    if (settings.budget === null) return t('usage.spent', { spent });
+    if (isOverBudget(settings)) return t('usage.budgetReached', { budget: formatCost(settings.budget) });
+    return t('usage.spentOfBudget', { spent, budget: formatCost(settings.budget) });
+};
+
+const describeOutcome = (record: RequestRecord): string => record.outcome === 'error'
+    ? t('usage.outcome.error', { reason: getErrorExplanation(record.errorReason).title })
+    : t(`usage.outcome.${record.outcome}`);
+
+const renderRecord = (record: RequestRecord) => {
+    const tokens = record.usage?.totalTokens ?? record.usage?.promptTokens;
+    return h('tr', {},
+        h('td', {}, formatTime(record.startedAt)),
+        h('th', { attrs: { scope: 'row' } }, t(`usage.kind.${record.kind}`, { age: record.age })),
+        h('td', {}, describeOutcome(record)),
+        h('td', {}, formatNumber(record.attempts)),
+        h('td', {}, formatDuration(record.durationMs)),
+        h('td', {}, record.responseBytes > 0 ? formatBytes(record.responseBytes) : '—'),
+        h('td', {}, tokens === undefined ? '—' : formatNumber(tokens)),
+        h('td', {}, formatCost(record.cost)));
+};
+
+/** Reads a price or budget field: empty is null, anything negative or not a number is invalid. */
+const parseAmount = (value: string): number | null | undefined => {
+    if (value.trim() === '') return null;
+    const amount = Number(value);
+    return Number.isFinite(amount) && amount >= 0 ? amount : undefined;
+};
+
+/**
+ * Collapsed panel with what generation has cost: totals for the last run and for all
+ * time, the latest requests one by one, the prices the estimates use and a budget cap.
+ * Costs are estimates from the configured prices, not the provider's bill.
+ */
+export function createDiagnosticsPanel(store: AppStore, actions: AppActions): HTMLElement {
+    const budgetStatus = h('p', { className: 'usage-budget', attrs: { role: 'status' } });
+    const lastRunCells = METRICS.map(() => h('td', {}));
+    const allTimeCells = METRICS.map(() => h('td', {}));
+    const sinceText = h('span', { className: 'usage-since' });
+    const totalsTable = h('table', { className: 'usage-table' },
+        h('caption', {}, t('usage.totals')),
+        h('thead', {}, h('tr', {},
+            h('th', { attrs: { scope: 'col' } }, t('usage.metric')),
+            h('th', { attrs: { scope: 'col' } }, t('usage.lastRun')),
+            h('th', { attrs: { scope: 'col' } }, t('usage.allTime'), h('br', {}), sinceText))),
+        h('tbody', {}, ...METRICS.map((metric, index) => h('tr', {},
+            h('th', { attrs: { scope: 'row' } }, metric.label()), lastRunCells[index], allTimeCells[index]))));
+
+    const recentBody = h('tbody', {});
+    const recentEmpty = h('p', { className: 'muted-text' }, t('usage.none'));
+    const recentTable = h('table', { className: 'usage-table usage-requests' },
+        h('caption', {}, t('usage.recent')),
+        h('thead', {}, h('tr', {},
+            ...[t('usage.time'), t('usage.request'), t('usage.outcome'), t('usage.attempts'),
+                t('usage.duration'), t('usage.size'), t('usage.tokens'), t('usage.cost')]
+                .map(label => h('th', { attrs: { scope: 'col' } }, label)))),
+        recentBody);
+
+    const amountInput = (id: string, placeholder?: string) => h('input', {
+        type: 'number', id, className: 'text-input', min: '0', step: '0.001', inputMode: 'decimal', placeholder: placeholder ?? '',
+    });
+    const priceInputs: Record<keyof Pricing, HTMLInputElement> = {
+        perImage: amountInput('price-per-image-input'),
+        perMillionInputTokens: amountInput('price-per-token-input'),
+    };
+    const budgetInput = amountInput('budget-input', t('usage.budgetNone'));
+    for (const [key, input] of Object.entries(priceInputs) as [keyof Pricing, HTMLInputElement][]) {
+        input.addEventListener('input', () => {
+            const amount = parseAmount(input.value);
+            input.setAttribute('aria-invalid', String(amount == null));
+            if (amount != null) actions.setPricing({ [key]: amount });
+        });
+    }
+    budgetInput.addEventListener('input', () => {
+        const budget = parseAmount(budgetInput.value);
+        budgetInput.setAttribute('aria-invalid', String(budget === undefined));
+        if (budget !== undefined) actions.setBudget(budget);
+    });
+
+    const resetButton = h('button', { type: 'button', className: 'secondary-button usage-reset' }, t('usage.reset'));
+    resetButton.addEventListener('click', () => {
+        if (window.confirm(t('usage.resetConfirm'))) actions.resetUsage();
+    });
+
+    store.select(state => state.usageSettings, settings => {
+        budgetStatus.textContent = describeBudget(settings);
+        budgetStatus.classList.toggle('is-over', isOverBudget(settings));
+        sinceText.textContent = t('usage.since', { date: formatDate(settings.since) });
+        METRICS.forEach((metric, index) => allTimeCells[index].textContent = metric.value(settings.allTime));
+        setInputValue(priceInputs.perImage, String(settings.pricing.perImage));
+        setInputValue(priceInputs.perMillionInputTokens, String(settings.pricing.perMillionInputTokens));
+        setInputValue(budgetInput, settings.budget === null ? '' : String(settings.budget));
+    });
+    store.select(state => state.usageRecords, records => {
+        const lastRun = getLastRunTotals(records);
+        METRICS.forEach((metric, index) => lastRunCells[index].textContent = metric.value(lastRun));
+        recentBody.replaceChildren(...records.slice(-RECENT_REQUESTS).reverse().map(renderRecord));
+        recentTable.classList.toggle('hidden', records.length === 0);
+        recentEmpty.classList.toggle('hidden', records.length > 0);
+    });
+
+    const field = (input: HTMLInputElement, label: string) =>
+        h('div', { className: 'timeline-field' },
+            h('label', { htmlFor: input.id, className: 'field-label' }, label), input);
+
+    return h('details', { id: 'diagnostics-panel', className: 'prompt-panel' },
+        h('summary', {}, t('usage.summary')),
+        h('div', { className: 'prompt-panel-body' },
+            budgetStatus,
+            h('div', { className: 'usage-table-wrap' }, totalsTable),
+            h('div', { className: 'usage-table-wrap' }, recentTable),
+            recentEmpty,
+            h('div', { className: 'timeline-grid' },
+                field(priceInputs.perImage, t('usage.pricePerImage')),
+                field(priceInputs.perMillionInputTokens, t('usage.pricePerMillionTokens')),
+                field(budgetInput, t('usage.budget'))),
+            h('p', { className: 'muted-text settings-hint' }, t('usage.pricingHint')),
+            h('div', { className: 'preview-actions' }, resetButton)));
+}
@@ -0,0 +1,99 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+type ElementProps<K extends keyof HTMLElementTagNameMap> = Partial<Omit<HTMLElementTagNameMap[K], 'dataset' | 'style'>> & {
+    dataset?: Record<string, string>;
+    attrs?: Record<string, string>;
+};
+
+/** Creates an element with properties, `data-*` values, attributes and children in one call. */
+export function h<K extends keyof HTMLElementTagNameMap>(
+    tag: K, props: ElementProps<K> = {}, ...children: (Node | string | null | undefined)[]
+): HTMLElementTagNameMap[K] {
+    const { dataset, attrs, ...properties } = props;
+    const element = document.createElement(tag);
+    Object.assign(element, properties);
+    if (dataset) Object.assign(element.dataset, dataset);
+    if (attrs) Object.entries(attrs).forEach(([name, value]) => element.setAttribute(name, value));
+    children.forEach(child => { if (child != null) element.append(child); });
+    return element;
+}
+
+/** A rendered piece of UI that can patch itself when its input changes. */
+export type View<T> = {
+    element: HTMLElement;
+    update(item: T): void;
+};
+
+/**
+ * Keeps `container`'s children in sync with `items` by key: existing views are
+ * updated in place and moved only when out of order, new ones are created and
+ * views for items that are gone are removed. Nodes for unchanged items are never recreated.
+ */
+export function reconcileList<T, V extends View<T>>(
+    container: HTMLElement, views: Map<string, V>, items: readonly T[],
+    getKey: (item: T) => string, createView: (item: T) => V,
+) {
+    const keys = new Set(items.map(getKey));
+    views.forEach((view, key) => {
+        if (keys.has(key)) return;
+        view.element.remove();
+        views.delete(key);
+    });
+    items.forEach((item, index) => {
+        const key = getKey(item);
+        let view = views.get(key);
+        if (view) {
+            view.update(item);
+        } else {
+            view = createView(item);
+            views.set(key, view);
+        }
+        const current = container.children[index];
+        if (current !== view.element) container.insertBefore(view.element, current ?? null);
+    });
+}
+
+/** Sets an input's value unless the user is typing in it, so store updates never move the caret. */
+export const setInputValue = (input: HTMLInputElement, value: string) => {
+    if (document.activeElement !== input && input.value !== value) input.value = value;
+};
+
+type ArrowKeyOptions = {
+    /** Which arrow keys move focus; Home and End always jump to the first and last item. */
+    orientation: 'horizontal' | 'vertical';
+    /** Called with the newly focused item, e.g. to keep a tab list's roving `tabIndex` in sync. */
+    onMove?(item: HTMLElement): void;
+};
+
+/**
+ * Lets the arrow keys move focus between the items in `container` that match `selector`,
+ * starting from the item that holds focus. Disabled and hidden items are skipped.
+ */
+export function bindArrowKeys(container: HTMLElement, selector: string, { orientation, onMove }: ArrowKeyOptions) {
+    const [previousKey, nextKey] = orientation === 'horizontal' ? ['ArrowLeft', 'ArrowRight'] : ['ArrowUp', 'ArrowDown'];
+    container.addEventListener('keydown', (e) => {
+        if (![previousKey, nextKey, 'Home', 'End'].includes(e.key)) return;
+        const items = [...container.querySelectorAll<HTMLElement>(selector)]
+            .filter(item => !item.matches(':disabled, .hidden'));
+        const current = items.findIndex(item => item.contains(e.target as Node));
+        if (current === -1) return;
+        const index = e.key === 'Home' ? 0
+            : e.key === 'End' ? items.length - 1
+            : (current + (e.key === nextKey ? 1 : -1) + items.length) % items.length;
+        e.preventDefault();
+        items[index].focus();
+        onMove?.(items[index]);
+    });
+}
+
+/** Keeps only the selected tab in the Tab order; the arrow keys reach the others. */
+export const setRovingTabIndex = (tabs: Map<string, View<unknown>>, selectedKey: string) => {
+    tabs.forEach((tab, key) => { tab.element.tabIndex = key === selectedKey ? 0 : -1; });
+};
+
+/** Whether the user asked the system to minimise animation. */
+export const prefersReducedMotion = () => window.matchMedia?.('(prefers-reduced-motion: reduce)').matches ?? false;
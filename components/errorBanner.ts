@@ -0,0 +1,17 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { AppStore } from "../state";
+import { h } from "./dom";
+
+export function createErrorBanner(store: AppStore): HTMLElement {
+    const banner = h('div', { id: 'error-message', className: 'collapsible error-banner', attrs: { role: 'alert' } });
+    store.select(state => state.errorMessage, message => {
+        banner.textContent = message ?? '';
+        banner.classList.toggle('is-open', message !== null);
+    });
+    return banner;
+}
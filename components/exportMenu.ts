@@ -0,0 +1,66 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { AppActions, ExportFormat } from "../controller";
+import { isVideoExportSupported } from "../exporters";
+import { t } from "../i18n";
+import { AppStore, isRunBusy } from "../state";
+import { bindArrowKeys, h } from "./dom";
+
+const EXPORT_FORMATS: ExportFormat[] = ['contact-sheet', 'video', 'zip', 'manifest', 'report', 'report-pdf'];
+
+/** The "Export" button and its menu; shown once at least one image is ready and the run has finished. */
+export function createExportMenu(store: AppStore, actions: AppActions): HTMLElement {
+    const button = h('button', {
+        id: 'export-button', type: 'button', className: 'secondary-button',
+        attrs: { 'aria-haspopup': 'menu', 'aria-controls': 'export-menu' },
+    });
+    const menu = h('div', { id: 'export-menu', className: 'export-menu', attrs: { role: 'menu', 'aria-labelledby': 'export-button' } });
+    EXPORT_FORMATS.forEach(format => {
+        const item = h('button', {
+            type: 'button', className: 'export-menu-item', dataset: { format }, attrs: { role: 'menuitem' },
+        }, t(`export.${format}.option`));
+        if (format === 'video' && !isVideoExportSupported()) {
+            item.disabled = true;
+            item.title = t('export.videoUnsupported');
+        }
+        item.addEventListener('click', () => actions.exportResults(format));
+        menu.appendChild(item);
+    });
+    const bar = h('div', { id: 'export-bar', className: 'export-bar' }, button, menu);
+
+    button.addEventListener('click', (e) => {
+        e.stopPropagation();
+        actions.setExportMenuOpen(!store.getState().isExportMenuOpen);
+    });
+    bindArrowKeys(menu, '[role="menuitem"]', { orientation: 'vertical' });
+    menu.addEventListener('keydown', (e) => {
+        if (e.key !== 'Escape' && e.key !== 'Tab') return;
+        actions.setExportMenuOpen(false);
+        if (e.key === 'Escape') button.focus();
+    });
+    const closeOnOutsideClick = (e: MouseEvent) => {
+        // A language switch replaces the interface; the old menu lets go of the document.
+        if (!bar.isConnected) return document.removeEventListener('click', closeOnOutsideClick);
+        if (store.getState().isExportMenuOpen && !bar.contains(e.target as Node)) actions.setExportMenuOpen(false);
+    };
+    document.addEventListener('click', closeOnOutsideClick);
+
+    store.select(state => !isRunBusy(state) && state.results.some(result => result.status === 'success'),
+        hasImages => bar.classList.toggle('hidden', !hasImages));
+    store.select(state => state.isExportMenuOpen, isOpen => {
+        menu.classList.toggle('hidden', !isOpen);
+        button.setAttribute('aria-expanded', String(isOpen));
+        // Opening from the keyboard should land on the first choice.
+        if (isOpen) menu.querySelector<HTMLButtonElement>('[role="menuitem"]:not(:disabled)')?.focus();
+    });
+    store.select(state => state.exportInProgress, inProgress => {
+        button.disabled = inProgress !== null;
+        button.textContent = inProgress ? t('export.inProgress', { label: inProgress }) : t('export.button');
+    });
+
+    return bar;
+}
@@ -0,0 +1,55 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { AppActions } from "../controller";
+import { t } from "../i18n";
+import { CropRect, renderCropThumbnail } from "../preprocess";
+import { AppStore } from "../state";
+import { h } from "./dom";
+
+/** Thumbnails of the faces found in a group photo; every picked face becomes a person with their own timeline. */
+export function createFacePicker(store: AppStore, actions: AppActions): HTMLElement {
+    const faceList = h('div', { className: 'face-picker-faces' });
+    const addButton = h('button', { type: 'button', className: 'secondary-button' });
+    const cancelButton = h('button', { type: 'button', className: 'secondary-button' }, t('common.cancel'));
+    const element = h('div', { id: 'face-picker', className: 'face-picker hidden' },
+        h('p', { className: 'field-label' }, t('facePicker.prompt')),
+        faceList,
+        h('div', { className: 'preview-actions' }, addButton, cancelButton));
+
+    let faces: CropRect[] = [];
+    const picked = new Set<number>();
+    const renderAddButton = () => {
+        addButton.disabled = picked.size === 0;
+        addButton.textContent = t('facePicker.add', { count: picked.size });
+    };
+
+    addButton.addEventListener('click', () => actions.addPeopleFromFaces(faces.filter((_, index) => picked.has(index))));
+    cancelButton.addEventListener('click', actions.closeFacePicker);
+
+    store.select(state => state.facePicker, picker => {
+        element.classList.toggle('hidden', picker === null);
+        const photo = picker && store.getState().people.find(person => person.id === picker.personId)?.sourcePhoto;
+        faces = picker && photo ? picker.faces : [];
+        picked.clear();
+        faces.forEach((_, index) => picked.add(index));
+        faceList.replaceChildren(...faces.map((face, index) => {
+            const button = h('button', {
+                type: 'button', className: 'face-picker-face is-picked', attrs: { 'aria-pressed': 'true' },
+            }, h('img', { src: renderCropThumbnail(photo!, face), alt: t('facePicker.faceAlt', { number: index + 1, count: faces.length }) }));
+            button.addEventListener('click', () => {
+                if (picked.has(index)) picked.delete(index); else picked.add(index);
+                button.classList.toggle('is-picked', picked.has(index));
+                button.setAttribute('aria-pressed', String(picked.has(index)));
+                renderAddButton();
+            });
+            return button;
+        }));
+        renderAddButton();
+    });
+
+    return element;
+}
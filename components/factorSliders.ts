@@ -0,0 +1,53 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { AppActions } from "../controller";
+import { FACTOR_REGISTRY, FactorDefinition, describeFactor, getFactorLabel, getFactorTooltip } from "../factors";
+import { formatNumber, t } from "../i18n";
+import { AppStore, getActiveScenario } from "../state";
+import { h } from "./dom";
+
+/**
+ * The "?" next to a slider. The tip shows on hover and on keyboard focus, and Escape
+ * hides it again without moving focus.
+ */
+const createTooltip = (factor: FactorDefinition) => {
+    const text = h('span', { id: `${factor.id}-tooltip`, className: 'tooltip-text', attrs: { role: 'tooltip' } }, getFactorTooltip(factor));
+    const button = h('button', {
+        type: 'button', className: 'tooltip-icon',
+        attrs: { 'aria-label': t('factors.about', { label: getFactorLabel(factor) }), 'aria-describedby': text.id },
+    }, '?', text);
+    button.addEventListener('keydown', (e) => {
+        if (e.key === 'Escape') button.classList.add('is-dismissed');
+    });
+    ['blur', 'mouseleave'].forEach(type => button.addEventListener(type, () => button.classList.remove('is-dismissed')));
+    return button;
+};
+
+/** One slider per registered factor, editing the active scenario. */
+export function createFactorSliders(store: AppStore, actions: AppActions): HTMLElement {
+    const container = h('div', { className: 'factor-sliders' });
+    FACTOR_REGISTRY.forEach(factor => {
+        const tooltip = createTooltip(factor);
+        const input = h('input', {
+            type: 'range', id: `${factor.id}-slider`, className: 'range-input', min: String(factor.min), max: String(factor.max),
+            attrs: { 'aria-describedby': `${factor.id}-tooltip` },
+        });
+        // The slider announces its value and wording itself, so the visible number is not read twice.
+        const valueLabel = h('span', { className: 'slider-value', attrs: { 'aria-hidden': 'true' } });
+        const label = h('div', { className: 'slider-label' },
+            h('label', { htmlFor: input.id }, getFactorLabel(factor)), tooltip);
+        input.addEventListener('input', () => actions.setFactor(factor.id, parseInt(input.value, 10)));
+        store.select(state => getActiveScenario(state).factors[factor.id], value => {
+            input.value = String(value);
+            input.setAttribute('aria-valuetext', t('factors.valueText', { value, max: factor.max, wording: describeFactor(factor, value) }));
+            valueLabel.textContent = formatNumber(value);
+            valueLabel.title = describeFactor(factor, value);
+        });
+        container.appendChild(h('div', { className: 'slider-group' }, label, input, valueLabel));
+    });
+    return container;
+}
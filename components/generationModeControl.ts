@@ -0,0 +1,43 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { AppActions } from "../controller";
+import { t } from "../i18n";
+import { AppStore, isRunBusy } from "../state";
+import { GenerationMode } from "../types";
+import { h } from "./dom";
+
+const MODES: GenerationMode[] = ['parallel', 'progressive'];
+
+/** Chooses between generating every age from the upload or chaining each age from the previous image. */
+export function createGenerationModeControl(store: AppStore, actions: AppActions): HTMLElement {
+    const radios = MODES.map(mode => {
+        const input = h('input', { type: 'radio', name: 'generation-mode', id: `generation-mode-${mode}`, value: mode });
+        input.addEventListener('change', () => { if (input.checked) actions.setGenerationMode(mode); });
+        return { mode, input };
+    });
+    const referenceInput = h('input', { type: 'checkbox', id: 'identity-reference-input' });
+    referenceInput.addEventListener('change', () => actions.setUseIdentityReference(referenceInput.checked));
+    const referenceLabel = h('label', { htmlFor: referenceInput.id, className: 'generation-mode-reference' },
+        referenceInput, ` ${t('generationMode.identityReference')}`);
+
+    store.select(state => state.generationMode, selected => radios.forEach(({ mode, input }) => { input.checked = mode === selected; }));
+    store.select(state => state.useIdentityReference, enabled => { referenceInput.checked = enabled; });
+    store.select(state => state.generationMode !== 'progressive' || isRunBusy(state), isDisabled => {
+        referenceInput.disabled = isDisabled;
+        referenceLabel.classList.toggle('is-disabled', isDisabled);
+    });
+    store.select(isRunBusy, isBusy => radios.forEach(({ input }) => { input.disabled = isBusy; }));
+
+    return h('fieldset', { id: 'generation-mode', className: 'generation-mode' },
+        h('legend', { className: 'field-label' }, t('generationMode.legend')),
+        ...radios.map(({ mode, input }) =>
+            h('label', { htmlFor: input.id, className: 'generation-mode-option' },
+                input,
+                h('span', { className: 'generation-mode-name' }, t(`generationMode.${mode}`)),
+                h('span', { className: 'muted-text' }, t(`generationMode.${mode}.description`)))),
+        referenceLabel);
+}
@@ -0,0 +1,76 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { AppActions } from "../controller";
+import { parseSeed } from "../fingerprint";
+import { t } from "../i18n";
+import { AppStore, MAX_VARIATIONS } from "../state";
+import { h, setInputValue } from "./dom";
+
+const MAX_TEMPERATURE = 2;
+
+/** Reads a temperature field: empty means the model's default, anything outside 0–2 is invalid. */
+const parseTemperature = (value: string): number | null | undefined => {
+    if (value.trim() === '') return null;
+    const temperature = Number(value);
+    return Number.isFinite(temperature) && temperature >= 0 && temperature <= MAX_TEMPERATURE ? temperature : undefined;
+};
+
+/**
+ * Collapsed panel with the model settings of a run: a fixed seed for reproducible
+ * images, the temperature, and how many variations a card asks for at once.
+ * Invalid entries are flagged and leave the previous setting in place.
+ */
+export function createGenerationSettingsPanel(store: AppStore, actions: AppActions): HTMLElement {
+    const seedInput = h('input', {
+        type: 'text', id: 'seed-input', className: 'text-input', inputMode: 'numeric', placeholder: t('settings.seedRandom'),
+        attrs: { 'aria-describedby': 'seed-hint' },
+    });
+    const temperatureInput = h('input', {
+        type: 'number', id: 'temperature-input', className: 'text-input', min: '0', max: String(MAX_TEMPERATURE), step: '0.1',
+        placeholder: t('settings.temperatureDefault'), attrs: { 'aria-describedby': 'temperature-hint' },
+    });
+    const variationInput = h('input', {
+        type: 'number', id: 'variation-count-input', className: 'text-input', min: '1', max: String(MAX_VARIATIONS), step: '1',
+    });
+
+    seedInput.addEventListener('input', () => {
+        const seed = parseSeed(seedInput.value);
+        const valid = seed !== null || seedInput.value.trim() === '';
+        seedInput.setAttribute('aria-invalid', String(!valid));
+        if (valid) actions.setGenerationSettings({ seed });
+    });
+    temperatureInput.addEventListener('input', () => {
+        const temperature = parseTemperature(temperatureInput.value);
+        temperatureInput.setAttribute('aria-invalid', String(temperature === undefined));
+        if (temperature !== undefined) actions.setGenerationSettings({ temperature });
+    });
+    variationInput.addEventListener('change', () => {
+        const count = Number(variationInput.value);
+        if (Number.isFinite(count)) actions.setGenerationSettings({ variationCount: count });
+        variationInput.value = String(store.getState().generationSettings.variationCount);
+    });
+
+    store.select(state => state.generationSettings, settings => {
+        setInputValue(seedInput, settings.seed === null ? '' : String(settings.seed));
+        setInputValue(temperatureInput, settings.temperature === null ? '' : String(settings.temperature));
+        setInputValue(variationInput, String(settings.variationCount));
+    });
+
+    const field = (input: HTMLInputElement, label: string, hint?: string) =>
+        h('div', { className: 'timeline-field' },
+            h('label', { htmlFor: input.id, className: 'field-label' }, label),
+            input,
+            hint ? h('p', { id: input.getAttribute('aria-describedby')!, className: 'muted-text settings-hint' }, hint) : null);
+
+    return h('details', { id: 'generation-settings-panel', className: 'prompt-panel' },
+        h('summary', {}, t('settings.summary')),
+        h('div', { className: 'prompt-panel-body' },
+            h('div', { className: 'timeline-grid' },
+                field(seedInput, t('settings.seed'), t('settings.seedHint')),
+                field(temperatureInput, t('settings.temperature'), t('settings.temperatureHint')),
+                field(variationInput, t('settings.variationCount')))));
+}
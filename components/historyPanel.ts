@@ -0,0 +1,109 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { AppActions } from "../controller";
+import { MessageKey, formatDateTime, t } from "../i18n";
+import { SessionSummary } from "../sessionStore";
+import { AppStore } from "../state";
+import { shallowEqualArrays } from "../store";
+import { View, h, reconcileList } from "./dom";
+
+type HistoryItemProps = {
+    session: SessionSummary;
+    isActive: boolean;
+    isRenaming: boolean;
+};
+
+const describeSession = (session: SessionSummary) =>
+    t('history.meta', { count: session.imageCount, date: formatDateTime(session.updatedAt) });
+
+const createRenameInput = (session: SessionSummary, actions: AppActions) => {
+    const input = h('input', {
+        type: 'text', className: 'history-rename-input', value: session.name, attrs: { 'aria-label': t('history.nameLabel') },
+    });
+    let settled = false;
+    const commit = () => {
+        if (settled) return;
+        settled = true;
+        actions.renameSession(session.id, input.value);
+    };
+    input.addEventListener('keydown', (e) => {
+        if (e.key === 'Enter') commit();
+        if (e.key === 'Escape') {
+            settled = true;
+            actions.setRenamingSession(null);
+        }
+    });
+    input.addEventListener('blur', commit);
+    return input;
+};
+
+const createHistoryItem = (initial: HistoryItemProps, actions: AppActions): View<HistoryItemProps> => {
+    const { id } = initial.session;
+    let props = initial;
+    let renameInput: HTMLInputElement | null = null;
+    const thumbnail = h('img', { className: 'history-thumbnail', alt: '' });
+    const name = h('p', { className: 'history-name' });
+    const meta = h('p', { className: 'history-meta' });
+    const details = h('div', { className: 'history-details' }, name, meta);
+    const actionButton = (action: 'open' | 'rename' | 'delete', onClick: () => void) => {
+        const button = h('button', { type: 'button', className: 'history-button', dataset: { action } }, t(`history.${action}`));
+        button.addEventListener('click', onClick);
+        return button;
+    };
+    const buttons = [
+        actionButton('open', () => actions.openSession(id)),
+        actionButton('rename', () => actions.setRenamingSession(id)),
+        actionButton('delete', () => {
+            const { session } = props;
+            if (window.confirm(t('history.confirmDelete', { name: session.name }))) actions.deleteSession(id);
+        }),
+    ];
+    const element = h('div', { className: 'history-item' }, thumbnail, details, h('div', { className: 'history-actions' }, ...buttons));
+
+    const update = (next: HistoryItemProps) => {
+        props = next;
+        if (thumbnail.src !== next.session.thumbnail) thumbnail.src = next.session.thumbnail;
+        name.textContent = next.session.name;
+        // Every item has the same three buttons, so each names the session it acts on.
+        buttons.forEach(button => button.setAttribute('aria-label',
+            t(`history.${button.dataset.action}.label` as MessageKey, { name: next.session.name })));
+        meta.textContent = describeSession(next.session);
+        element.classList.toggle('is-active', next.isActive);
+        if (next.isRenaming && !renameInput) {
+            renameInput = createRenameInput(next.session, actions);
+            name.replaceWith(renameInput);
+            renameInput.select();
+        } else if (!next.isRenaming && renameInput) {
+            renameInput.replaceWith(name);
+            renameInput = null;
+        }
+    };
+
+    update(initial);
+    return { element, update };
+};
+
+/** Sessions saved in this browser, most recent first. Hidden until there is at least one. */
+export function createHistoryPanel(store: AppStore, actions: AppActions): HTMLElement {
+    const list = h('div', { id: 'history-list', className: 'history-list' });
+    const section = h('div', { id: 'history-section', className: 'hidden' },
+        h('h2', { className: 'section-title' }, t('history.title')), list);
+    const items = new Map<string, View<HistoryItemProps>>();
+
+    store.select(state => [state.sessionSummaries, state.activeSession?.id, state.renamingSessionId] as const, () => {
+        const { sessionSummaries, activeSession, renamingSessionId } = store.getState();
+        section.classList.toggle('hidden', sessionSummaries.length === 0);
+        reconcileList(list, items,
+            sessionSummaries.map(session => ({
+                session, isActive: session.id === activeSession?.id, isRenaming: session.id === renamingSessionId,
+            })),
+            item => item.session.id,
+            item => createHistoryItem(item, actions));
+    }, shallowEqualArrays);
+
+    return section;
+}
@@ -0,0 +1,349 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { AppActions } from "../controller";
+import { formatNumber, t } from "../i18n";
+import { AppStore, describeResult, getLightboxCards } from "../state";
+import { shallowEqualArrays } from "../store";
+import { ResultCard } from "../types";
+import { h, prefersReducedMotion } from "./dom";
+
+const MAX_ZOOM = 4;
+const ZOOM_STEP = 1.25;
+const SPLIT_STEP = 5;
+const PAN_STEP = 40;
+const FADE_MS = 250;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+const FOCUSABLE = 'button:not(:disabled), input:not(:disabled), [tabindex="0"]';
+
+/**
+ * Full-size viewer for one finished image. The original photo sits under a draggable
+ * before/after divider, the scrubber cross-fades through the row's years, and the
+ * image can be zoomed and panned with the wheel, a pinch, a drag or the keyboard.
+ * Zoom and pan are kept here; which card is shown and the divider live in the store.
+ */
+export function createLightbox(store: AppStore, actions: AppActions): HTMLElement {
+    const title = h('h2', { id: 'lightbox-title', className: 'lightbox-title' });
+    const iconButton = (className: string, label: string, text: string) =>
+        h('button', { type: 'button', className: `secondary-button lightbox-button ${className}`, attrs: { 'aria-label': label } }, text);
+    const zoomOutButton = iconButton('lightbox-zoom-out', t('lightbox.zoomOut'), '−');
+    const zoomResetButton = h('button', { type: 'button', className: 'secondary-button lightbox-button lightbox-zoom-reset' });
+    const zoomInButton = iconButton('lightbox-zoom-in', t('lightbox.zoomIn'), '+');
+    const closeButton = h('button', {
+        type: 'button', className: 'secondary-button lightbox-button lightbox-close', attrs: { 'aria-label': t('lightbox.closeLabel') },
+    }, t('lightbox.close'));
+
+    const afterImage = h('img', { className: 'lightbox-image', alt: '', draggable: false });
+    // The next year, faded in over `afterImage` while scrubbing.
+    const fadeImage = h('img', { className: 'lightbox-image lightbox-fade', alt: '', draggable: false });
+    const beforeImage = h('img', { className: 'lightbox-image', alt: '', draggable: false });
+    const beforeLayer = h('div', { className: 'lightbox-before' }, beforeImage);
+    const beforeTag = h('span', { className: 'lightbox-tag lightbox-tag-before', attrs: { 'aria-hidden': 'true' } }, t('lightbox.before'));
+    const afterTag = h('span', { className: 'lightbox-tag lightbox-tag-after', attrs: { 'aria-hidden': 'true' } });
+    const divider = h('div', {
+        className: 'lightbox-divider', tabIndex: 0,
+        attrs: { role: 'slider', 'aria-label': t('lightbox.divider'), 'aria-valuemin': '0', 'aria-valuemax': '100' },
+    }, h('span', { className: 'lightbox-handle' }));
+    const stage = h('div', { className: 'lightbox-stage' }, afterImage, fadeImage, beforeLayer, divider, beforeTag, afterTag);
+
+    const scrubber = h('input', {
+        type: 'range', className: 'lightbox-scrubber', min: '0', step: '0.01', attrs: { 'aria-label': t('lightbox.scrubber') },
+    });
+    const firstYear = h('span', { className: 'lightbox-year' });
+    const lastYear = h('span', { className: 'lightbox-year' });
+
+    const dialog = h('div', {
+        className: 'lightbox-dialog', tabIndex: -1,
+        attrs: { role: 'dialog', 'aria-modal': 'true', 'aria-labelledby': title.id, 'aria-describedby': 'lightbox-hint' },
+    },
+        h('div', { className: 'lightbox-header' },
+            title,
+            h('div', { className: 'lightbox-toolbar' }, zoomOutButton, zoomResetButton, zoomInButton, closeButton)),
+        stage,
+        h('div', { className: 'lightbox-scrub' }, firstYear, scrubber, lastYear),
+        h('p', { id: 'lightbox-hint', className: 'muted-text lightbox-hint' }, t('lightbox.hint')));
+    // Closed with the `hidden` attribute, which keeps it out of the accessibility tree even before the stylesheet loads.
+    const overlay = h('div', { id: 'lightbox', className: 'lightbox', hidden: true }, dialog);
+
+    let cards: ResultCard[] = [];
+    let cardId: string | null = null;
+    /** Where the scrubber is, as a fractional index into `cards`. */
+    let position = 0;
+    let animation = 0;
+    let isScrubbing = false;
+    let returnFocus: HTMLElement | null = null;
+    let view = { zoom: 1, x: 0, y: 0 };
+
+    const stopAnimation = () => {
+        if (animation) cancelAnimationFrame(animation);
+        animation = 0;
+    };
+
+    // --- Years ---
+    const showPosition = (next: number) => {
+        position = clamp(next, 0, Math.max(0, cards.length - 1));
+        const lower = Math.floor(position);
+        const upper = Math.min(cards.length - 1, lower + 1);
+        const setSrc = (img: HTMLImageElement, card: ResultCard | undefined) => {
+            if (card && img.getAttribute('src') !== card.imageUrl) img.src = card.imageUrl!;
+        };
+        setSrc(afterImage, cards[lower]);
+        setSrc(fadeImage, cards[upper]);
+        fadeImage.style.opacity = String(position - lower);
+        if (!isScrubbing) scrubber.value = String(position);
+        const nearest = cards[Math.round(position)];
+        if (nearest) afterTag.textContent = t('card.age', { age: nearest.age });
+    };
+
+    /** Cross-fades from the current position to `target`, or jumps there when motion is reduced. */
+    const animateTo = (target: number) => {
+        stopAnimation();
+        if (prefersReducedMotion() || typeof requestAnimationFrame !== 'function') {
+            showPosition(target);
+            return;
+        }
+        const from = position;
+        const start = performance.now();
+        const duration = FADE_MS * Math.max(1, Math.min(3, Math.abs(target - from)));
+        const frame = (now: number) => {
+            const progress = Math.min(1, (now - start) / duration);
+            showPosition(from + (target - from) * progress);
+            if (progress < 1) animation = requestAnimationFrame(frame);
+        };
+        animation = requestAnimationFrame(frame);
+    };
+
+    // --- Zoom & Pan ---
+    const applyView = () => {
+        stage.style.setProperty('--lightbox-zoom', String(view.zoom));
+        stage.style.setProperty('--lightbox-x', `${view.x}px`);
+        stage.style.setProperty('--lightbox-y', `${view.y}px`);
+        stage.classList.toggle('is-zoomed', view.zoom > 1);
+        zoomResetButton.textContent = `${formatNumber(Math.round(view.zoom * 100))}%`;
+        zoomResetButton.setAttribute('aria-label', t('lightbox.zoomReset', { zoom: Math.round(view.zoom * 100) }));
+        zoomOutButton.disabled = view.zoom <= 1;
+        zoomInButton.disabled = view.zoom >= MAX_ZOOM;
+    };
+
+    /** Keeps the zoomed image covering the stage. */
+    const setView = (zoom: number, x: number, y: number) => {
+        const { width, height } = stage.getBoundingClientRect();
+        const nextZoom = clamp(zoom, 1, MAX_ZOOM);
+        const maxX = (width * (nextZoom - 1)) / 2;
+        const maxY = (height * (nextZoom - 1)) / 2;
+        view = { zoom: nextZoom, x: clamp(x, -maxX, maxX), y: clamp(y, -maxY, maxY) };
+        applyView();
+    };
+
+    /** Zooms by `factor`, keeping the point at `focusX`, `focusY` (from the stage centre) where it is. */
+    const zoomBy = (factor: number, focusX = 0, focusY = 0) => {
+        const zoom = clamp(view.zoom * factor, 1, MAX_ZOOM);
+        const scale = zoom / view.zoom;
+        setView(zoom, focusX - (focusX - view.x) * scale, focusY - (focusY - view.y) * scale);
+    };
+
+    const fromCentre = (clientX: number, clientY: number) => {
+        const rect = stage.getBoundingClientRect();
+        return [clientX - rect.left - rect.width / 2, clientY - rect.top - rect.height / 2] as const;
+    };
+
+    const setSplitAt = (clientX: number) => {
+        const rect = stage.getBoundingClientRect();
+        if (rect.width > 0) actions.setLightboxSplit(((clientX - rect.left) / rect.width) * 100);
+    };
+
+    // --- Pointer ---
+    const pointers = new Map<number, { x: number; y: number }>();
+    let isDraggingDivider = false;
+    let pinchDistance = 0;
+
+    const getPinch = () => {
+        const [a, b] = [...pointers.values()];
+        return { distance: Math.hypot(a.x - b.x, a.y - b.y), x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 };
+    };
+
+    stage.addEventListener('pointerdown', (e) => {
+        e.preventDefault();
+        stage.setPointerCapture?.(e.pointerId);
+        pointers.set(e.pointerId, { x: e.clientX, y: e.clientY });
+        // Unzoomed, a drag anywhere moves the divider; zoomed, only the handle does and the rest pans.
+        isDraggingDivider = pointers.size === 1 && !divider.classList.contains('hidden')
+            && (divider.contains(e.target as Node) || view.zoom === 1);
+        if (isDraggingDivider) {
+            divider.focus();
+            setSplitAt(e.clientX);
+        }
+        if (pointers.size === 2) {
+            isDraggingDivider = false;
+            pinchDistance = getPinch().distance;
+        }
+    });
+    stage.addEventListener('pointermove', (e) => {
+        const previous = pointers.get(e.pointerId);
+        if (!previous) return;
+        pointers.set(e.pointerId, { x: e.clientX, y: e.clientY });
+        if (pointers.size === 2) {
+            const pinch = getPinch();
+            if (pinchDistance > 0) zoomBy(pinch.distance / pinchDistance, ...fromCentre(pinch.x, pinch.y));
+            pinchDistance = pinch.distance;
+        } else if (isDraggingDivider) {
+            setSplitAt(e.clientX);
+        } else {
+            setView(view.zoom, view.x + e.clientX - previous.x, view.y + e.clientY - previous.y);
+        }
+    });
+    const endPointer = (e: PointerEvent) => {
+        pointers.delete(e.pointerId);
+        if (pointers.size < 2) pinchDistance = 0;
+        if (pointers.size === 0) isDraggingDivider = false;
+    };
+    stage.addEventListener('pointerup', endPointer);
+    stage.addEventListener('pointercancel', endPointer);
+    stage.addEventListener('wheel', (e) => {
+        e.preventDefault();
+        zoomBy(e.deltaY < 0 ? ZOOM_STEP : 1 / ZOOM_STEP, ...fromCentre(e.clientX, e.clientY));
+    }, { passive: false });
+    stage.addEventListener('dblclick', (e) => {
+        if (view.zoom > 1) setView(1, 0, 0);
+        else zoomBy(2, ...fromCentre(e.clientX, e.clientY));
+    });
+
+    // --- Controls ---
+    zoomInButton.addEventListener('click', () => zoomBy(ZOOM_STEP));
+    zoomOutButton.addEventListener('click', () => zoomBy(1 / ZOOM_STEP));
+    zoomResetButton.addEventListener('click', () => setView(1, 0, 0));
+    closeButton.addEventListener('click', actions.closeLightbox);
+    overlay.addEventListener('click', (e) => {
+        if (e.target === overlay) actions.closeLightbox();
+    });
+
+    scrubber.addEventListener('input', () => {
+        isScrubbing = true;
+        stopAnimation();
+        showPosition(Number(scrubber.value));
+    });
+    scrubber.addEventListener('change', () => {
+        isScrubbing = false;
+        const card = cards[Math.round(Number(scrubber.value))];
+        if (card) actions.showLightboxCard(card.id);
+        animateTo(Math.round(Number(scrubber.value)));
+    });
+
+    const trapFocus = (e: KeyboardEvent) => {
+        const items = [...dialog.querySelectorAll<HTMLElement>(FOCUSABLE)].filter(item => !item.closest('.hidden'));
+        if (items.length === 0) return;
+        const [first, last] = [items[0], items[items.length - 1]];
+        if (e.shiftKey && (document.activeElement === first || document.activeElement === dialog)) {
+            e.preventDefault();
+            last.focus();
+        } else if (!e.shiftKey && document.activeElement === last) {
+            e.preventDefault();
+            first.focus();
+        }
+    };
+
+    dialog.addEventListener('keydown', (e) => {
+        if (e.key === 'Escape') {
+            e.preventDefault();
+            actions.closeLightbox();
+            return;
+        }
+        if (e.key === 'Tab') {
+            trapFocus(e);
+            return;
+        }
+        const split = store.getState().lightbox?.split ?? 50;
+        // The divider takes the arrow keys while it has focus, like any slider.
+        const splitKeys: Record<string, number> = { ArrowLeft: split - SPLIT_STEP, ArrowRight: split + SPLIT_STEP, Home: 0, End: 100 };
+        if (e.target === divider && e.key in splitKeys) {
+            e.preventDefault();
+            actions.setLightboxSplit(splitKeys[e.key]);
+            return;
+        }
+        if ((e.target as HTMLElement).closest('button') && (e.key === 'Enter' || e.key === ' ')) return;
+
+        const pans: Record<string, [number, number]> = {
+            ArrowLeft: [PAN_STEP, 0], ArrowRight: [-PAN_STEP, 0], ArrowUp: [0, PAN_STEP], ArrowDown: [0, -PAN_STEP],
+        };
+        if (e.shiftKey && view.zoom > 1 && e.key in pans) {
+            setView(view.zoom, view.x + pans[e.key][0], view.y + pans[e.key][1]);
+        } else if (e.key === 'ArrowLeft' || e.key === 'ArrowRight') {
+            actions.stepLightbox(e.key === 'ArrowRight' ? 1 : -1);
+        } else if (e.key === 'Home' || e.key === 'End') {
+            actions.stepLightbox(e.key === 'End' ? cards.length : -cards.length);
+        } else if (e.key === '+' || e.key === '=') {
+            zoomBy(ZOOM_STEP);
+        } else if (e.key === '-') {
+            zoomBy(1 / ZOOM_STEP);
+        } else if (e.key === '0') {
+            setView(1, 0, 0);
+        } else {
+            return;
+        }
+        e.preventDefault();
+    });
+
+    // --- Rendering ---
+    const close = () => {
+        stopAnimation();
+        overlay.hidden = true;
+        document.body.classList.remove('has-lightbox');
+        // Back to the card that is now showing, or to whatever opened the viewer.
+        const card = cardId ? document.getElementById(`result-${cardId}`)?.querySelector<HTMLElement>('.result-card-open') : null;
+        (card ?? returnFocus)?.focus();
+        cardId = null;
+        returnFocus = null;
+    };
+
+    store.select(
+        state => [state.lightbox, state.results, state.people] as const,
+        () => {
+            const state = store.getState();
+            cards = getLightboxCards(state);
+            const index = cards.findIndex(card => card.id === state.lightbox?.cardId);
+            if (!state.lightbox || index === -1) {
+                if (cardId) close();
+                return;
+            }
+            const card = cards[index];
+            const isOpening = cardId === null;
+            cardId = card.id;
+
+            title.textContent = describeResult(state, card);
+            afterImage.alt = title.textContent;
+            scrubber.max = String(cards.length - 1);
+            scrubber.disabled = cards.length < 2;
+            scrubber.setAttribute('aria-valuetext', t('lightbox.scrubberValue', { age: card.age, year: card.year }));
+            firstYear.textContent = formatNumber(cards[0].year);
+            lastYear.textContent = formatNumber(cards[cards.length - 1].year);
+
+            const original = state.people.find(person => person.id === card.personId)?.uploadedImage?.objectURL;
+            [beforeLayer, beforeTag, divider].forEach(element => element.classList.toggle('hidden', !original));
+            if (original && beforeImage.getAttribute('src') !== original) beforeImage.src = original;
+            const { split } = state.lightbox;
+            beforeLayer.style.clipPath = `inset(0 ${100 - split}% 0 0)`;
+            divider.style.left = `${split}%`;
+            divider.setAttribute('aria-valuenow', String(split));
+            divider.setAttribute('aria-valuetext', t('lightbox.dividerValue', { split }));
+
+            if (isOpening) {
+                returnFocus = document.activeElement as HTMLElement | null;
+                overlay.hidden = false;
+                document.body.classList.add('has-lightbox');
+                setView(1, 0, 0);
+                showPosition(index);
+                dialog.focus();
+            } else if (!isScrubbing && index !== position) {
+                animateTo(index);
+            }
+        },
+        shallowEqualArrays,
+    );
+
+    return overlay;
+}
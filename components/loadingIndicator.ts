@@ -0,0 +1,54 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { AppActions } from "../controller";
+import { t } from "../i18n";
+import { LOADING_MESSAGE_COUNT, getLoadingMessage } from "../messages";
+import { AppStore, getRunProgress, isRunBusy } from "../state";
+import { h, prefersReducedMotion } from "./dom";
+import { describeProgress } from "./peopleBar";
+
+const MESSAGE_INTERVAL_MS = 2000;
+
+/**
+ * The clock spinner with rotating messages, overall progress and the Cancel button, shown while
+ * a run is in flight. The messages stay put when reduced motion is preferred, and are not
+ * announced: the run status live region reports progress instead.
+ */
+export function createLoadingIndicator(store: AppStore, actions: AppActions): HTMLElement {
+    const text = h('p', { id: 'loading-text', attrs: { 'aria-hidden': 'true' } });
+    const progress = h('p', { id: 'loading-progress', className: 'muted-text' });
+    const cancelButton = h('button', { id: 'cancel-button', type: 'button', className: 'secondary-button' });
+    cancelButton.addEventListener('click', actions.cancel);
+    const clock = h('div', { className: 'clock-loader', attrs: { 'aria-hidden': 'true' } },
+        h('div', { className: 'clock-center' }),
+        h('div', { className: 'clock-hand clock-hand-hour' }),
+        h('div', { className: 'clock-hand clock-hand-minute' }));
+    const element = h('div', { id: 'loading-spinner', className: 'loading-indicator hidden' }, clock, text, progress, cancelButton);
+
+    let interval: number | undefined;
+    store.select(isRunBusy, isBusy => {
+        element.classList.toggle('hidden', !isBusy);
+        clearInterval(interval);
+        if (!isBusy) return;
+        let messageIndex = 0;
+        text.textContent = getLoadingMessage(messageIndex);
+        if (prefersReducedMotion()) return;
+        interval = window.setInterval(() => {
+            // A language switch replaces the interface mid-run; stop rotating the old one.
+            if (!element.isConnected) return clearInterval(interval);
+            messageIndex = (messageIndex + 1) % LOADING_MESSAGE_COUNT;
+            text.textContent = getLoadingMessage(messageIndex);
+        }, MESSAGE_INTERVAL_MS);
+    });
+    store.select(state => describeProgress(getRunProgress(state)), description => progress.textContent = description);
+    store.select(state => state.runState === 'cancelling', isCancelling => {
+        cancelButton.disabled = isCancelling;
+        cancelButton.textContent = isCancelling ? t('run.cancelling') : t('run.cancel');
+    });
+
+    return element;
+}
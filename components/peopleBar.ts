@@ -0,0 +1,97 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { AppActions } from "../controller";
+import { t } from "../i18n";
+import { AppStore, MAX_PEOPLE, Person, PersonProgress, getActivePerson, getPersonProgress, isRunBusy } from "../state";
+import { shallowEqualArrays } from "../store";
+import { View, bindArrowKeys, h, reconcileList, setInputValue, setRovingTabIndex } from "./dom";
+
+type PersonTabProps = {
+    person: Person;
+    progress: PersonProgress;
+};
+
+const IMAGE_ACCEPT = 'image/*,.heic,.heif';
+
+export const describeProgress = ({ total, done, failed }: PersonProgress) => failed > 0
+    ? t('progress.readyWithFailures', { done, total, failed })
+    : t('progress.ready', { done, total });
+
+const createPersonTab = (initial: PersonTabProps, actions: AppActions): View<PersonTabProps> => {
+    const thumbnail = h('img', { className: 'person-tab-thumbnail', alt: '' });
+    const name = h('span', { className: 'person-tab-name' });
+    // The short "2/5" is for sighted users; screen readers get the spelled-out version.
+    const progress = h('span', { className: 'person-tab-progress', attrs: { 'aria-hidden': 'true' } });
+    const spokenProgress = h('span', { className: 'visually-hidden' });
+    const tab = h('button', { type: 'button', className: 'pill-button person-tab', attrs: { role: 'tab' } },
+        thumbnail, name, progress, spokenProgress);
+    tab.addEventListener('click', () => actions.selectPerson(initial.person.id));
+    const update = ({ person, progress: next }: PersonTabProps) => {
+        const src = person.uploadedImage?.objectURL ?? '';
+        if (thumbnail.getAttribute('src') !== src) thumbnail.src = src;
+        thumbnail.classList.toggle('hidden', !src);
+        if (name.textContent !== person.name) name.textContent = person.name;
+        progress.textContent = next.total > 0 ? t('progress.short', { done: next.done, total: next.total }) : '';
+        progress.title = next.total > 0 ? describeProgress(next) : '';
+        spokenProgress.textContent = next.total > 0 ? `, ${describeProgress(next)}` : '';
+        progress.classList.toggle('has-failures', next.failed > 0);
+    };
+    update(initial);
+    return { element: tab, update };
+};
+
+/**
+ * Tabs for everyone being aged, with their photo and progress during a run. The timeline,
+ * scenarios and sliders below always edit the selected person.
+ */
+export function createPeopleBar(store: AppStore, actions: AppActions): HTMLElement {
+    const fileInput = h('input', { type: 'file', accept: IMAGE_ACCEPT, multiple: true, hidden: true });
+    const tabList = h('div', { className: 'people-tabs', attrs: { role: 'tablist', 'aria-label': t('people.tabsLabel') } });
+    const addButton = h('button', { type: 'button', className: 'pill-button people-add' }, t('people.add'));
+    const nameInput = h('input', {
+        type: 'text', className: 'text-input person-name-input', maxLength: 40, attrs: { 'aria-label': t('people.nameLabel') },
+    });
+    const removeButton = h('button', { type: 'button', className: 'pill-button person-remove' }, t('people.remove'));
+    const nameRow = h('div', { className: 'person-name-row' }, nameInput, removeButton);
+    const tabs = new Map<string, View<PersonTabProps>>();
+
+    bindArrowKeys(tabList, '[role="tab"]', { orientation: 'horizontal', onMove: tab => tab.click() });
+    addButton.addEventListener('click', () => fileInput.click());
+    fileInput.addEventListener('change', () => {
+        const files = [...(fileInput.files ?? [])];
+        fileInput.value = '';
+        if (files.length > 0) actions.handleFiles(files, true);
+    });
+    nameInput.addEventListener('input', () => actions.renamePerson(nameInput.value));
+    nameInput.addEventListener('blur', () => setInputValue(nameInput, getActivePerson(store.getState()).name));
+    removeButton.addEventListener('click', () => actions.removePerson(store.getState().activePersonId));
+
+    store.select(state => [state.people, state.results] as const, () => {
+        const state = store.getState();
+        const people = state.people.filter(person => person.sourcePhoto !== null);
+        reconcileList(tabList, tabs, people.map(person => ({ person, progress: getPersonProgress(state, person.id) })),
+            props => props.person.id, props => createPersonTab(props, actions));
+        setRovingTabIndex(tabs, state.activePersonId);
+        addButton.classList.toggle('hidden', state.people.length >= MAX_PEOPLE);
+        nameRow.classList.toggle('hidden', state.people.length <= 1);
+    }, shallowEqualArrays);
+    store.select(getActivePerson, active => {
+        tabs.forEach((tab, id) => {
+            tab.element.classList.toggle('is-active', id === active.id);
+            tab.element.setAttribute('aria-selected', String(id === active.id));
+        });
+        setRovingTabIndex(tabs, active.id);
+        setInputValue(nameInput, active.name);
+    });
+    store.select(isRunBusy, isBusy => { removeButton.disabled = isBusy; });
+
+    const element = h('div', { id: 'people-bar', className: 'people-bar hidden' },
+        h('div', { className: 'people-tab-row' }, tabList, addButton), nameRow, fileInput);
+    store.select(state => getActivePerson(state).sourcePhoto !== null,
+        hasPhoto => element.classList.toggle('hidden', !hasPhoto));
+    return element;
+}
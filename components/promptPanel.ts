@@ -0,0 +1,150 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { AppActions } from "../controller";
+import { SUPPORTED_LOCALES, formatList, t } from "../i18n";
+import {
+    PROMPT_PLACEHOLDERS, createPrompt, findUnknownPlaceholders, getTemplateDescription, getTemplateName, isTemplateModified,
+} from "../prompt";
+import { AppStore, getActivePerson, getActiveScenario, getActiveTemplate } from "../state";
+import { shallowEqualArrays } from "../store";
+import { buildGenerationSteps, buildTimeline, validateTimeline } from "../timeline";
+import { h } from "./dom";
+
+/**
+ * Collapsed "Advanced" panel for choosing and editing the prompt template. Edits stay
+ * a draft until saved; the preview always shows the draft, rendered for each year.
+ */
+export function createPromptPanel(store: AppStore, actions: AppActions): HTMLElement {
+    const presetSelect = h('select', { id: 'prompt-template-select', className: 'text-input' });
+    store.getState().promptTemplates.forEach(template =>
+        presetSelect.appendChild(h('option', { value: template.id }, getTemplateName(template.id))));
+    const localeSelect = h('select', {
+        id: 'prompt-locale-select', className: 'text-input', attrs: { 'aria-describedby': 'prompt-locale-hint' },
+    }, ...SUPPORTED_LOCALES.map(locale => h('option', { value: locale.id }, locale.name)));
+    const description = h('p', { className: 'prompt-description muted-text' });
+    const versionLabel = h('span', { className: 'prompt-version' });
+    const editor = h('textarea', {
+        id: 'prompt-template-editor', className: 'text-input prompt-editor', rows: 12, spellcheck: false,
+        attrs: { 'aria-describedby': 'prompt-placeholder-help' },
+    });
+    const warning = h('p', { className: 'prompt-warning hidden', attrs: { role: 'status' } });
+    const saveButton = h('button', { type: 'button', className: 'secondary-button' }, t('promptPanel.save'));
+    const discardButton = h('button', { type: 'button', className: 'secondary-button' }, t('promptPanel.discard'));
+    const resetButton = h('button', { type: 'button', className: 'secondary-button' }, t('promptPanel.reset'));
+    const placeholderHelp = h('ul', { id: 'prompt-placeholder-help', className: 'prompt-placeholders' },
+        ...PROMPT_PLACEHOLDERS.map(name =>
+            h('li', {}, h('code', {}, `{${name}}`), ` ${t(`placeholder.${name}`)}`)));
+    const previewTitle = h('p', { className: 'field-label' });
+    const previewList = h('div', { className: 'prompt-preview' });
+
+    const isDirty = () => editor.value !== getActiveTemplate(store.getState()).body;
+
+    const renderDraftState = () => {
+        const dirty = isDirty();
+        saveButton.disabled = !dirty;
+        discardButton.classList.toggle('hidden', !dirty);
+        const unknown = findUnknownPlaceholders(editor.value);
+        warning.textContent = unknown.length > 0
+            ? t('promptPanel.unknownPlaceholders', { count: unknown.length, names: formatList(unknown.map(name => `{${name}}`)) })
+            : '';
+        warning.classList.toggle('hidden', unknown.length === 0);
+    };
+
+    const renderPreview = () => {
+        const state = store.getState();
+        const person = getActivePerson(state);
+        const scenario = getActiveScenario(state);
+        const labels = [state.people.length > 1 ? person.name : null, person.scenarios.length > 1 ? scenario.name : null]
+            .filter(Boolean);
+        previewTitle.textContent = labels.length > 0
+            ? t('promptPanel.previewTitleFor', { labels: labels.join(' · ') })
+            : t('promptPanel.previewTitle');
+        const { timelineSettings } = person;
+        const timelineError = validateTimeline(timelineSettings);
+        if (timelineError) {
+            previewList.replaceChildren(h('p', { className: 'muted-text' }, timelineError));
+            return;
+        }
+        const { currentAge } = timelineSettings;
+        const openAges = new Set([...previewList.querySelectorAll<HTMLDetailsElement>('details[open]')].map(item => item.dataset.age));
+        const steps = buildGenerationSteps(buildTimeline(timelineSettings), currentAge, state.generationMode);
+        previewList.replaceChildren(...steps.map(({ point, source }) =>
+            h('details', { className: 'prompt-preview-item', open: openAges.has(String(point.age)), dataset: { age: String(point.age) } },
+                h('summary', {}, source
+                    ? t('promptPanel.previewItemFrom', { age: point.age, year: point.year, sourceAge: source.age })
+                    : t('promptPanel.previewItem', { age: point.age, year: point.year })),
+                h('pre', { lang: state.promptLocale }, createPrompt(point, currentAge, scenario.factors, { body: editor.value },
+                    source ? { age: source.age, hasIdentityReference: state.useIdentityReference } : undefined, state.promptLocale,
+                    scenario.appearance)))));
+    };
+
+    presetSelect.addEventListener('change', () => {
+        if (isDirty() && !window.confirm(t('promptPanel.confirmDiscard'))) {
+            presetSelect.value = store.getState().activeTemplateId;
+            return;
+        }
+        actions.selectTemplate(presetSelect.value);
+    });
+    editor.addEventListener('input', () => {
+        renderDraftState();
+        renderPreview();
+    });
+    saveButton.addEventListener('click', () => {
+        actions.saveTemplate(editor.value);
+        renderDraftState();
+    });
+    discardButton.addEventListener('click', () => {
+        editor.value = getActiveTemplate(store.getState()).body;
+        renderDraftState();
+        renderPreview();
+    });
+    resetButton.addEventListener('click', actions.resetTemplate);
+    localeSelect.addEventListener('change', () => {
+        const locale = SUPPORTED_LOCALES.find(option => option.id === localeSelect.value);
+        if (locale) actions.setPromptLocale(locale.id);
+    });
+
+    store.select(state => [getActiveTemplate(state), state.promptLocale] as const, ([template, promptLocale]) => {
+        presetSelect.value = template.id;
+        localeSelect.value = promptLocale;
+        editor.lang = promptLocale;
+        description.textContent = getTemplateDescription(template.id);
+        const modified = isTemplateModified(template, promptLocale);
+        versionLabel.textContent = t(modified ? 'promptPanel.versionEdited' : 'promptPanel.version', { version: template.version });
+        resetButton.classList.toggle('hidden', !modified);
+        // Switching templates or restoring a preset replaces the draft.
+        if (editor.value !== template.body) editor.value = template.body;
+        renderDraftState();
+        renderPreview();
+    }, shallowEqualArrays);
+    store.select(
+        state => [
+            getActivePerson(state).timelineSettings, getActivePerson(state).name, getActiveScenario(state),
+            state.people.length, state.generationMode, state.useIdentityReference,
+        ] as const,
+        renderPreview, shallowEqualArrays);
+
+    return h('details', { id: 'prompt-panel', className: 'prompt-panel' },
+        h('summary', {}, t('promptPanel.summary')),
+        h('div', { className: 'prompt-panel-body' },
+            h('div', { className: 'prompt-template-row' },
+                h('label', { htmlFor: presetSelect.id, className: 'field-label' }, t('promptPanel.template')),
+                presetSelect, versionLabel),
+            description,
+            h('div', { className: 'prompt-template-row' },
+                h('label', { htmlFor: localeSelect.id, className: 'field-label' }, t('promptPanel.language')),
+                localeSelect),
+            h('p', { id: 'prompt-locale-hint', className: 'muted-text' }, t('promptPanel.languageHint')),
+            h('label', { htmlFor: editor.id, className: 'field-label' }, t('promptPanel.templateText')),
+            editor,
+            warning,
+            h('div', { className: 'preview-actions' }, saveButton, discardButton, resetButton),
+            h('p', { className: 'field-label' }, t('promptPanel.placeholders')),
+            placeholderHelp,
+            previewTitle,
+            previewList));
+}
@@ -0,0 +1,245 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describeAppearance, normalizeAppearance } from "../appearance";
+import { AppActions } from "../controller";
+import { shortHash } from "../fingerprint";
+import { formatNumber, t } from "../i18n";
+import { getErrorExplanation, truncate } from "../messages";
+import { CardVariation, GenerationFingerprint, ResultCard } from "../types";
+import { createAppearanceFields } from "./appearanceControls";
+import { View, h } from "./dom";
+
+/** What a card renders from: the card itself plus the bits of app state it shows. */
+export type ResultCardProps = {
+    card: ResultCard;
+    /** Set when several people were generated together, so the card can name its own. */
+    personName: string | null;
+    /** Set when several scenarios are shown. */
+    scenarioName: string | null;
+    isSelected: boolean;
+    fileName: string;
+    maxAttempts: number;
+    source: CardSource;
+};
+
+/** The image a card was generated from: the uploaded photo or, in progressive mode, an earlier card. */
+export type CardSource = {
+    label: string;
+    href: string;
+    /** False while the source card has no image, so this card cannot be generated yet. */
+    isReady: boolean;
+    /** Whether the uploaded photo was attached as an identity reference as well. */
+    withReference: boolean;
+};
+
+const isSameSource = (a: CardSource, b: CardSource) =>
+    a.label === b.label && a.href === b.href && a.isReady === b.isReady && a.withReference === b.withReference;
+
+/** Names the card for buttons and screen readers, e.g. "age 60 (Ana · Healthy habits)". */
+const describeCard = ({ card, personName, scenarioName }: ResultCardProps) => {
+    const context = [personName, scenarioName].filter(Boolean).join(' · ');
+    return context ? t('card.nameWithContext', { age: card.age, context }) : t('card.name', { age: card.age });
+};
+
+const describeStatus = (props: ResultCardProps): string => {
+    const { card, source } = props;
+    switch (card.status) {
+        case 'loading': return source.isReady ? t('card.status.generating') : t('card.status.waiting', { source: source.label });
+        case 'success': return t('card.status.ready');
+        case 'error': return t('card.status.failed', { reason: getErrorExplanation(card.errorReason).title });
+        default: return source.isReady ? t('card.status.cancelled') : t('card.status.notGenerated');
+    }
+};
+
+const renderSource = ({ source }: ResultCardProps): HTMLElement =>
+    h('p', { className: 'result-card-source' },
+        t('card.from'), h('a', { href: source.href }, source.label), source.withReference ? t('card.withReference') : '');
+
+const renderLoading = (props: ResultCardProps): (HTMLElement | null)[] => [
+    h('div', { className: 'shimmer-track', attrs: { 'aria-hidden': 'true' } }, h('div', { className: 'shimmer-bar' })),
+    h('p', { className: 'result-card-age' }, t('card.age', { age: props.card.age })),
+    h('p', { className: 'result-card-year' }, formatNumber(props.card.year)),
+    props.source.isReady
+        ? renderSource(props)
+        : h('p', { className: 'result-card-note' }, t('card.waiting', { source: props.source.label })),
+    props.card.attempt && props.card.attempt > 1
+        ? h('p', { className: 'result-card-note' }, t('card.retrying', { attempt: props.card.attempt, max: props.maxAttempts }))
+        : null,
+];
+
+/** The inputs behind an image, with hashes shortened for display; the title holds the full hash. */
+const renderFingerprint = (fingerprint: GenerationFingerprint): HTMLElement => {
+    const row = (label: string, value: string, title?: string) =>
+        [h('dt', {}, label), h('dd', title ? { title } : {}, value)];
+    return h('details', { className: 'result-card-details' },
+        h('summary', {}, t('card.details')),
+        h('dl', {},
+            ...row(t('card.details.model'), `${fingerprint.provider} · ${fingerprint.model}`),
+            ...row(t('card.details.seed'), String(fingerprint.seed)),
+            ...row(t('card.details.temperature'),
+                fingerprint.temperature !== undefined ? formatNumber(fingerprint.temperature) : t('card.details.default')),
+            ...row(t('card.details.prompt'), shortHash(fingerprint.promptHash), fingerprint.promptHash),
+            ...row(t('card.details.image'), shortHash(fingerprint.imageHash), fingerprint.imageHash),
+            ...(fingerprint.referenceImageHash
+                ? row(t('card.details.reference'), shortHash(fingerprint.referenceImageHash), fingerprint.referenceImageHash)
+                : [])));
+};
+
+/** What the card's prompt set beyond aging, e.g. "60% grey · Glasses"; nothing when all is on Auto. */
+const renderAppearanceBadges = (props: ResultCardProps): HTMLElement | null => {
+    const labels = describeAppearance(props.card.appearance);
+    if (labels.length === 0) return null;
+    return h('ul', { className: 'appearance-badges', attrs: { 'aria-label': t('card.appearanceLabel', { name: describeCard(props) }) } },
+        ...labels.map(label => h('li', { className: 'appearance-badge' }, label)));
+};
+
+/** Appearance fields filled in from the card, to generate the same age again with other choices. */
+const renderAppearanceEditor = (props: ResultCardProps, actions: AppActions): HTMLElement => {
+    const { card } = props;
+    let draft = normalizeAppearance(card.appearance);
+    const fields = createAppearanceFields(`appearance-${card.id}`, changes => draft = normalizeAppearance({ ...draft, ...changes }));
+    fields.update(draft);
+    const applyButton = h('button', {
+        type: 'button', className: 'card-button',
+        attrs: { 'aria-label': t('card.regenerateWithAppearanceLabel', { name: describeCard(props) }) },
+    }, t('card.regenerateWithAppearance'));
+    applyButton.addEventListener('click', () => actions.regenerateWithAppearance(card.id, draft));
+    return h('details', { className: 'result-card-details result-card-appearance' },
+        h('summary', {}, t('card.editAppearance')),
+        fields.element,
+        h('div', { className: 'result-card-actions' }, applyButton));
+};
+
+/** Alternatives for the card; picking a finished one swaps it with the current image. */
+const renderVariations = (props: ResultCardProps, variations: CardVariation[], actions: AppActions): HTMLElement =>
+    h('ul', { className: 'variation-strip', attrs: { 'aria-label': t('card.variationsLabel', { name: describeCard(props) }) } },
+        ...variations.map((variation, index) => {
+            if (variation.status === 'loading') {
+                return h('li', { className: 'variation-item is-loading' },
+                    h('div', { className: 'shimmer-bar', attrs: { 'aria-hidden': 'true' } }),
+                    h('span', { className: 'visually-hidden' }, t('card.variationLoading', { number: index + 1 })));
+            }
+            if (variation.status === 'error') {
+                const reason = getErrorExplanation(variation.errorReason).title;
+                return h('li', { className: 'variation-item is-error', title: reason },
+                    h('span', { className: 'visually-hidden' }, t('card.variationFailed', { number: index + 1, reason })));
+            }
+            const button = h('button', {
+                type: 'button', className: 'variation-button',
+                attrs: { 'aria-label': t('card.variationUse', { number: index + 1, seed: variation.fingerprint?.seed ?? '?' }) },
+            }, h('img', { src: variation.imageUrl!, alt: '' }));
+            button.addEventListener('click', () => actions.pickVariation(props.card.id, variation.id));
+            return h('li', { className: 'variation-item' }, button);
+        }));
+
+const renderSuccess = (props: ResultCardProps, actions: AppActions): (HTMLElement | null)[] => {
+    const { card, personName, scenarioName, fileName } = props;
+    const name = describeCard(props);
+    const compareButton = h('button', {
+        type: 'button', className: 'card-button compare-toggle', attrs: { 'aria-label': t('card.compareLabel', { name }) },
+    }, t('card.compare'));
+    compareButton.addEventListener('click', () => actions.toggleCompare(card.id));
+    const openButton = h('button', {
+        type: 'button', className: 'result-card-open', attrs: { 'aria-label': t('card.open', { name }) },
+    }, h('img', {
+        className: 'result-card-image', src: card.imageUrl!, loading: 'lazy',
+        alt: t(scenarioName ? 'card.altWithScenario' : 'card.alt', {
+            person: personName ?? t('card.you'), age: card.age, year: card.year, scenario: scenarioName ?? '',
+        }),
+    }));
+    openButton.addEventListener('click', () => actions.openLightbox(card.id));
+    const regenerateButton = h('button', {
+        type: 'button', className: 'card-button', attrs: { 'aria-label': t('card.regenerateLabel', { name }) },
+    }, t('card.regenerate'));
+    regenerateButton.addEventListener('click', () => actions.regenerate(card.id));
+    const variationsButton = h('button', {
+        type: 'button', className: 'card-button', attrs: { 'aria-label': t('card.variationsButtonLabel', { name }) },
+    }, t('card.variations'));
+    variationsButton.addEventListener('click', () => actions.generateVariations(card.id));
+    return [
+        openButton,
+        h('p', { className: 'result-card-age' }, t('card.age', { age: card.age })),
+        h('p', { className: 'result-card-year' }, formatNumber(card.year)),
+        renderSource(props),
+        renderAppearanceBadges(props),
+        h('div', { className: 'result-card-actions' },
+            h('a', {
+                className: 'card-button download-link', href: card.imageUrl!, download: fileName,
+                attrs: { 'aria-label': t('card.downloadLabel', { name }) },
+            }, t('card.download')),
+            compareButton),
+        h('div', { className: 'result-card-actions' }, regenerateButton, variationsButton),
+        card.variations?.length ? renderVariations(props, card.variations, actions) : null,
+        renderAppearanceEditor(props, actions),
+        card.fingerprint ? renderFingerprint(card.fingerprint) : null,
+    ];
+};
+
+const renderFailure = (props: ResultCardProps, actions: AppActions): (HTMLElement | null)[] => {
+    const { card, source } = props;
+    const explanation = card.status !== 'cancelled'
+        ? getErrorExplanation(card.errorReason)
+        : source.isReady
+            ? { title: t('card.cancelled'), message: '' }
+            : { title: t('card.notGenerated'), message: t('card.notGeneratedMessage', { source: source.label }) };
+    const retryButton = h('button', {
+        type: 'button', className: 'retry-button', attrs: { 'aria-label': t('card.retryLabel', { name: describeCard(props) }) },
+    }, t('card.retry'));
+    retryButton.addEventListener('click', () => actions.retry(card.id));
+    return [
+        h('p', { className: 'error-title' }, explanation.title),
+        h('p', { className: 'result-card-age' }, t('card.age', { age: card.age })),
+        h('p', { className: 'result-card-year' }, formatNumber(card.year)),
+        source.isReady ? renderSource(props) : null,
+        renderAppearanceBadges(props),
+        explanation.message ? h('p', { className: 'error-reason' }, explanation.message) : null,
+        card.modelText ? h('p', { className: 'model-text', title: card.modelText }, `“${truncate(card.modelText, 140)}”`) : null,
+        retryButton,
+    ];
+};
+
+/**
+ * A single age in the timeline. The card body is rebuilt only when the card
+ * itself changes; selection and file name changes patch the existing nodes.
+ * The card is named after its age and status, so screen readers can skim the
+ * timeline card by card, and it takes focus when a "From" link points to it.
+ */
+export function createResultCard(initial: ResultCardProps, actions: AppActions): View<ResultCardProps> {
+    const body = h('div', { className: 'result-card-body' });
+    const element = h('article', { id: `result-${initial.card.id}`, className: 'result-card', tabIndex: -1 }, body);
+    let props: ResultCardProps | null = null;
+
+    const update = (next: ResultCardProps) => {
+        if (!props || next.card !== props.card || next.personName !== props.personName
+            || next.scenarioName !== props.scenarioName || next.maxAttempts !== props.maxAttempts
+            || !isSameSource(next.source, props.source)) {
+            const { status } = next.card;
+            element.className = `result-card result-card-${status === 'cancelled' ? 'error' : status}`;
+            const nodes = status === 'loading' ? renderLoading(next)
+                : status === 'success' ? renderSuccess(next, actions)
+                : renderFailure(next, actions);
+            body.replaceChildren(...nodes.filter((node): node is HTMLElement => node !== null));
+            const context = [next.personName, next.scenarioName].filter(Boolean).join(' · ');
+            element.setAttribute('aria-label', t(context ? 'card.labelWithContext' : 'card.label', {
+                age: next.card.age, context, year: next.card.year, status: describeStatus(next),
+            }));
+            element.setAttribute('aria-busy', String(status === 'loading'));
+        }
+        element.classList.toggle('is-selected', next.isSelected);
+        const compareButton = body.querySelector<HTMLButtonElement>('.compare-toggle');
+        if (compareButton) {
+            compareButton.classList.toggle('is-active', next.isSelected);
+            compareButton.setAttribute('aria-pressed', String(next.isSelected));
+        }
+        const downloadLink = body.querySelector<HTMLAnchorElement>('.download-link');
+        if (downloadLink && downloadLink.download !== next.fileName) downloadLink.download = next.fileName;
+        props = next;
+    };
+
+    update(initial);
+    return { element, update };
+}
@@ -0,0 +1,25 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { AppActions } from "../controller";
+import { t } from "../i18n";
+import { AppStore, isRunBusy } from "../state";
+import { createComparisonPanel } from "./comparisonPanel";
+import { h } from "./dom";
+import { createExportMenu } from "./exportMenu";
+import { createLoadingIndicator } from "./loadingIndicator";
+import { createTimelineView } from "./timelineView";
+
+export function createResultsSection(store: AppStore, actions: AppActions, maxAttempts: number): HTMLElement {
+    const section = h('div', { id: 'results-section', className: 'collapsible' },
+        h('h2', { className: 'section-title' }, t('results.title')),
+        createLoadingIndicator(store, actions),
+        createExportMenu(store, actions),
+        createTimelineView(store, actions, maxAttempts),
+        createComparisonPanel(store, actions));
+    store.select(state => isRunBusy(state) || state.results.length > 0, isOpen => section.classList.toggle('is-open', isOpen));
+    return section;
+}
@@ -0,0 +1,31 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { t } from "../i18n";
+import { AppState, AppStore, getRunProgress } from "../state";
+import { h } from "./dom";
+import { describeProgress } from "./peopleBar";
+
+const describeRun = (state: AppState): string => {
+    const progress = describeProgress(getRunProgress(state));
+    switch (state.runState) {
+        case 'running': return progress;
+        case 'cancelling': return t('run.cancelling');
+        case 'done': return t('run.finished', { progress });
+        default: return '';
+    }
+};
+
+/**
+ * A visually hidden live region that politely announces how far generation has got,
+ * e.g. "3 of 5 ready", and when it finishes. It stays outside the collapsible sections
+ * so screen readers track it from the start.
+ */
+export function createRunStatus(store: AppStore): HTMLElement {
+    const element = h('p', { id: 'run-status', className: 'visually-hidden', attrs: { role: 'status' } });
+    store.select(describeRun, text => element.textContent = text);
+    return element;
+}
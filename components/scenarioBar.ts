@@ -0,0 +1,58 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { AppActions } from "../controller";
+import { t } from "../i18n";
+import { AppStore, MAX_SCENARIOS, getActivePerson, getActiveScenario } from "../state";
+import { Scenario } from "../types";
+import { View, bindArrowKeys, h, reconcileList, setInputValue, setRovingTabIndex } from "./dom";
+
+/** Tabs for each lifestyle scenario, plus controls to add, rename and remove them. */
+export function createScenarioBar(store: AppStore, actions: AppActions): HTMLElement {
+    const tabList = h('div', { className: 'scenario-tabs', attrs: { role: 'tablist', 'aria-label': t('scenario.tabsLabel') } });
+    const addButton = h('button', { type: 'button', className: 'pill-button scenario-add' }, t('scenario.add'));
+    const nameInput = h('input', {
+        type: 'text', className: 'text-input scenario-name-input', maxLength: 40, attrs: { 'aria-label': t('scenario.nameLabel') },
+    });
+    const removeButton = h('button', { type: 'button', className: 'pill-button scenario-remove' }, t('scenario.remove'));
+    const tabs = new Map<string, View<Scenario>>();
+
+    const createTab = (scenario: Scenario): View<Scenario> => {
+        const tab = h('button', { type: 'button', className: 'pill-button scenario-tab', attrs: { role: 'tab' } });
+        tab.addEventListener('click', () => actions.selectScenario(scenario.id));
+        const update = (next: Scenario) => {
+            if (tab.textContent !== next.name) tab.textContent = next.name;
+        };
+        update(scenario);
+        return { element: tab, update };
+    };
+
+    // Tabs follow the arrow keys, so moving to a tab also selects it.
+    bindArrowKeys(tabList, '[role="tab"]', { orientation: 'horizontal', onMove: tab => tab.click() });
+    addButton.addEventListener('click', actions.addScenario);
+    removeButton.addEventListener('click', actions.removeScenario);
+    nameInput.addEventListener('input', () => actions.renameScenario(nameInput.value));
+    nameInput.addEventListener('blur', () => setInputValue(nameInput, getActiveScenario(store.getState()).name));
+
+    store.select(state => getActivePerson(state).scenarios, scenarios => {
+        reconcileList(tabList, tabs, scenarios, scenario => scenario.id, createTab);
+        setRovingTabIndex(tabs, getActiveScenario(store.getState()).id);
+        addButton.classList.toggle('hidden', scenarios.length >= MAX_SCENARIOS);
+        removeButton.classList.toggle('hidden', scenarios.length <= 1);
+    });
+    store.select(state => getActiveScenario(state), active => {
+        tabs.forEach((tab, id) => {
+            tab.element.classList.toggle('is-active', id === active.id);
+            tab.element.setAttribute('aria-selected', String(id === active.id));
+        });
+        setRovingTabIndex(tabs, active.id);
+        setInputValue(nameInput, active.name);
+    });
+
+    return h('div', { id: 'scenario-bar', className: 'scenario-bar' },
+        h('div', { className: 'scenario-tab-row' }, tabList, addButton),
+        h('div', { className: 'scenario-name-row' }, nameInput, removeButton));
+}
@@ -0,0 +1,56 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { AppActions, TimelineInputKey } from "../controller";
+import { MessageKey, t } from "../i18n";
+import { AppStore, getActivePerson } from "../state";
+import { TimelineSettings } from "../types";
+import { h, setInputValue } from "./dom";
+
+type FieldDefinition = {
+    id: TimelineInputKey;
+    type: 'number' | 'text';
+    /** Whether the catalog has a `timeline.<id>.placeholder` entry. */
+    hasPlaceholder?: boolean;
+    /** The input's text for the given settings. */
+    format(settings: TimelineSettings): string;
+};
+
+const formatAge = (age: number) => Number.isNaN(age) ? '' : String(age);
+
+const FIELDS: FieldDefinition[] = [
+    { id: 'currentAge', type: 'number', format: settings => formatAge(settings.currentAge) },
+    {
+        id: 'birthYear', type: 'number',
+        format: settings => formatAge(new Date().getFullYear() - settings.currentAge),
+    },
+    { id: 'startAge', type: 'number', format: settings => formatAge(settings.startAge) },
+    { id: 'endAge', type: 'number', format: settings => formatAge(settings.endAge) },
+    { id: 'step', type: 'number', format: settings => formatAge(settings.step) },
+    {
+        id: 'customAges', type: 'text', hasPlaceholder: true,
+        format: settings => settings.customAges.join(', '),
+    },
+];
+
+/** Current age (or birth year, kept in sync) and the ages to generate. */
+export function createTimelineForm(store: AppStore, actions: AppActions): HTMLElement {
+    const grid = h('div', { className: 'timeline-grid' });
+    FIELDS.forEach(field => {
+        const input = h('input', { type: field.type, id: `${field.id}-input`, className: 'text-input' });
+        if (field.hasPlaceholder) input.placeholder = t(`timeline.${field.id}.placeholder` as MessageKey);
+        if (field.type === 'number') input.step = '1';
+        input.addEventListener('input', () => actions.setTimelineField(field.id, input.value));
+        grid.appendChild(h('div', { className: field.id === 'customAges' ? 'timeline-field timeline-field-wide' : 'timeline-field' },
+            h('label', { htmlFor: input.id, className: 'field-label' }, t(`timeline.${field.id}`)),
+            input));
+        store.select(state => getActivePerson(state).timelineSettings, settings => setInputValue(input, field.format(settings)));
+    });
+    const title = h('h2', { className: 'section-title' });
+    store.select(state => state.people.length > 1 ? t('timeline.titleFor', { name: getActivePerson(state).name }) : t('timeline.title'),
+        text => title.textContent = text);
+    return h('div', {}, title, grid);
+}
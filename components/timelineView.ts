@@ -0,0 +1,127 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { AppActions } from "../controller";
+import { ExportPerson, getCardFileName } from "../exporters";
+import { t } from "../i18n";
+import { AppState, AppStore, PersonProgress, getExportPeople, getPersonProgress } from "../state";
+import { shallowEqualArrays } from "../store";
+import { ResultCard, Scenario } from "../types";
+import { View, bindArrowKeys, h, reconcileList } from "./dom";
+import { describeProgress } from "./peopleBar";
+import { CardSource, ResultCardProps, createResultCard } from "./resultCard";
+
+type RowProps = {
+    scenario: Scenario;
+    showName: boolean;
+    cards: ResultCardProps[];
+};
+
+type PersonGroupProps = {
+    person: ExportPerson;
+    /** Only shown when several people were generated together. */
+    showHeader: boolean;
+    thumbnail: string;
+    progress: PersonProgress;
+    rows: RowProps[];
+};
+
+const getCardSource = (state: AppState, card: ResultCard): CardSource => {
+    const source = card.sourceCardId ? state.results.find(r => r.id === card.sourceCardId) : undefined;
+    const withReference = card.usesIdentityReference ?? false;
+    if (!source) return { label: t('card.yourPhoto'), href: '#image-preview', isReady: true, withReference };
+    return { label: t('card.age', { age: source.age }), href: `#result-${source.id}`, isReady: source.status === 'success', withReference };
+};
+
+const getGroups = (state: AppState, maxAttempts: number): PersonGroupProps[] => {
+    const exportPeople = getExportPeople(state);
+    const people = exportPeople.filter(person => state.results.some(r => r.personId === person.id));
+    const showHeader = people.length > 1;
+    return people.map(person => {
+        const scenarios = person.scenarios.filter(scenario => state.results.some(r => r.scenarioId === scenario.id));
+        const showName = scenarios.length > 1;
+        const rows = scenarios.map(scenario => ({
+            scenario,
+            showName,
+            cards: state.results
+                .filter(card => card.scenarioId === scenario.id)
+                .map(card => ({
+                    card,
+                    personName: showHeader ? person.name : null,
+                    scenarioName: showName ? scenario.name : null,
+                    isSelected: state.compareSelection.includes(card.id),
+                    fileName: getCardFileName({ people: exportPeople }, card),
+                    maxAttempts,
+                    source: getCardSource(state, card),
+                })),
+        }));
+        return {
+            person,
+            showHeader,
+            thumbnail: state.people.find(other => other.id === person.id)?.uploadedImage?.objectURL ?? '',
+            progress: getPersonProgress(state, person.id),
+            rows,
+        };
+    });
+};
+
+const createRow = (initial: RowProps, actions: AppActions): View<RowProps> => {
+    const title = h('p', { className: 'timeline-row-title' });
+    const cardList = h('div', { className: 'timeline-cards', attrs: { role: 'group' } });
+    const cards = new Map<string, View<ResultCardProps>>();
+    // Left and right step through the ages; Tab still reaches each card's buttons.
+    bindArrowKeys(cardList, '.result-card', { orientation: 'horizontal' });
+    const update = (next: RowProps) => {
+        title.textContent = next.scenario.name;
+        cardList.setAttribute('aria-label', next.scenario.name);
+        title.classList.toggle('hidden', !next.showName);
+        reconcileList(cardList, cards, next.cards, props => props.card.id, props => createResultCard(props, actions));
+    };
+    update(initial);
+    return { element: h('div', { className: 'timeline-row' }, title, cardList), update };
+};
+
+/** A person's header with their photo and progress, followed by one row per scenario. */
+const createPersonGroup = (initial: PersonGroupProps, actions: AppActions): View<PersonGroupProps> => {
+    const thumbnail = h('img', { className: 'person-group-thumbnail', alt: '' });
+    const name = h('h3', { className: 'person-group-name' });
+    const progressText = h('p', { className: 'person-group-progress' });
+    const progressBar = h('progress', { className: 'person-group-bar' });
+    const header = h('div', { className: 'person-group-header' },
+        thumbnail, h('div', { className: 'person-group-details' }, name, progressText, progressBar));
+    const rowList = h('div', {});
+    const rows = new Map<string, View<RowProps>>();
+    const update = (next: PersonGroupProps) => {
+        header.classList.toggle('hidden', !next.showHeader);
+        if (thumbnail.getAttribute('src') !== next.thumbnail) thumbnail.src = next.thumbnail;
+        thumbnail.classList.toggle('hidden', !next.thumbnail);
+        name.textContent = next.person.name;
+        progressText.textContent = describeProgress(next.progress);
+        progressBar.max = next.progress.total;
+        progressBar.value = next.progress.done + next.progress.failed;
+        progressBar.setAttribute('aria-label', t('timelineView.progressLabel', { name: next.person.name, progress: describeProgress(next.progress) }));
+        reconcileList(rowList, rows, next.rows, row => row.scenario.id, row => createRow(row, actions));
+    };
+    update(initial);
+    return { element: h('div', { className: 'person-group' }, header, rowList), update };
+};
+
+/** One group per person and one row per scenario; rows of the same person use the same ages, so cards line up by age. */
+export function createTimelineView(store: AppStore, actions: AppActions, maxAttempts: number): HTMLElement {
+    // Focusable so the keyboard can scroll it sideways when the cards overflow.
+    const container = h('div', {
+        id: 'timeline-container', className: 'timeline-container', tabIndex: 0,
+        attrs: { role: 'region', 'aria-label': t('timelineView.label') },
+    });
+    const groups = new Map<string, View<PersonGroupProps>>();
+    store.select(
+        state => [state.results, state.compareSelection, state.activeSession, state.people] as const,
+        () => reconcileList(container, groups, getGroups(store.getState(), maxAttempts), group => group.person.id,
+            group => createPersonGroup(group, actions)),
+        shallowEqualArrays,
+    );
+    return container;
+}
@@ -0,0 +1,145 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { isCameraSupported } from "../camera";
+import { AppActions } from "../controller";
+import { CropEditor, createCropEditor } from "../cropEditor";
+import { t } from "../i18n";
+import { isFaceDetectionAvailable } from "../preprocess";
+import { AppState, AppStore, getActivePerson } from "../state";
+import { shallowEqualArrays } from "../store";
+import { createCameraPanel } from "./cameraPanel";
+import { h } from "./dom";
+import { createFacePicker } from "./facePicker";
+import { createPeopleBar } from "./peopleBar";
+
+const DROP_ZONE_ICON = `
+    <svg width="48" height="48" viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg" aria-hidden="true">
+        <path d="M12 16.5V3M12 3L16 7.375M12 3L8 7.375M21 12.5V19.8C21 20.1313 20.8682 20.4493 20.6364 20.6811C20.4045 20.9129 20.0866 21.0447 19.755 21.0447H4.245C3.91341 21.0447 3.59551 20.9129 3.36364 20.6811C3.13177 20.4493 3 20.1313 3 19.8V12.5" stroke="currentColor" stroke-width="1.5" stroke-linecap="round" stroke-linejoin="round"/>
+    </svg>`;
+
+const describeImage = (state: AppState) => {
+    const { uploadedImage: image, isProcessingImage, cropRect } = getActivePerson(state);
+    if (!image) return '';
+    if (isProcessingImage) return t('upload.processing');
+    return t('upload.imageInfo', {
+        width: image.width, height: image.height, format: image.mimeType === 'image/png' ? 'PNG' : 'JPEG',
+        framing: cropRect ? t('upload.cropped') : t('upload.fullPhoto'),
+    });
+};
+
+/**
+ * The drop zone, and once a photo is chosen, the people being aged and the selected
+ * person's processed preview with the crop and group photo controls.
+ */
+export function createUploadSection(store: AppStore, actions: AppActions): HTMLElement {
+    const fileInput = h('input', { type: 'file', id: 'image-upload', accept: 'image/*,.heic,.heif', multiple: true, hidden: true });
+    // A focusable button role rather than a <button>, which may not contain the block-level prompt.
+    const dropZone = h('div', {
+        id: 'drop-zone', className: 'drop-zone', tabIndex: 0,
+        attrs: { role: 'button', 'aria-label': t('upload.dropZoneLabel'), 'aria-describedby': 'drop-zone-hint' },
+    });
+    const prompt = h('div', { className: 'drop-zone-prompt', innerHTML: DROP_ZONE_ICON },
+        h('p', {}, t('upload.dropPrompt'), h('span', { className: 'upload-link' }, t('upload.browse'))),
+        h('p', { id: 'drop-zone-hint', className: 'muted-text' }, t('upload.dropHint')));
+    dropZone.appendChild(prompt);
+
+    const imagePreview = h('img', { id: 'image-preview', className: 'image-preview' });
+    const cropEditorHost = h('div', { id: 'crop-editor-host' });
+    const imageInfo = h('p', { id: 'image-info', className: 'image-info', attrs: { role: 'status' } });
+    const previewButton = (id: string, label: string, onClick: () => void) => {
+        const button = h('button', { id, type: 'button', className: 'secondary-button' }, label);
+        button.addEventListener('click', onClick);
+        return button;
+    };
+    let cropEditor: CropEditor | null = null;
+    const autoCropButton = previewButton('auto-crop-button', t('upload.autoCrop'), actions.autoCrop);
+    const adjustCropButton = previewButton('adjust-crop-button', t('upload.adjustCrop'), actions.openCropEditor);
+    const fullPhotoButton = previewButton('full-photo-button', t('upload.useFullPhoto'), actions.useFullPhoto);
+    const applyCropButton = previewButton('apply-crop-button', t('upload.applyCrop'), () => {
+        if (cropEditor) actions.applyCrop(cropEditor.getCrop());
+    });
+    const cancelCropButton = previewButton('cancel-crop-button', t('common.cancel'), actions.cancelCrop);
+    const changePhotoButton = previewButton('change-photo-button', t('upload.changePhoto'), () => fileInput.click());
+    const cameraButton = previewButton('camera-button', t('camera.open'), actions.openCamera);
+    const changeCameraButton = previewButton('change-camera-button', t('camera.open'), actions.openCamera);
+    const findFacesButton = previewButton('find-faces-button', t('upload.findFaces'), actions.findFaces);
+    const addFromPhotoButton = previewButton('add-from-photo-button', t('upload.addFromPhoto'), actions.addPersonFromPhoto);
+    const previewContainer = h('div', { id: 'image-preview-container', className: 'image-preview-container hidden' },
+        imagePreview, cropEditorHost, imageInfo,
+        h('div', { className: 'preview-actions' },
+            autoCropButton, adjustCropButton, fullPhotoButton, applyCropButton, cancelCropButton, changePhotoButton,
+            changeCameraButton),
+        h('div', { className: 'preview-actions' }, findFacesButton, addFromPhotoButton),
+        createFacePicker(store, actions));
+
+    // --- Events ---
+    dropZone.addEventListener('click', () => fileInput.click());
+    dropZone.addEventListener('keydown', (e) => {
+        if (e.key !== 'Enter' && e.key !== ' ') return;
+        e.preventDefault(); // Keep Space from scrolling the page.
+        fileInput.click();
+    });
+    fileInput.addEventListener('change', () => {
+        const files = [...(fileInput.files ?? [])];
+        fileInput.value = ''; // Allow choosing the same file again.
+        actions.handleFiles(files);
+    });
+    dropZone.addEventListener('dragover', (e) => {
+        e.preventDefault();
+        dropZone.classList.add('is-dragging');
+    });
+    dropZone.addEventListener('dragleave', () => dropZone.classList.remove('is-dragging'));
+    dropZone.addEventListener('drop', (e) => {
+        e.preventDefault();
+        dropZone.classList.remove('is-dragging');
+        actions.handleFiles([...(e.dataTransfer?.files ?? [])]);
+    });
+
+    // --- Bindings ---
+    // The camera panel stands in for the drop zone and the preview while it is open.
+    const cameraActions = h('div', { className: 'preview-actions' }, cameraButton);
+    store.select(state => [getActivePerson(state).uploadedImage, state.camera !== null] as const, ([image, isCameraOpen]) => {
+        dropZone.classList.toggle('hidden', image !== null || isCameraOpen);
+        cameraActions.classList.toggle('hidden', image !== null || isCameraOpen || !isCameraSupported());
+        previewContainer.classList.toggle('hidden', image === null || isCameraOpen);
+        if (image) imagePreview.src = image.objectURL;
+    }, shallowEqualArrays);
+    store.select(state => state.people.length > 1 ? t('upload.previewAltFor', { name: getActivePerson(state).name }) : t('upload.previewAlt'),
+        alt => imagePreview.alt = alt);
+    store.select(describeImage, text => imageInfo.textContent = text);
+    store.select(state => state.isCropping, isCropping => {
+        cropEditor?.destroy();
+        cropEditor = null;
+        const { sourcePhoto, cropRect } = getActivePerson(store.getState());
+        if (isCropping && sourcePhoto) {
+            cropEditor = createCropEditor(sourcePhoto, cropRect);
+            cropEditorHost.appendChild(cropEditor.element);
+        }
+        imagePreview.classList.toggle('hidden', isCropping);
+        adjustCropButton.classList.toggle('hidden', isCropping);
+        changePhotoButton.classList.toggle('hidden', isCropping);
+        changeCameraButton.classList.toggle('hidden', isCropping || !isCameraSupported());
+        applyCropButton.classList.toggle('hidden', !isCropping);
+        cancelCropButton.classList.toggle('hidden', !isCropping);
+    });
+    store.select(state => !state.isCropping && isFaceDetectionAvailable(),
+        canAutoCrop => autoCropButton.classList.toggle('hidden', !canAutoCrop));
+    store.select(state => !state.isCropping && getActivePerson(state).cropRect !== null,
+        hasCrop => fullPhotoButton.classList.toggle('hidden', !hasCrop));
+    store.select(state => !state.isCropping && state.facePicker === null && isFaceDetectionAvailable(),
+        canFindFaces => findFacesButton.classList.toggle('hidden', !canFindFaces));
+    store.select(state => state.isCropping || state.facePicker !== null,
+        isBusy => addFromPhotoButton.classList.toggle('hidden', isBusy));
+    store.select(state => getActivePerson(state).isProcessingImage, isProcessing => {
+        [autoCropButton, adjustCropButton, fullPhotoButton, applyCropButton, findFacesButton, addFromPhotoButton]
+            .forEach(button => button.disabled = isProcessing);
+    });
+
+    return h('div', { id: 'upload-section' },
+        createPeopleBar(store, actions), dropZone, cameraActions, fileInput,
+        createCameraPanel(store, actions, () => fileInput.click()), previewContainer);
+}
@@ -0,0 +1,1390 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Appearance, normalizeAppearance } from "./appearance";
+import { CAMERA_COUNTDOWN_SECONDS, CameraDevice, CameraError, browserCamera, stopCamera } from "./camera";
+import { FactorId, getDefaultFactors } from "./factors";
+import { createFingerprint, createSeed } from "./fingerprint";
+import { Locale, formatDate, saveLocaleSettings, t } from "./i18n";
+import {
+    AgingProvider, AgingProviderError, AgingRequest, AgingResult, SourceImage, getErrorReason, isAbortError,
+} from "./providers";
+import { QueueConfig, RequestQueue, withRetry } from "./queue";
+import {
+    CropRect, ImagePipeline, ImagePreprocessError, SourcePhoto, browserImagePipeline,
+} from "./preprocess";
+import {
+    ExportSource, buildContactSheet, buildImageBundle, buildManifestBlob, downloadBlob, getDataUrlMimeType,
+    recordTimelineVideo,
+} from "./exporters";
+import {
+    JobStore, QueuedJob, SessionStoreBlockedError, StoredQueue, StoredSession, browserJobStore, createSessionId, deleteSession,
+    isSessionStorageAvailable, listSessions, loadSession, renameSession, saveSession, storedImageToFile, toStoredImage,
+} from "./sessionStore";
+import { getErrorExplanation, summarizeFailures } from "./messages";
+import { Notifier, browserNotifier } from "./pwa";
+import { createPrompt, getPresetTemplate, isTemplateModified, savePromptSettings } from "./prompt";
+import {
+    AppStore, CameraState, MAX_PEOPLE, MAX_SCENARIOS, MAX_VARIATIONS, Person, createPerson, getActivePerson, getActiveScenario,
+    getActiveTemplate, getExportPeople, getLightboxCards, getRunProgress, getUploadedPeople, isAnyImageProcessing, isRunBusy,
+} from "./state";
+import { buildReport, buildReportBlob, printReport } from "./report";
+import { buildGenerationSteps, buildTimeline, parseAgeList, validateTimeline } from "./timeline";
+import {
+    CardVariation, GenerationMode, GenerationSettings, PersonSnapshot, ResultCard, Scenario, UploadedImage,
+} from "./types";
+import {
+    MAX_REQUEST_RECORDS, Pricing, RequestRecord, UsageSettings, addToTotals, createUsageSettings, estimateCost, formatCost, getBase64Size,
+    isOverBudget, saveUsageSettings,
+} from "./usage";
+
+// --- Type Definitions ---
+export type TimelineInputKey = 'currentAge' | 'birthYear' | 'startAge' | 'endAge' | 'step' | 'customAges';
+
+export type ExportFormat = 'contact-sheet' | 'video' | 'zip' | 'manifest' | 'report' | 'report-pdf';
+
+export type ControllerDependencies = {
+    provider: AgingProvider;
+    queue: RequestQueue;
+    queueConfig: QueueConfig;
+    /** Defaults to decoding and rendering photos with the browser's canvas. */
+    images?: ImagePipeline;
+    /** Defaults to the browser's front camera. */
+    camera?: CameraDevice;
+    /** Defaults to keeping the generation queue in IndexedDB. */
+    jobs?: JobStore;
+    /** Defaults to browser notifications. */
+    notifier?: Notifier;
+};
+
+/** Everything the components may do; they never touch the store's state directly. */
+export type AppActions = {
+    /** One file replaces the active person's photo unless `asNewPeople`; several files always add people. */
+    handleFiles(files: File[], asNewPeople?: boolean): Promise<void>;
+    selectPerson(id: string): void;
+    removePerson(id: string): void;
+    renamePerson(name: string): void;
+    findFaces(): Promise<void>;
+    addPeopleFromFaces(faces: CropRect[]): Promise<void>;
+    closeFacePicker(): void;
+    addPersonFromPhoto(): Promise<void>;
+    /** Opens the camera panel, or tries again after it failed to open. */
+    openCamera(): Promise<void>;
+    closeCamera(): void;
+    /** Starts the countdown; the frame is captured when it reaches zero. */
+    takePhoto(): void;
+    retakePhoto(): void;
+    useCameraPhoto(): Promise<void>;
+    openCropEditor(): void;
+    applyCrop(crop: CropRect): Promise<void>;
+    cancelCrop(): void;
+    autoCrop(): Promise<void>;
+    useFullPhoto(): Promise<void>;
+    setTimelineField(key: TimelineInputKey, value: string): void;
+    setFactor(id: FactorId, value: number): void;
+    /** Changes the active scenario's appearance choices; null puts one back on Auto. */
+    setAppearance(changes: Partial<Appearance>): void;
+    selectScenario(id: string): void;
+    addScenario(): void;
+    removeScenario(): void;
+    renameScenario(name: string): void;
+    setUiLocale(locale: Locale): void;
+    /** Rewrites unedited presets in the new language; edited templates are kept as they are. */
+    setPromptLocale(locale: Locale): void;
+    selectTemplate(id: string): void;
+    saveTemplate(body: string): void;
+    resetTemplate(): void;
+    setGenerationMode(mode: GenerationMode): void;
+    setUseIdentityReference(enabled: boolean): void;
+    setGenerationSettings(changes: Partial<GenerationSettings>): void;
+    /** Changes the prices new requests are estimated with; recorded costs stay as they were. */
+    setPricing(changes: Partial<Pricing>): void;
+    /** Sets the spending cap in US dollars; null removes it. */
+    setBudget(budget: number | null): void;
+    /** Clears the request log and the all-time totals, keeping prices and the budget. */
+    resetUsage(): void;
+    generate(): Promise<void>;
+    /** Carries on with the run that was still going when the page was closed or reloaded, if there was one. */
+    resumeQueue(): Promise<void>;
+    retry(id: string): Promise<void>;
+    /** Generates a finished card again with its prompt, source image, seed and temperature. */
+    regenerate(id: string): Promise<void>;
+    /** Rebuilds a finished card's prompt with other appearance choices and generates it again with its seed. */
+    regenerateWithAppearance(id: string, appearance: Appearance): Promise<void>;
+    /** Adds `generationSettings.variationCount` alternatives for a finished card, each with a new seed. */
+    generateVariations(id: string): Promise<void>;
+    /** Makes a finished variation the card's image; the previous image becomes a variation. */
+    pickVariation(cardId: string, variationId: string): void;
+    cancel(): void;
+    toggleCompare(id: string): void;
+    closeComparison(): void;
+    setCompareSplit(split: number): void;
+    /** Opens a finished image in the full-size viewer. */
+    openLightbox(cardId: string): void;
+    closeLightbox(): void;
+    /** Shows another finished image of the same row in the open viewer. */
+    showLightboxCard(cardId: string): void;
+    /** Moves the open viewer `delta` finished images older (positive) or younger. */
+    stepLightbox(delta: number): void;
+    setLightboxSplit(split: number): void;
+    setExportMenuOpen(isOpen: boolean): void;
+    exportResults(format: ExportFormat): Promise<void>;
+    refreshHistory(): Promise<void>;
+    openSession(id: string): Promise<void>;
+    setRenamingSession(id: string | null): void;
+    renameSession(id: string, name: string): Promise<void>;
+    deleteSession(id: string): Promise<void>;
+};
+
+/** One click of "Envision My Future" (or a retry after it finished); late results from older runs are dropped. */
+type GenerationRun = {
+    id: number;
+    controller: AbortController;
+    pending: number;
+};
+
+/** What a request is for, so its usage record can be traced back to a card and run. */
+type RequestContext = {
+    run: GenerationRun;
+    card: ResultCard;
+    kind: RequestRecord['kind'];
+};
+
+export function createAppController(
+    store: AppStore,
+    {
+        provider, queue, queueConfig, images = browserImagePipeline, camera = browserCamera, jobs = browserJobStore,
+        notifier = browserNotifier,
+    }: ControllerDependencies,
+): AppActions {
+    let currentRun: GenerationRun | null = null;
+    let lastRunId = 0;
+    let lastFileToken = 0;
+    let lastRecordId = 0;
+    /** The latest file token per person, so a slower earlier file never replaces a newer one. */
+    const fileTokens = new Map<string, number>();
+    /** Cards waiting for their image, by card id, mirrored to `jobs` after every change. */
+    const queuedJobs = new Map<string, QueuedJob>();
+    let queueWrite = Promise.resolve();
+
+    const imageErrorMessage = (error: unknown) =>
+        error instanceof ImagePreprocessError ? error.message : t('error.photoUnreadable');
+
+    // --- People ---
+    const findPerson = (id: string) => store.getState().people.find(person => person.id === id);
+
+    const updatePerson = (id: string, changes: Partial<Person> | ((person: Person) => Partial<Person>)) => {
+        store.setState(state => ({
+            people: state.people.map(person => person.id === id
+                ? { ...person, ...(typeof changes === 'function' ? changes(person) : changes) }
+                : person),
+        }));
+    };
+
+    const updateActivePerson = (changes: Partial<Person> | ((person: Person) => Partial<Person>)) =>
+        updatePerson(store.getState().activePersonId, changes);
+
+    /** The lowest "Person N" that nobody is called yet. */
+    const getNextPersonName = (people: Person[]) => {
+        let number = 1;
+        while (people.some(person => person.name === t('person.defaultName', { number }))) number++;
+        return t('person.defaultName', { number });
+    };
+
+    /** Adds a person and makes them active. Returns null when `MAX_PEOPLE` has been reached. */
+    const addPerson = (changes: Partial<Person> = {}): Person | null => {
+        const state = store.getState();
+        if (state.people.length >= MAX_PEOPLE) return null;
+        const person = { ...createPerson(getNextPersonName(state.people)), ...changes };
+        store.setState({ people: [...state.people, person], activePersonId: person.id, isCropping: false });
+        return person;
+    };
+
+    const selectPerson = (id: string) => {
+        if (!findPerson(id)) return;
+        store.setState({ activePersonId: id, isCropping: false });
+    };
+
+    const removePerson = (id: string) => {
+        const state = store.getState();
+        const person = findPerson(id);
+        if (!person || state.people.length <= 1 || isRunBusy(state)) return;
+        if (person.uploadedImage) URL.revokeObjectURL(person.uploadedImage.objectURL);
+        fileTokens.delete(id);
+        const people = state.people.filter(other => other.id !== id);
+        store.setState({
+            people,
+            activePersonId: state.activePersonId === id ? people[0].id : state.activePersonId,
+            isCropping: false,
+            facePicker: state.facePicker?.personId === id ? null : state.facePicker,
+        });
+        if (state.results.some(card => card.personId === id)) resetResults();
+    };
+
+    const renamePerson = (name: string) => {
+        const trimmed = name.trim();
+        if (trimmed) updateActivePerson({ name: trimmed });
+    };
+
+    // --- Upload & Crop ---
+    /** Invalidates the current results, aborting any run still in flight for the previous photos. */
+    const resetResults = () => {
+        currentRun?.controller.abort();
+        currentRun = null;
+        clearQueue();
+        store.setState({ runState: 'idle', results: [], compareSelection: [], lightbox: null, activeSession: null });
+    };
+
+    const replaceUploadedImage = (personId: string, image: UploadedImage) => {
+        const previous = findPerson(personId)?.uploadedImage;
+        if (previous?.objectURL) URL.revokeObjectURL(previous.objectURL);
+        updatePerson(personId, { uploadedImage: image });
+    };
+
+    /** Re-renders the image sent to the model from a person's source photo and crop. */
+    const updateProcessedImage = async (personId: string) => {
+        const photo = findPerson(personId)?.sourcePhoto;
+        if (!photo) return;
+        updatePerson(personId, { isProcessingImage: true });
+        try {
+            const processed = await images.renderProcessedImage(photo, findPerson(personId)!.cropRect);
+            if (photo !== findPerson(personId)?.sourcePhoto) return;
+            replaceUploadedImage(personId, {
+                base64: processed.base64, mimeType: processed.mimeType, fileName: photo.fileName,
+                objectURL: URL.createObjectURL(processed.blob), width: processed.width, height: processed.height,
+            });
+            resetResults();
+        } catch (error) {
+            console.error('Error rendering processed image:', error);
+            store.setState({ errorMessage: imageErrorMessage(error) });
+        } finally {
+            updatePerson(personId, { isProcessingImage: false });
+        }
+    };
+
+    /** Loads a photo for one person and frames their face. Resolves to whether the photo was used. */
+    const loadPhoto = async (personId: string, file: File): Promise<boolean> => {
+        const fileToken = ++lastFileToken;
+        fileTokens.set(personId, fileToken);
+        // A newer file for the same person, or removing them, makes this one stale.
+        const isLatest = () => fileTokens.get(personId) === fileToken;
+        let photo: SourcePhoto;
+        try {
+            photo = await images.loadSourcePhoto(file);
+        } catch (error) {
+            if (!isLatest()) return false;
+            console.error('Error preprocessing image:', error);
+            store.setState({ errorMessage: imageErrorMessage(error) });
+            return false;
+        }
+        if (!isLatest()) return false;
+
+        updatePerson(personId, { sourcePhoto: photo, cropRect: null });
+        const cropRect = await images.detectFaceCrop(photo);
+        if (!isLatest()) return false;
+        updatePerson(personId, { cropRect });
+        await updateProcessedImage(personId);
+        return true;
+    };
+
+    /**
+     * One file replaces the active person's photo. Otherwise every file adds a person,
+     * starting with the active person when they have no photo yet.
+     */
+    const handleFiles = async (files: File[], asNewPeople = files.length > 1) => {
+        if (files.length === 0) return;
+        const active = getActivePerson(store.getState());
+        store.setState({ errorMessage: null, isCropping: false, facePicker: null });
+        if (!asNewPeople) {
+            await loadPhoto(active.id, files[0]);
+            return;
+        }
+
+        const reuseActive = active.sourcePhoto === null;
+        const room = MAX_PEOPLE - store.getState().people.length + (reuseActive ? 1 : 0);
+        const accepted = files.slice(0, room);
+        if (accepted.length === 0) {
+            store.setState({ errorMessage: t('error.tooManyPeople', { max: MAX_PEOPLE }) });
+            return;
+        }
+        const personIds = accepted.map((_, index) => index === 0 && reuseActive ? active.id : addPerson()!.id);
+        store.setState({ activePersonId: personIds[0] });
+        const skipped = files.length - accepted.length;
+        for (const [index, file] of accepted.entries()) {
+            const loaded = await loadPhoto(personIds[index], file);
+            // Leave nobody behind without a photo, except the person who was already there.
+            if (!loaded && personIds[index] !== active.id && !findPerson(personIds[index])?.sourcePhoto) {
+                removePerson(personIds[index]);
+            }
+        }
+        if (skipped > 0) {
+            store.setState({
+                errorMessage: t('error.tooManyPeople.skipped', { max: MAX_PEOPLE, count: skipped }),
+            });
+        }
+    };
+
+    const openCropEditor = () => {
+        if (!getActivePerson(store.getState()).sourcePhoto) return;
+        store.setState({ isCropping: true });
+    };
+
+    const applyCrop = async (crop: CropRect) => {
+        updateActivePerson({ cropRect: crop });
+        store.setState({ isCropping: false });
+        await updateProcessedImage(store.getState().activePersonId);
+    };
+
+    const cancelCrop = () => store.setState({ isCropping: false });
+
+    const autoCrop = async () => {
+        const { id, sourcePhoto } = getActivePerson(store.getState());
+        if (!sourcePhoto) return;
+        const detected = await images.detectFaceCrop(sourcePhoto);
+        if (!detected) {
+            store.setState({ errorMessage: t('error.noFace') });
+            return;
+        }
+        updatePerson(id, { cropRect: detected });
+        await updateProcessedImage(id);
+    };
+
+    const useFullPhoto = async () => {
+        const { id } = getActivePerson(store.getState());
+        updatePerson(id, { cropRect: null });
+        await updateProcessedImage(id);
+    };
+
+    // --- Group Photos ---
+    /** Looks for every face in the active person's photo so the user can pick who to add. */
+    const findFaces = async () => {
+        const { id, sourcePhoto } = getActivePerson(store.getState());
+        if (!sourcePhoto) return;
+        const faces = await images.detectFaceCrops(sourcePhoto);
+        if (faces.length === 0) {
+            store.setState({ errorMessage: t('error.noFaces') });
+            return;
+        }
+        store.setState({ facePicker: { personId: id, faces }, isCropping: false, errorMessage: null });
+    };
+
+    const closeFacePicker = () => store.setState({ facePicker: null });
+
+    /** The photo's own person takes the first picked face; every other face becomes a new person. */
+    const addPeopleFromFaces = async (faces: CropRect[]) => {
+        const { facePicker } = store.getState();
+        const owner = facePicker ? findPerson(facePicker.personId) : undefined;
+        store.setState({ facePicker: null });
+        if (!owner?.sourcePhoto || faces.length === 0) return;
+
+        const [first, ...others] = faces;
+        const room = MAX_PEOPLE - store.getState().people.length;
+        const added = others.slice(0, room).map(cropRect => addPerson({ sourcePhoto: owner.sourcePhoto, cropRect })!);
+        updatePerson(owner.id, { cropRect: first });
+        store.setState({ activePersonId: owner.id });
+        for (const person of [owner, ...added]) await updateProcessedImage(person.id);
+        if (others.length > room) {
+            store.setState({ errorMessage: t('error.tooManyPeople.faces', { max: MAX_PEOPLE }) });
+        }
+    };
+
+    /** Adds another person from the active person's photo and opens the crop editor to frame them. */
+    const addPersonFromPhoto = async () => {
+        const { sourcePhoto } = getActivePerson(store.getState());
+        if (!sourcePhoto) return;
+        const person = addPerson({ sourcePhoto });
+        if (!person) {
+            store.setState({ errorMessage: t('error.tooManyPeople', { max: MAX_PEOPLE }) });
+            return;
+        }
+        await updateProcessedImage(person.id);
+        if (store.getState().activePersonId === person.id) store.setState({ isCropping: true });
+    };
+
+    // --- Camera ---
+    /** Bumped whenever the camera panel closes or reopens, so late streams and frames are dropped. */
+    let cameraToken = 0;
+    let countdownTimer: ReturnType<typeof setTimeout> | null = null;
+
+    const updateCamera = (changes: Partial<CameraState>) => {
+        const { camera: current } = store.getState();
+        if (current) store.setState({ camera: { ...current, ...changes } });
+    };
+
+    const clearCountdown = () => {
+        if (countdownTimer !== null) clearTimeout(countdownTimer);
+        countdownTimer = null;
+    };
+
+    /** Stops the stream and forgets any captured frame, leaving the panel's state to the caller. */
+    const releaseCamera = () => {
+        cameraToken++;
+        clearCountdown();
+        const { camera: current } = store.getState();
+        if (current?.stream) stopCamera(current.stream);
+        if (current?.capture) URL.revokeObjectURL(current.capture.objectURL);
+    };
+
+    const getCameraErrorReason = (error: unknown) => error instanceof CameraError ? error.reason : 'failed';
+
+    const openCamera = async () => {
+        const { camera: current } = store.getState();
+        if (current && current.status !== 'error') return;
+        releaseCamera();
+        const token = cameraToken;
+        store.setState({
+            camera: { status: 'starting', stream: null, countdown: 0, capture: null, error: null },
+            errorMessage: null, isCropping: false, facePicker: null,
+        });
+        try {
+            const stream = await camera.open();
+            if (token !== cameraToken) {
+                stopCamera(stream);
+                return;
+            }
+            updateCamera({ status: 'live', stream });
+        } catch (error) {
+            if (token !== cameraToken) return;
+            console.error('Error opening the camera:', error);
+            updateCamera({ status: 'error', error: getCameraErrorReason(error) });
+        }
+    };
+
+    const closeCamera = () => {
+        releaseCamera();
+        store.setState({ camera: null });
+    };
+
+    const captureFrame = async (stream: MediaStream, token: number) => {
+        try {
+            const file = await camera.capture(stream);
+            if (token !== cameraToken) return;
+            updateCamera({ status: 'captured', countdown: 0, capture: { file, objectURL: URL.createObjectURL(file) } });
+        } catch (error) {
+            if (token !== cameraToken) return;
+            console.error('Error capturing a camera frame:', error);
+            updateCamera({ status: 'error', countdown: 0, error: getCameraErrorReason(error) });
+        }
+    };
+
+    /** Counts down a second at a time, then takes the frame shown at that moment. */
+    const takePhoto = () => {
+        const { camera: current } = store.getState();
+        if (current?.status !== 'live' || !current.stream) return;
+        const { stream } = current;
+        const token = cameraToken;
+        const tick = (remaining: number) => {
+            countdownTimer = null;
+            if (remaining === 0) {
+                captureFrame(stream, token);
+                return;
+            }
+            updateCamera({ status: 'countdown', countdown: remaining });
+            countdownTimer = setTimeout(() => tick(remaining - 1), 1000);
+        };
+        tick(CAMERA_COUNTDOWN_SECONDS);
+    };
+
+    /** Back to the live preview, from a captured frame or a countdown still running. */
+    const retakePhoto = () => {
+        const { camera: current } = store.getState();
+        if (current?.status !== 'captured' && current?.status !== 'countdown') return;
+        clearCountdown();
+        if (current.capture) URL.revokeObjectURL(current.capture.objectURL);
+        updateCamera({ status: 'live', countdown: 0, capture: null });
+    };
+
+    /** Closes the camera and loads the captured frame like a chosen file. */
+    const useCameraPhoto = async () => {
+        const file = store.getState().camera?.capture?.file;
+        if (!file) return;
+        closeCamera();
+        await handleFiles([file]);
+    };
+
+    // --- Timeline & Factors ---
+    const setTimelineField = (key: TimelineInputKey, value: string) => {
+        const settings = { ...getActivePerson(store.getState()).timelineSettings };
+        switch (key) {
+            case 'customAges':
+                settings.customAges = parseAgeList(value);
+                break;
+            case 'birthYear':
+                settings.currentAge = new Date().getFullYear() - parseInt(value, 10);
+                break;
+            default:
+                settings[key] = parseInt(value, 10);
+        }
+        updateActivePerson({ timelineSettings: settings });
+    };
+
+    const updateActiveScenario = (changes: Partial<Scenario>) => {
+        updateActivePerson(person => ({
+            scenarios: person.scenarios.map(scenario =>
+                scenario.id === person.activeScenarioId ? { ...scenario, ...changes } : scenario),
+        }));
+    };
+
+    const setFactor = (id: FactorId, value: number) => {
+        const { factors } = getActiveScenario(store.getState());
+        updateActiveScenario({ factors: { ...factors, [id]: value } });
+    };
+
+    const setAppearance = (changes: Partial<Appearance>) => {
+        const { appearance } = getActiveScenario(store.getState());
+        updateActiveScenario({ appearance: normalizeAppearance({ ...appearance, ...changes }) });
+    };
+
+    // --- Scenarios ---
+    const selectScenario = (id: string) => {
+        if (!getActivePerson(store.getState()).scenarios.some(scenario => scenario.id === id)) return;
+        updateActivePerson({ activeScenarioId: id });
+    };
+
+    const addScenario = () => {
+        const state = store.getState();
+        const { scenarios } = getActivePerson(state);
+        if (scenarios.length >= MAX_SCENARIOS) return;
+        const scenario: Scenario = {
+            id: createSessionId(),
+            name: t('scenario.numberedName', { number: scenarios.length + 1 }),
+            factors: { ...getActiveScenario(state).factors },
+            appearance: { ...getActiveScenario(state).appearance },
+        };
+        updateActivePerson({ scenarios: [...scenarios, scenario], activeScenarioId: scenario.id });
+    };
+
+    const removeScenario = () => {
+        const person = getActivePerson(store.getState());
+        if (person.scenarios.length <= 1) return;
+        const scenarios = person.scenarios.filter(scenario => scenario.id !== person.activeScenarioId);
+        updateActivePerson({ scenarios, activeScenarioId: scenarios[0].id });
+    };
+
+    const renameScenario = (name: string) => {
+        const trimmed = name.trim();
+        if (trimmed) updateActiveScenario({ name: trimmed });
+    };
+
+    // --- Prompt Templates ---
+    const persistPromptSettings = () => {
+        const { promptTemplates, activeTemplateId } = store.getState();
+        savePromptSettings({ promptTemplates, activeTemplateId });
+    };
+
+    const selectTemplate = (id: string) => {
+        if (!store.getState().promptTemplates.some(template => template.id === id)) return;
+        store.setState({ activeTemplateId: id });
+        persistPromptSettings();
+    };
+
+    /** Replaces the active template's text; every saved change gets a new version number. */
+    const saveTemplate = (body: string) => {
+        const active = getActiveTemplate(store.getState());
+        if (body === active.body) return;
+        store.setState(state => ({
+            promptTemplates: state.promptTemplates.map(template =>
+                template.id === active.id ? { ...template, body, version: template.version + 1 } : template),
+        }));
+        persistPromptSettings();
+    };
+
+    const resetTemplate = () => {
+        const preset = getPresetTemplate(getActiveTemplate(store.getState()).id, store.getState().promptLocale);
+        if (preset) saveTemplate(preset.body);
+    };
+
+    // --- Languages ---
+    const persistLocaleSettings = () => {
+        const { uiLocale, promptLocale } = store.getState();
+        saveLocaleSettings({ uiLocale, promptLocale });
+    };
+
+    const setUiLocale = (locale: Locale) => {
+        store.setState({ uiLocale: locale });
+        persistLocaleSettings();
+    };
+
+    const setPromptLocale = (locale: Locale) => {
+        const { promptLocale, promptTemplates } = store.getState();
+        if (locale === promptLocale) return;
+        // A swapped preset keeps its version: only the language changed, not the instructions.
+        store.setState({
+            promptLocale: locale,
+            promptTemplates: promptTemplates.map(template => isTemplateModified(template, promptLocale)
+                ? template
+                : { ...template, body: getPresetTemplate(template.id, locale)?.body ?? template.body }),
+        });
+        persistLocaleSettings();
+        persistPromptSettings();
+    };
+
+    // --- Usage ---
+    /** Logs a finished request and adds it to the all-time totals, which are saved right away. */
+    const recordRequest = (entry: Omit<RequestRecord, 'id' | 'cost'>) => {
+        store.setState(({ usageRecords, usageSettings }) => {
+            const record: RequestRecord = { ...entry, id: ++lastRecordId, cost: estimateCost(entry, usageSettings.pricing) };
+            return {
+                usageRecords: [...usageRecords, record].slice(-MAX_REQUEST_RECORDS),
+                usageSettings: { ...usageSettings, allTime: addToTotals(usageSettings.allTime, record) },
+            };
+        });
+        saveUsageSettings(store.getState().usageSettings);
+    };
+
+    /** Refuses new work once the budget is spent; requests already under way still finish. */
+    const checkBudget = (): boolean => {
+        const { usageSettings } = store.getState();
+        if (!isOverBudget(usageSettings)) return true;
+        store.setState({ errorMessage: t('error.budgetReached', { budget: formatCost(usageSettings.budget!) }) });
+        return false;
+    };
+
+    const updateUsageSettings = (changes: Partial<UsageSettings>) => {
+        const usageSettings = { ...store.getState().usageSettings, ...changes };
+        store.setState({ usageSettings });
+        saveUsageSettings(usageSettings);
+    };
+
+    const setPricing = (changes: Partial<Pricing>) => {
+        const pricing = { ...store.getState().usageSettings.pricing };
+        for (const [key, value] of Object.entries(changes) as [keyof Pricing, number][]) {
+            if (Number.isFinite(value) && value >= 0) pricing[key] = value;
+        }
+        updateUsageSettings({ pricing });
+    };
+
+    const setBudget = (budget: number | null) => {
+        if (budget !== null && !(Number.isFinite(budget) && budget >= 0)) return;
+        updateUsageSettings({ budget });
+    };
+
+    const resetUsage = () => {
+        const { allTime, since } = createUsageSettings();
+        store.setState({ usageRecords: [] });
+        updateUsageSettings({ allTime, since });
+    };
+
+    // --- Generation Queue ---
+    /** Saves the queue with the session as it is now; writes run one at a time, so an older state never lands last. */
+    const saveQueue = () => {
+        const session = queuedJobs.size > 0 ? buildStoredSession() : null;
+        const saved: StoredQueue | null = session && { session, jobs: [...queuedJobs.values()] };
+        queueWrite = queueWrite
+            .then(() => saved ? jobs.save(saved) : jobs.clear())
+            .catch(error => console.warn('Could not save the generation queue:', error));
+    };
+
+    const enqueueJobs = (cards: ResultCard[]) => {
+        cards.forEach(card => queuedJobs.set(card.id, { cardId: card.id, enqueuedAt: Date.now() }));
+        saveQueue();
+    };
+
+    /** Takes finished cards off the queue, saving their images with it. */
+    const completeJobs = (cards: ResultCard[]) => {
+        const removed = cards.filter(card => queuedJobs.delete(card.id));
+        if (removed.length > 0) saveQueue();
+    };
+
+    const clearQueue = () => {
+        queuedJobs.clear();
+        saveQueue();
+    };
+
+    // --- Generation ---
+    const setGenerationMode = (mode: GenerationMode) => store.setState({ generationMode: mode });
+
+    const setUseIdentityReference = (enabled: boolean) => store.setState({ useIdentityReference: enabled });
+
+    const setGenerationSettings = (changes: Partial<GenerationSettings>) => {
+        const { generationSettings } = store.getState();
+        const next = { ...generationSettings, ...changes };
+        next.variationCount = Math.min(MAX_VARIATIONS, Math.max(1, Math.round(next.variationCount)));
+        store.setState({ generationSettings: next });
+    };
+
+    const generateSingleImage = async (request: AgingRequest): Promise<AgingResult> => {
+        try {
+            return await provider.generate(request);
+        } catch (error) {
+            if (isAbortError(error)) throw error;
+            console.error(`Error generating image with ${provider.id}/${provider.model} for prompt "${request.prompt}":`, error);
+            throw error;
+        }
+    };
+
+    const updateResult = (id: string, changes: Partial<ResultCard>) => {
+        store.setState(state => ({
+            results: state.results.map(card => card.id === id ? { ...card, ...changes } : card),
+        }));
+    };
+
+    const findResult = (id: string | undefined) => store.getState().results.find(r => r.id === id);
+
+    const isCurrentRun = (run: GenerationRun) => run.id === currentRun?.id;
+
+    const startRun = (): GenerationRun => {
+        currentRun = { id: ++lastRunId, controller: new AbortController(), pending: 0 };
+        store.setState({ runState: 'running' });
+        return currentRun;
+    };
+
+    const finishRun = (run: GenerationRun) => {
+        if (!isCurrentRun(run)) return;
+        const wasCancelled = store.getState().runState === 'cancelling';
+        store.setState(state => ({ runState: 'done', errorMessage: summarizeFailures(state.results) ?? state.errorMessage }));
+        persistActiveSession();
+        if (!wasCancelled) notifyRunFinished();
+    };
+
+    /** Lets the user know every image is done, in case they have moved on to another tab or app. */
+    const notifyRunFinished = () => {
+        const { total, done, failed } = getRunProgress(store.getState());
+        if (total === 0) return;
+        const progress = failed > 0 ? t('progress.readyWithFailures', { done, total, failed }) : t('progress.ready', { done, total });
+        notifier.notify(t('notification.runFinished'), t('notification.runFinishedBody', { progress }));
+    };
+
+    /** Counts `task` as pending work of `run`, which finishes once nothing is pending. */
+    const trackInRun = async (run: GenerationRun, task: () => Promise<void>) => {
+        run.pending++;
+        try {
+            await task();
+        } finally {
+            run.pending--;
+            if (run.pending === 0) finishRun(run);
+        }
+    };
+
+    /** The image a card is generated from: the upload, or the finished image of its source card. */
+    const resolveSourceImage = (card: ResultCard, upload: UploadedImage): SourceImage | null => {
+        if (!card.sourceCardId) return upload;
+        const source = findResult(card.sourceCardId);
+        if (source?.status !== 'success' || !source.imageUrl) return null;
+        return { base64: source.imageUrl.slice(source.imageUrl.indexOf(',') + 1), mimeType: getDataUrlMimeType(source.imageUrl) };
+    };
+
+    /** The request for `card` with `seed`; null while the image it is generated from is missing. */
+    const buildRequest = (
+        card: ResultCard, upload: UploadedImage, seed: number, signal: AbortSignal,
+    ): (AgingRequest & { seed: number }) | null => {
+        const image = resolveSourceImage(card, upload);
+        if (!image) return null;
+        return {
+            prompt: card.prompt, image, referenceImage: card.usesIdentityReference ? upload : undefined,
+            age: card.age, year: card.year, seed, temperature: card.temperature, signal,
+        };
+    };
+
+    /**
+     * Sends a request through the shared queue, retrying transient failures with backoff.
+     * Every request that reached the provider is recorded with its timing, attempts and outcome.
+     */
+    const sendRequest = (request: AgingRequest, { run, card, kind }: RequestContext, onRetry?: (attempt: number) => void) =>
+        queue.run(async () => {
+            const startedAt = Date.now();
+            const started = performance.now();
+            let attempts = 0;
+            const record = (outcome: RequestRecord['outcome'], result?: AgingResult, error?: unknown) => {
+                if (attempts === 0) return;
+                recordRequest({
+                    runId: run.id, cardId: card.id, age: card.age, kind, provider: provider.id, model: provider.model,
+                    startedAt, durationMs: Math.round(performance.now() - started), attempts, outcome,
+                    errorReason: error === undefined ? undefined : getErrorReason(error),
+                    responseBytes: result ? getBase64Size(result.base64) : 0,
+                    usage: result?.usage,
+                });
+            };
+            try {
+                const result = await withRetry(() => {
+                    attempts++;
+                    return generateSingleImage(request);
+                }, { ...queueConfig, signal: request.signal, onRetry });
+                record('success', result);
+                return result;
+            } catch (error) {
+                if (isAbortError(error)) record('cancelled');
+                else record('error', undefined, error);
+                throw error;
+            }
+        }, request.signal);
+
+    const toDataUrl = (result: AgingResult) => `data:${result.mimeType};base64,${result.base64}`;
+
+    /**
+     * The request's fingerprint, or undefined when it cannot be hashed: `crypto.subtle` only
+     * exists on secure origins, and the image is worth keeping without one.
+     */
+    const fingerprintRequest = async (request: AgingRequest & { seed: number }) => {
+        try {
+            return await createFingerprint(provider, request);
+        } catch (error) {
+            console.warn('Could not fingerprint the request:', error);
+            return undefined;
+        }
+    };
+
+    /** Generates one card with its own seed, or a new one for cards saved before seeds were recorded. */
+    const generateCard = async (card: ResultCard, upload: UploadedImage, run: GenerationRun) => {
+        const request = buildRequest(card, upload, card.seed ?? createSeed(), run.controller.signal);
+        if (!request) {
+            updateResult(card.id, { status: 'cancelled' });
+            return;
+        }
+        let changes: Partial<ResultCard>;
+        try {
+            const result = await sendRequest(request, { run, card, kind: 'image' },
+                attempt => { if (isCurrentRun(run)) updateResult(card.id, { attempt }); });
+            changes = { status: 'success', imageUrl: toDataUrl(result) };
+        } catch (error) {
+            if (!isCurrentRun(run)) return;
+            if (isAbortError(error)) {
+                updateResult(card.id, { status: 'cancelled' });
+                return;
+            }
+            console.error(`Error generating image for age ${card.age}:`, error);
+            changes = {
+                status: 'error',
+                errorReason: getErrorReason(error),
+                modelText: error instanceof AgingProviderError ? error.modelText : undefined,
+            };
+        }
+        const fingerprint = await fingerprintRequest(request);
+        if (isCurrentRun(run)) updateResult(card.id, { ...changes, seed: request.seed, fingerprint });
+    };
+
+    /** Replaces a card's variation, or removes it when `changes` is null. */
+    const updateVariation = (cardId: string, variationId: string, changes: Partial<CardVariation> | null) => {
+        store.setState(state => ({
+            results: state.results.map(card => card.id === cardId
+                ? {
+                    ...card,
+                    variations: card.variations?.flatMap(variation => variation.id !== variationId ? [variation]
+                        : changes ? [{ ...variation, ...changes }] : []),
+                }
+                : card),
+        }));
+    };
+
+    /** Generates one alternative for `card` with a new seed; cancelled variations are dropped. */
+    const generateVariation = async (card: ResultCard, variationId: string, upload: UploadedImage, run: GenerationRun) => {
+        const request = buildRequest(card, upload, createSeed(), run.controller.signal);
+        if (!request) {
+            updateVariation(card.id, variationId, null);
+            return;
+        }
+        let changes: Partial<CardVariation>;
+        try {
+            changes = { status: 'success', imageUrl: toDataUrl(await sendRequest(request, { run, card, kind: 'variation' })) };
+        } catch (error) {
+            if (!isCurrentRun(run)) return;
+            if (isAbortError(error)) {
+                updateVariation(card.id, variationId, null);
+                return;
+            }
+            console.error(`Error generating a variation for age ${card.age}:`, error);
+            changes = { status: 'error', errorReason: getErrorReason(error) };
+        }
+        const fingerprint = await fingerprintRequest(request);
+        if (isCurrentRun(run)) updateVariation(card.id, variationId, { ...changes, seed: request.seed, fingerprint });
+    };
+
+    /** The card and every card generated from it, in chain order. In parallel mode that is just the card. */
+    const getChainFrom = (card: ResultCard): ResultCard[] => {
+        const { results } = store.getState();
+        const chain = [card];
+        for (let next = results.find(r => r.sourceCardId === card.id); next; next = results.find(r => r.sourceCardId === next!.id)) {
+            chain.push(next);
+        }
+        return chain;
+    };
+
+    /**
+     * Generates a chain one card at a time, taking each card off the queue once it is done;
+     * once a card fails, the cards after it are left cancelled.
+     */
+    const generateChain = async (chain: ResultCard[], upload: UploadedImage, run: GenerationRun) => {
+        for (const [index, card] of chain.entries()) {
+            await generateCard(card, upload, run);
+            if (!isCurrentRun(run)) return;
+            if (findResult(card.id)?.status !== 'success') {
+                chain.slice(index + 1).forEach(rest => updateResult(rest.id, { status: 'cancelled' }));
+                completeJobs(chain.slice(index));
+                return;
+            }
+            completeJobs([card]);
+        }
+    };
+
+    /** Generates every queued card: the cards of a chain in order, and the chains side by side. */
+    const runQueue = async (run: GenerationRun) => {
+        try {
+            const roots = store.getState().results
+                .filter(card => queuedJobs.has(card.id) && !queuedJobs.has(card.sourceCardId ?? ''));
+            await Promise.all(roots.map(getChainFrom).map(chain =>
+                trackInRun(run, () => generateChain(chain, findPerson(chain[0].personId)!.uploadedImage!, run))));
+        } catch (error) {
+            console.error("General error during image generation:", error);
+            if (isCurrentRun(run)) store.setState({ errorMessage: t('error.unexpected') });
+        }
+    };
+
+    const generate = async () => {
+        const state = store.getState();
+        if (isRunBusy(state) || isAnyImageProcessing(state) || !checkBudget()) return;
+        const { generationMode, useIdentityReference, generationSettings } = state;
+        const people = getUploadedPeople(state);
+        if (people.length === 0) {
+            store.setState({ errorMessage: t('error.noPhoto') });
+            return;
+        }
+
+        for (const person of people) {
+            const timelineError = validateTimeline(person.timelineSettings);
+            if (timelineError) {
+                store.setState({
+                    errorMessage: people.length > 1 ? t('error.forPerson', { name: person.name, message: timelineError }) : timelineError,
+                    activePersonId: person.id,
+                });
+                return;
+            }
+        }
+
+        const template = getActiveTemplate(state);
+        const snapshots: PersonSnapshot[] = people.map(person => ({
+            id: person.id,
+            name: person.name,
+            scenarios: person.scenarios.map(scenario => ({
+                ...scenario, factors: { ...scenario.factors }, appearance: { ...scenario.appearance },
+            })),
+            timeline: { ...person.timelineSettings, customAges: [...person.timelineSettings.customAges] },
+        }));
+        const results = snapshots.flatMap(person => {
+            const { currentAge } = person.timeline;
+            const steps = buildGenerationSteps(buildTimeline(person.timeline), currentAge, generationMode);
+            return person.scenarios.flatMap(scenario => steps.map(({ point, source }): ResultCard => {
+                const usesIdentityReference = source !== null && useIdentityReference;
+                return {
+                    ...point, id: `${scenario.id}:${point.age}`, personId: person.id, scenarioId: scenario.id, status: 'loading',
+                    prompt: createPrompt(point, currentAge, scenario.factors, template,
+                        source ? { age: source.age, hasIdentityReference: usesIdentityReference } : undefined, state.promptLocale,
+                        scenario.appearance),
+                    factors: scenario.factors,
+                    appearance: scenario.appearance,
+                    templateId: template.id, templateVersion: template.version,
+                    sourceCardId: source ? `${scenario.id}:${source.age}` : undefined,
+                    usesIdentityReference,
+                    seed: generationSettings.seed ?? createSeed(),
+                    temperature: generationSettings.temperature ?? undefined,
+                };
+            }));
+        });
+        store.setState({
+            errorMessage: null,
+            results,
+            compareSelection: [],
+            lightbox: null,
+            activeSession: {
+                id: createSessionId(),
+                name: t('session.defaultName', {
+                    subject: people.length > 1 ? t('session.people', { count: people.length }) : people[0].uploadedImage!.fileName,
+                    date: formatDate(Date.now()),
+                }),
+                createdAt: Date.now(),
+                people: snapshots,
+            },
+        });
+        const run = startRun();
+        notifier.requestPermission();
+        enqueueJobs(results);
+        await runQueue(run);
+    };
+
+    const resumeQueue = async () => {
+        if (isRunBusy(store.getState())) return;
+        let saved: StoredQueue | null;
+        try {
+            saved = await jobs.load();
+        } catch (error) {
+            console.warn('Could not read the generation queue:', error);
+            if (error instanceof SessionStoreBlockedError) store.setState({ errorMessage: error.message });
+            return;
+        }
+        if (!saved) return;
+        const queuedIds = new Set(saved.jobs.map(job => job.cardId));
+        // Requests in flight when the page went away are lost; their cards start over, the rest stay as they were.
+        const results = saved.session.results.map(card => {
+            const variations = card.variations?.filter(variation => variation.status === 'success');
+            const resumed = variations ? { ...card, variations } : card;
+            return card.status === 'loading' || queuedIds.has(card.id) ? { ...resumed, status: 'cancelled' as const, attempt: undefined } : resumed;
+        });
+        if (!await restoreSession({ ...saved.session, results }) || !checkBudget()) {
+            clearQueue();
+            persistActiveSession();
+            return;
+        }
+        const queued = results.filter(card => queuedIds.has(card.id));
+        queued.forEach(card => updateResult(card.id, { status: 'loading' }));
+        const run = startRun();
+        enqueueJobs(queued);
+        await runQueue(run);
+    };
+
+    /** Retries a failed card. In progressive mode this resumes its chain from the first card without an image. */
+    const retry = async (id: string) => {
+        const { runState } = store.getState();
+        let card = findResult(id);
+        if (!card || (card.status !== 'error' && card.status !== 'cancelled')) return;
+        const upload = findPerson(card.personId)?.uploadedImage;
+        if (!upload || runState === 'cancelling' || !checkBudget()) return;
+        for (let source = findResult(card.sourceCardId); source && source.status !== 'success'; source = findResult(source.sourceCardId)) {
+            if (source.status === 'loading') return;
+            card = source;
+        }
+        const chain = getChainFrom(card);
+        const run = runState === 'running' && currentRun ? currentRun : startRun();
+        store.setState({ errorMessage: null });
+        chain.forEach(link => updateResult(link.id, { status: 'loading', attempt: undefined, errorReason: undefined, modelText: undefined }));
+        enqueueJobs(chain);
+        await trackInRun(run, () => generateChain(chain, upload, run));
+    };
+
+    /**
+     * Generates a finished card again as `next`. When that fails or is cancelled, the card
+     * goes back to `previous` with its image, and a failure is explained in the banner instead.
+     */
+    const regenerateCard = async (previous: ResultCard, next: ResultCard, upload: UploadedImage, run: GenerationRun) => {
+        store.setState({ errorMessage: null });
+        updateResult(previous.id, { ...next, status: 'loading', attempt: undefined });
+        enqueueJobs([next]);
+        await trackInRun(run, async () => {
+            await generateChain([next], upload, run);
+            const result = findResult(previous.id);
+            if (!isCurrentRun(run) || !result || result.status === 'success') return;
+            // Variations may have been added meanwhile; they stay.
+            store.setState(state => ({
+                results: state.results.map(card => card.id === previous.id ? { ...previous, variations: result.variations } : card),
+            }));
+            if (result.status === 'error') {
+                store.setState({
+                    errorMessage: t('error.regenerateFailed', { age: result.age, reason: getErrorExplanation(result.errorReason).message }),
+                });
+            }
+        });
+    };
+
+    const regenerate = async (id: string) => {
+        const { runState } = store.getState();
+        const card = findResult(id);
+        const upload = card && findPerson(card.personId)?.uploadedImage;
+        if (card?.status !== 'success' || !upload || runState === 'cancelling' || !checkBudget()) return;
+        const run = runState === 'running' && currentRun ? currentRun : startRun();
+        await regenerateCard(card, card, upload, run);
+    };
+
+    const regenerateWithAppearance = async (id: string, appearance: Appearance) => {
+        const state = store.getState();
+        const card = findResult(id);
+        const upload = card && findPerson(card.personId)?.uploadedImage;
+        if (card?.status !== 'success' || !upload || state.runState === 'cancelling' || !checkBudget()) return;
+        // The card's template as it is now, or the active one if it has been removed since.
+        const template = state.promptTemplates.find(template => template.id === card.templateId) ?? getActiveTemplate(state);
+        const currentAge = state.activeSession?.people.find(person => person.id === card.personId)?.timeline.currentAge
+            ?? findPerson(card.personId)!.timelineSettings.currentAge;
+        const source = findResult(card.sourceCardId);
+        const next: ResultCard = {
+            ...card,
+            appearance: normalizeAppearance(appearance),
+            prompt: createPrompt(card, currentAge, card.factors, template,
+                source ? { age: source.age, hasIdentityReference: !!card.usesIdentityReference } : undefined, state.promptLocale,
+                appearance),
+            templateId: template.id,
+            templateVersion: template.version,
+        };
+        const run = state.runState === 'running' && currentRun ? currentRun : startRun();
+        await regenerateCard(card, next, upload, run);
+    };
+
+    const generateVariations = async (id: string) => {
+        const { runState, generationSettings } = store.getState();
+        const card = findResult(id);
+        const upload = card && findPerson(card.personId)?.uploadedImage;
+        if (card?.status !== 'success' || !upload || runState === 'cancelling' || !checkBudget()) return;
+        const variations: CardVariation[] = Array.from({ length: generationSettings.variationCount },
+            () => ({ id: `${card.id}:${createSessionId()}`, status: 'loading' }));
+        const run = runState === 'running' && currentRun ? currentRun : startRun();
+        store.setState({ errorMessage: null });
+        updateResult(id, { variations: [...(card.variations ?? []), ...variations] });
+        await trackInRun(run, async () => {
+            await Promise.all(variations.map(variation => generateVariation(card, variation.id, upload, run)));
+        });
+    };
+
+    const pickVariation = (cardId: string, variationId: string) => {
+        const card = findResult(cardId);
+        const chosen = card?.variations?.find(variation => variation.id === variationId);
+        if (card?.status !== 'success' || chosen?.status !== 'success') return;
+        // The current image takes the chosen variation's place, so nothing is lost by picking.
+        const previous: CardVariation = {
+            id: `${card.id}:${createSessionId()}`, status: 'success', imageUrl: card.imageUrl, seed: card.seed, fingerprint: card.fingerprint,
+        };
+        updateResult(cardId, {
+            imageUrl: chosen.imageUrl,
+            fingerprint: chosen.fingerprint,
+            // Variations saved before they kept their seed only have it in the fingerprint.
+            seed: chosen.seed ?? chosen.fingerprint?.seed ?? card.seed,
+            variations: card.variations!.map(variation => variation.id === variationId ? previous : variation),
+        });
+        persistActiveSession();
+    };
+
+    const cancel = () => {
+        if (store.getState().runState !== 'running' || !currentRun) return;
+        store.setState({ runState: 'cancelling' });
+        currentRun.controller.abort();
+    };
+
+    // --- Comparison ---
+    const toggleCompare = (id: string) => {
+        store.setState(({ compareSelection }) => ({
+            compareSelection: compareSelection.includes(id)
+                ? compareSelection.filter(selected => selected !== id)
+                // Keep the most recent two selections.
+                : [...compareSelection, id].slice(-2),
+        }));
+    };
+
+    const closeComparison = () => store.setState({ compareSelection: [] });
+
+    const setCompareSplit = (split: number) => store.setState({ compareSplit: split });
+
+    // --- Lightbox ---
+    const openLightbox = (cardId: string) => {
+        if (findResult(cardId)?.status === 'success') store.setState({ lightbox: { cardId, split: 50 } });
+    };
+
+    const closeLightbox = () => store.setState({ lightbox: null });
+
+    const showLightboxCard = (cardId: string) => {
+        const { lightbox } = store.getState();
+        if (lightbox && findResult(cardId)?.status === 'success') store.setState({ lightbox: { ...lightbox, cardId } });
+    };
+
+    const stepLightbox = (delta: number) => {
+        const state = store.getState();
+        const cards = getLightboxCards(state);
+        const index = cards.findIndex(card => card.id === state.lightbox?.cardId);
+        const next = cards[Math.min(cards.length - 1, Math.max(0, index + delta))];
+        if (index !== -1 && next.id !== state.lightbox!.cardId) showLightboxCard(next.id);
+    };
+
+    const setLightboxSplit = (split: number) => {
+        const { lightbox } = store.getState();
+        if (lightbox) store.setState({ lightbox: { ...lightbox, split: Math.round(Math.min(100, Math.max(0, split))) } });
+    };
+
+    // --- Export ---
+    const getExportSource = (): ExportSource => {
+        const state = store.getState();
+        const people = getExportPeople(state);
+        return {
+            baseName: people.length === 1 ? people[0].baseName : 'timemirror_group',
+            cards: state.results,
+            people,
+            provider: { id: provider.id, model: provider.model },
+        };
+    };
+
+    const setExportMenuOpen = (isOpen: boolean) => store.setState({ isExportMenuOpen: isOpen });
+
+    const exportResults = async (format: ExportFormat) => {
+        if (store.getState().exportInProgress) return;
+        store.setState({ isExportMenuOpen: false, exportInProgress: t(`export.${format}.label`) });
+        const source = getExportSource();
+        try {
+            switch (format) {
+                case 'contact-sheet':
+                    downloadBlob(await buildContactSheet(source), `${source.baseName}_timeline.png`);
+                    break;
+                case 'video':
+                    downloadBlob(await recordTimelineVideo(source), `${source.baseName}_timeline.webm`);
+                    break;
+                case 'zip':
+                    downloadBlob(buildImageBundle(source), `${source.baseName}_timemirror.zip`);
+                    break;
+                case 'manifest':
+                    downloadBlob(buildManifestBlob(source), `${source.baseName}_manifest.json`);
+                    break;
+                case 'report':
+                    downloadBlob(buildReportBlob(source), `${source.baseName}_report.html`);
+                    break;
+                case 'report-pdf':
+                    await printReport(buildReport(source));
+                    break;
+            }
+        } catch (error) {
+            console.error(`Error exporting ${format}:`, error);
+            store.setState({ errorMessage: error instanceof Error ? t('error.exportFailed', { message: error.message }) : t('error.exportFailedUnknown') });
+        } finally {
+            store.setState({ exportInProgress: null });
+        }
+    };
+
+    // --- Session History ---
+    const refreshHistory = async () => {
+        if (!isSessionStorageAvailable()) return;
+        try {
+            store.setState({ sessionSummaries: await listSessions() });
+        } catch (error) {
+            console.error('Error loading session history:', error);
+            store.setState({ sessionSummaries: [] });
+            if (error instanceof SessionStoreBlockedError) store.setState({ errorMessage: error.message });
+        }
+    };
+
+    /** The active session with the photos of its people, or null when there is nothing to save. */
+    const buildStoredSession = (): StoredSession | null => {
+        const { activeSession, results } = store.getState();
+        if (!activeSession) return null;
+        const people = activeSession.people.flatMap(person => {
+            const image = findPerson(person.id)?.uploadedImage;
+            return image ? [{ ...person, image: toStoredImage(image) }] : [];
+        });
+        if (people.length === 0) return null;
+        return {
+            id: activeSession.id,
+            name: activeSession.name,
+            createdAt: activeSession.createdAt,
+            updatedAt: Date.now(),
+            people,
+            results,
+        };
+    };
+
+    /** Saves the finished results under the active session, entirely in this browser's IndexedDB. */
+    const persistActiveSession = async () => {
+        const session = isSessionStorageAvailable() ? buildStoredSession() : null;
+        if (!session) return;
+        try {
+            await saveSession(session);
+        } catch (error) {
+            console.error('Error saving session:', error);
+            return;
+        }
+        await refreshHistory();
+    };
+
+    /** Puts a saved session's people and results back, replacing the current ones. Resolves false when its photos cannot be read. */
+    const restoreSession = async (session: StoredSession): Promise<boolean> => {
+        let photos: SourcePhoto[];
+        try {
+            photos = await Promise.all(session.people.map(person => images.loadSourcePhoto(storedImageToFile(person.image))));
+        } catch (error) {
+            console.error('Error reopening session image:', error);
+            store.setState({ errorMessage: t('error.sessionPhotos') });
+            return false;
+        }
+
+        fileTokens.clear();
+        resetResults();
+        store.getState().people.forEach(person => {
+            if (person.uploadedImage) URL.revokeObjectURL(person.uploadedImage.objectURL);
+        });
+        const people = session.people.map((stored, index): Person => {
+            const scenarios = stored.scenarios.map(scenario => ({
+                ...scenario, factors: { ...getDefaultFactors(), ...scenario.factors }, appearance: normalizeAppearance(scenario.appearance),
+            }));
+            return {
+                id: stored.id,
+                name: stored.name,
+                uploadedImage: { ...stored.image, objectURL: URL.createObjectURL(storedImageToFile(stored.image)) },
+                sourcePhoto: photos[index],
+                cropRect: null,
+                isProcessingImage: false,
+                scenarios,
+                activeScenarioId: scenarios[0].id,
+                timelineSettings: { ...stored.timeline, customAges: [...stored.timeline.customAges] },
+            };
+        });
+        store.setState({
+            people,
+            activePersonId: people[0].id,
+            isCropping: false,
+            facePicker: null,
+            results: session.results,
+            activeSession: {
+                id: session.id, name: session.name, createdAt: session.createdAt,
+                people: session.people.map(({ image, ...person }) => person),
+            },
+            runState: 'done',
+            errorMessage: null,
+        });
+        return true;
+    };
+
+    const openSession = async (id: string) => {
+        if (isRunBusy(store.getState())) return;
+        let session: StoredSession | null;
+        try {
+            session = await loadSession(id);
+        } catch (error) {
+            console.error('Error opening session:', error);
+            store.setState({ errorMessage: error instanceof SessionStoreBlockedError ? error.message : t('error.sessionOpen') });
+            return;
+        }
+        if (!session) {
+            await refreshHistory();
+            return;
+        }
+        await restoreSession(session);
+    };
+
+    const setRenamingSession = (id: string | null) => store.setState({ renamingSessionId: id });
+
+    const renameStoredSession = async (id: string, name: string) => {
+        store.setState({ renamingSessionId: null });
+        const trimmed = name.trim();
+        if (trimmed) {
+            store.setState(({ activeSession }) => ({
+                activeSession: activeSession?.id === id ? { ...activeSession, name: trimmed } : activeSession,
+            }));
+            try {
+                await renameSession(id, trimmed);
+            } catch (error) {
+                console.error('Error renaming session:', error);
+            }
+        }
+        await refreshHistory();
+    };
+
+    const deleteStoredSession = async (id: string) => {
+        store.setState(({ activeSession }) => ({ activeSession: activeSession?.id === id ? null : activeSession }));
+        try {
+            await deleteSession(id);
+        } catch (error) {
+            console.error('Error deleting session:', error);
+        }
+        await refreshHistory();
+    };
+
+    return {
+        handleFiles, selectPerson, removePerson, renamePerson,
+        findFaces, addPeopleFromFaces, closeFacePicker, addPersonFromPhoto,
+        openCamera, closeCamera, takePhoto, retakePhoto, useCameraPhoto,
+        openCropEditor, applyCrop, cancelCrop, autoCrop, useFullPhoto,
+        setTimelineField, setFactor, setAppearance, selectScenario, addScenario, removeScenario, renameScenario,
+        setUiLocale, setPromptLocale,
+        selectTemplate, saveTemplate, resetTemplate,
+        setGenerationMode, setUseIdentityReference, generate, resumeQueue, retry, cancel,
+        setGenerationSettings, regenerate, regenerateWithAppearance, generateVariations, pickVariation,
+        setPricing, setBudget, resetUsage,
+        toggleCompare, closeComparison, setCompareSplit,
+        openLightbox, closeLightbox, showLightboxCard, stepLightbox, setLightboxSplit,
+        setExportMenuOpen, exportResults,
+        refreshHistory, openSession, setRenamingSession,
+        renameSession: renameStoredSession, deleteSession: deleteStoredSession,
+    };
+}
@@ -0,0 +1,127 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { t } from "./i18n";
+import { CropRect, SourcePhoto } from "./preprocess";
+
+export type CropEditor = {
+    element: HTMLElement;
+    getCrop(): CropRect;
+    destroy(): void;
+};
+
+const MIN_CROP_FRACTION = 0.15;
+const KEYBOARD_STEP = 0.02;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+/**
+ * A square crop box over the full photo. Drag the box to move it, drag the corner
+ * handle to resize it, or focus it and use the arrow keys (Shift + arrows resize).
+ */
+export function createCropEditor(photo: SourcePhoto, initial: CropRect | null): CropEditor {
+    const { width: photoWidth, height: photoHeight } = photo.canvas;
+    const maxSize = Math.min(photoWidth, photoHeight);
+    const start = initial ?? {
+        x: (photoWidth - maxSize * 0.8) / 2, y: (photoHeight - maxSize * 0.8) / 2,
+        width: maxSize * 0.8, height: maxSize * 0.8,
+    };
+    // Box geometry in photo pixels; the box is always square.
+    let box = { x: start.x, y: start.y, size: Math.min(start.width, start.height) };
+
+    const wrapper = document.createElement('div');
+    wrapper.className = 'crop-editor';
+    wrapper.style.cssText = 'position: relative; display: inline-block; max-width: 100%; line-height: 0; touch-action: none; user-select: none;';
+
+    const img = document.createElement('img');
+    img.src = photo.canvas.toDataURL('image/jpeg', 0.85);
+    img.alt = t('crop.imageAlt');
+    img.draggable = false;
+    img.style.cssText = 'max-width: 100%; max-height: 350px; border-radius: 12px; display: block;';
+
+    const cropBox = document.createElement('div');
+    cropBox.tabIndex = 0;
+    // Not a slider: it moves in two dimensions and has no single value to announce.
+    cropBox.setAttribute('role', 'group');
+    cropBox.setAttribute('aria-roledescription', t('crop.roleDescription'));
+    cropBox.setAttribute('aria-label', t('crop.label'));
+    cropBox.style.cssText = 'position: absolute; border: 2px solid #c9a47e; box-shadow: 0 0 0 9999px rgba(0, 0, 0, 0.55); cursor: move; box-sizing: border-box; border-radius: 4px;';
+
+    const handle = document.createElement('div');
+    handle.style.cssText = 'position: absolute; right: -8px; bottom: -8px; width: 16px; height: 16px; background: #c9a47e; border-radius: 50%; cursor: nwse-resize;';
+    cropBox.appendChild(handle);
+
+    const overlay = document.createElement('div');
+    overlay.style.cssText = 'position: absolute; inset: 0; overflow: hidden; border-radius: 12px;';
+    overlay.appendChild(cropBox);
+    wrapper.append(img, overlay);
+
+    const render = () => {
+        cropBox.style.left = `${(box.x / photoWidth) * 100}%`;
+        cropBox.style.top = `${(box.y / photoHeight) * 100}%`;
+        cropBox.style.width = `${(box.size / photoWidth) * 100}%`;
+        cropBox.style.height = `${(box.size / photoHeight) * 100}%`;
+    };
+
+    const setBox = (x: number, y: number, size: number) => {
+        const clampedSize = clamp(size, maxSize * MIN_CROP_FRACTION, maxSize);
+        box = {
+            size: clampedSize,
+            x: clamp(x, 0, photoWidth - clampedSize),
+            y: clamp(y, 0, photoHeight - clampedSize),
+        };
+        render();
+    };
+
+    let drag: { mode: 'move' | 'resize'; pointerX: number; pointerY: number; origin: typeof box } | null = null;
+
+    const onPointerDown = (e: PointerEvent) => {
+        e.preventDefault();
+        e.stopPropagation();
+        drag = { mode: e.target === handle ? 'resize' : 'move', pointerX: e.clientX, pointerY: e.clientY, origin: { ...box } };
+        cropBox.setPointerCapture(e.pointerId);
+        cropBox.focus();
+    };
+    const onPointerMove = (e: PointerEvent) => {
+        if (!drag) return;
+        const pixelsPerPoint = photoWidth / wrapper.getBoundingClientRect().width;
+        const dx = (e.clientX - drag.pointerX) * pixelsPerPoint;
+        const dy = (e.clientY - drag.pointerY) * pixelsPerPoint;
+        if (drag.mode === 'move') {
+            setBox(drag.origin.x + dx, drag.origin.y + dy, drag.origin.size);
+        } else {
+            setBox(drag.origin.x, drag.origin.y, drag.origin.size + Math.max(dx, dy));
+        }
+    };
+    const onPointerUp = () => { drag = null; };
+    const onKeyDown = (e: KeyboardEvent) => {
+        const step = maxSize * KEYBOARD_STEP;
+        const deltas: Record<string, [number, number]> = {
+            ArrowLeft: [-step, 0], ArrowRight: [step, 0], ArrowUp: [0, -step], ArrowDown: [0, step],
+        };
+        const delta = deltas[e.key];
+        if (!delta) return;
+        e.preventDefault();
+        if (e.shiftKey) {
+            setBox(box.x, box.y, box.size + delta[0] - delta[1]);
+        } else {
+            setBox(box.x + delta[0], box.y + delta[1], box.size);
+        }
+    };
+
+    cropBox.addEventListener('pointerdown', onPointerDown);
+    cropBox.addEventListener('pointermove', onPointerMove);
+    cropBox.addEventListener('pointerup', onPointerUp);
+    cropBox.addEventListener('pointercancel', onPointerUp);
+    cropBox.addEventListener('keydown', onKeyDown);
+    setBox(box.x, box.y, box.size);
+
+    return {
+        element: wrapper,
+        getCrop: () => ({ x: Math.round(box.x), y: Math.round(box.y), width: Math.round(box.size), height: Math.round(box.size) }),
+        destroy: () => wrapper.remove(),
+    };
+}
@@ -0,0 +1,391 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { FACTOR_REGISTRY } from "./factors";
+import { formatNumber, t } from "./i18n";
+import { PersonSnapshot, ResultCard, Scenario } from "./types";
+
+// --- Type Definitions ---
+/** A person in an export, with the file name their photo was uploaded under. */
+export type ExportPerson = PersonSnapshot & {
+    baseName: string;
+    /** The photo sent to the model, as a data URL; null when the person has none any more. */
+    photoUrl: string | null;
+};
+
+/**
+ * Everything an export needs; built from the current `ResultCard`s without calling the model
+ * again. Every person goes into the same export.
+ */
+export type ExportSource = {
+    /** Names the exported file itself. */
+    baseName: string;
+    cards: ResultCard[];
+    people: ExportPerson[];
+    provider: { id: string; model: string };
+};
+
+export type ZipEntry = {
+    name: string;
+    data: Uint8Array;
+};
+
+const EXTENSIONS: Record<string, string> = {
+    'image/png': 'png', 'image/jpeg': 'jpg', 'image/webp': 'webp', 'image/gif': 'gif',
+};
+
+// --- Helpers ---
+export const getDataUrlMimeType = (dataUrl: string): string =>
+    /^data:([^;,]+)/.exec(dataUrl)?.[1] ?? 'application/octet-stream';
+
+export const getExtensionForMimeType = (mimeType: string): string => EXTENSIONS[mimeType] ?? 'bin';
+
+export const dataUrlToBytes = (dataUrl: string): Uint8Array => {
+    const binary = atob(dataUrl.slice(dataUrl.indexOf(',') + 1));
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+    return bytes;
+};
+
+const slugify = (text: string, fallback: string) => text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || fallback;
+
+/**
+ * Slugs for `names`, in order. A slug already taken gets the first free number, e.g. two
+ * people called "Anna" become `anna` and `anna-2`; names without Latin letters or digits
+ * all share `fallback` and are numbered the same way.
+ */
+const slugifyUnique = (names: string[], fallback: string): string[] => {
+    const slugs = names.map(name => slugify(name, fallback));
+    const taken = new Set<string>();
+    return slugs.map(slug => {
+        let unique = slug;
+        // A numbered slug must not take another name's own slug either.
+        for (let n = 2; taken.has(unique) || (unique !== slug && slugs.includes(unique)); n++) unique = `${slug}-${n}`;
+        taken.add(unique);
+        return unique;
+    });
+};
+
+const getSuccessCards = (source: ExportSource) => source.cards.filter(card => card.status === 'success' && card.imageUrl);
+
+const getCardPerson = (source: Pick<ExportSource, 'people'>, card: ResultCard) =>
+    source.people.find(person => person.id === card.personId);
+
+const getCardScenario = (source: Pick<ExportSource, 'people'>, card: ResultCard) =>
+    getCardPerson(source, card)?.scenarios.find(scenario => scenario.id === card.scenarioId);
+
+/**
+ * File name of a card's image, e.g. `portrait_healthy_age60.jpg`. With several people the
+ * person's name is added, since faces picked from one group photo share its file name.
+ * Names are made unique, so no two images of an export share a file name.
+ */
+export const getCardFileName = (source: Pick<ExportSource, 'people'>, card: ResultCard): string => {
+    const person = getCardPerson(source, card);
+    const personPart = person && source.people.length > 1
+        ? `_${slugifyUnique(source.people.map(other => other.name), 'person')[source.people.indexOf(person)]}`
+        : '';
+    const scenarioIndex = person && person.scenarios.length > 1
+        ? person.scenarios.findIndex(scenario => scenario.id === card.scenarioId)
+        : -1;
+    const scenarioPart = scenarioIndex >= 0
+        ? `_${slugifyUnique(person!.scenarios.map(scenario => scenario.name), 'scenario')[scenarioIndex]}`
+        : '';
+    const extension = getExtensionForMimeType(getDataUrlMimeType(card.imageUrl ?? ''));
+    return `${person?.baseName ?? 'timemirror'}${personPart}${scenarioPart}_age${card.age}.${extension}`;
+};
+
+/** One row of images: a scenario of one person, with the cards that have an image. */
+type ImageRow = {
+    title: string;
+    cards: ResultCard[];
+};
+
+/** Rows for every person and scenario with at least one image, each sorted by age. */
+const getImageRows = (source: ExportSource): ImageRow[] => {
+    const cards = getSuccessCards(source);
+    const showPerson = source.people.length > 1;
+    return source.people.flatMap(person => person.scenarios.map(scenario => ({
+        title: showPerson
+            ? (person.scenarios.length > 1 ? `${person.name} · ${scenario.name}` : person.name)
+            : scenario.name,
+        cards: cards.filter(card => card.scenarioId === scenario.id).sort((a, b) => a.age - b.age),
+    }))).filter(row => row.cards.length > 0);
+};
+
+const loadImage = (src: string): Promise<HTMLImageElement> => new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error(t('export.error.decode')));
+    img.src = src;
+});
+
+/** Draws an image scaled to cover the target square, like `object-fit: cover`. */
+const drawCover = (ctx: CanvasRenderingContext2D, img: HTMLImageElement, x: number, y: number, size: number) => {
+    const side = Math.min(img.naturalWidth, img.naturalHeight);
+    ctx.drawImage(img, (img.naturalWidth - side) / 2, (img.naturalHeight - side) / 2, side, side, x, y, size, size);
+};
+
+const canvasToBlob = (canvas: HTMLCanvasElement, mimeType = 'image/png') => new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error(t('export.error.encode'))), mimeType);
+});
+
+// --- Contact Sheet ---
+const TILE = 256;
+const GAP = 16;
+const LABEL_HEIGHT = 44;
+const ROW_TITLE_HEIGHT = 32;
+const HEADER_HEIGHT = 64;
+
+/** A PNG grid with one row per person and scenario and one column per age, labelled with age and year. */
+export const buildContactSheet = async (source: ExportSource): Promise<Blob> => {
+    const cards = getSuccessCards(source);
+    if (cards.length === 0) throw new Error(t('export.error.empty'));
+    const ages = [...new Set(cards.map(card => card.age))].sort((a, b) => a - b);
+    const rows = getImageRows(source);
+    const showRowTitles = rows.length > 1;
+    const rowHeight = (showRowTitles ? ROW_TITLE_HEIGHT : 0) + TILE + LABEL_HEIGHT;
+
+    const canvas = document.createElement('canvas');
+    canvas.width = GAP + ages.length * (TILE + GAP);
+    canvas.height = HEADER_HEIGHT + rows.length * (rowHeight + GAP);
+    const ctx = canvas.getContext('2d')!;
+    ctx.fillStyle = '#0a0a0a';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.fillStyle = '#c9a47e';
+    ctx.font = '700 28px Sora, sans-serif';
+    ctx.textBaseline = 'middle';
+    ctx.fillText('TimeMirror', GAP, HEADER_HEIGHT / 2);
+
+    const images = new Map(await Promise.all(cards.map(async card => [card.id, await loadImage(card.imageUrl!)] as const)));
+    rows.forEach((row, rowIndex) => {
+        let y = HEADER_HEIGHT + rowIndex * (rowHeight + GAP);
+        if (showRowTitles) {
+            ctx.fillStyle = '#c9a47e';
+            ctx.font = '600 18px Sora, sans-serif';
+            ctx.textAlign = 'left';
+            ctx.fillText(row.title, GAP, y + ROW_TITLE_HEIGHT / 2);
+            y += ROW_TITLE_HEIGHT;
+        }
+        ages.forEach((age, columnIndex) => {
+            const x = GAP + columnIndex * (TILE + GAP);
+            const card = row.cards.find(c => c.age === age);
+            ctx.fillStyle = '#1a1a1a';
+            ctx.fillRect(x, y, TILE, TILE);
+            if (card) drawCover(ctx, images.get(card.id)!, x, y, TILE);
+            ctx.textAlign = 'center';
+            ctx.fillStyle = '#e6e6e6';
+            ctx.font = '700 18px Sora, sans-serif';
+            ctx.fillText(t('card.age', { age }), x + TILE / 2, y + TILE + 16);
+            // People of different ages reach the same age in different years, so only label filled tiles.
+            if (!card) return;
+            ctx.fillStyle = '#8a8a8a';
+            ctx.font = '400 14px Sora, sans-serif';
+            ctx.fillText(formatNumber(card.year), x + TILE / 2, y + TILE + 36);
+        });
+    });
+    return canvasToBlob(canvas);
+};
+
+// --- Video ---
+const VIDEO_SIZE = 512;
+const HOLD_MS = 900;
+const FADE_MS = 700;
+const FRAME_MS = 1000 / 30;
+
+const getVideoMimeType = (): string | null => {
+    if (typeof MediaRecorder === 'undefined') return null;
+    return ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'].find(type => MediaRecorder.isTypeSupported(type)) ?? null;
+};
+
+export const isVideoExportSupported = () => getVideoMimeType() !== null;
+
+/**
+ * Records a WebM that holds on each age and cross-fades into the next one. Each person
+ * contributes the scenario with the most images, one person after another.
+ */
+export const recordTimelineVideo = async (source: ExportSource): Promise<Blob> => {
+    const mimeType = getVideoMimeType();
+    if (!mimeType) throw new Error(t('export.error.video'));
+    const cards = getSuccessCards(source);
+    const showPerson = source.people.length > 1;
+    const frames = source.people.flatMap(person => person.scenarios
+        .map(scenario => cards.filter(card => card.scenarioId === scenario.id).sort((a, b) => a.age - b.age))
+        .sort((a, b) => b.length - a.length)[0] ?? []);
+    if (frames.length === 0) throw new Error(t('export.error.empty'));
+    const images = await Promise.all(frames.map(card => loadImage(card.imageUrl!)));
+
+    const canvas = document.createElement('canvas');
+    canvas.width = VIDEO_SIZE;
+    canvas.height = VIDEO_SIZE;
+    const ctx = canvas.getContext('2d')!;
+    const drawFrame = (index: number, fade: number) => {
+        ctx.globalAlpha = 1;
+        drawCover(ctx, images[index], 0, 0, VIDEO_SIZE);
+        if (fade > 0 && index + 1 < images.length) {
+            ctx.globalAlpha = fade;
+            drawCover(ctx, images[index + 1], 0, 0, VIDEO_SIZE);
+        }
+        const labelCard = frames[fade >= 0.5 ? index + 1 : index];
+        ctx.globalAlpha = 1;
+        ctx.fillStyle = 'rgba(0, 0, 0, 0.55)';
+        ctx.fillRect(0, VIDEO_SIZE - 56, VIDEO_SIZE, 56);
+        ctx.fillStyle = '#e6d3b3';
+        ctx.font = '600 24px Sora, sans-serif';
+        ctx.textAlign = 'center';
+        ctx.textBaseline = 'middle';
+        const label = t('export.videoLabel', { age: labelCard.age, year: labelCard.year });
+        ctx.fillText(showPerson ? `${getCardPerson(source, labelCard)?.name ?? ''} · ${label}` : label, VIDEO_SIZE / 2, VIDEO_SIZE - 28);
+    };
+
+    drawFrame(0, 0);
+    const recorder = new MediaRecorder(canvas.captureStream(30), { mimeType });
+    const chunks: Blob[] = [];
+    recorder.ondataavailable = (e) => { if (e.data.size > 0) chunks.push(e.data); };
+    const stopped = new Promise<void>(resolve => { recorder.onstop = () => resolve(); });
+    recorder.start();
+
+    const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+    for (let index = 0; index < images.length; index++) {
+        drawFrame(index, 0);
+        await wait(HOLD_MS);
+        if (index + 1 === images.length) break;
+        for (let elapsed = 0; elapsed < FADE_MS; elapsed += FRAME_MS) {
+            drawFrame(index, elapsed / FADE_MS);
+            await wait(FRAME_MS);
+        }
+    }
+    recorder.stop();
+    await stopped;
+    return new Blob(chunks, { type: 'video/webm' });
+};
+
+// --- Manifest ---
+const describeScenario = (scenario: Scenario) => ({
+    id: scenario.id,
+    name: scenario.name,
+    factors: Object.fromEntries(FACTOR_REGISTRY.map(factor => [factor.id, scenario.factors[factor.id]])),
+    appearance: scenario.appearance ?? null,
+});
+
+/** A JSON description of how each image was produced: each person's timeline, factor values and appearance choices, prompts and their template versions, and the fingerprint that reproduces each image. */
+export const buildManifest = (source: ExportSource) => ({
+    app: 'TimeMirror',
+    exportedAt: new Date().toISOString(),
+    provider: source.provider,
+    people: source.people.map(person => ({
+        id: person.id,
+        name: person.name,
+        photo: person.baseName,
+        timeline: person.timeline,
+        scenarios: person.scenarios.map(describeScenario),
+    })),
+    results: source.cards.map(card => ({
+        person: getCardPerson(source, card)?.name ?? '',
+        scenario: getCardScenario(source, card)?.name ?? '',
+        age: card.age,
+        year: card.year,
+        status: card.status,
+        file: card.status === 'success' ? getCardFileName(source, card) : null,
+        errorReason: card.errorReason ?? null,
+        prompt: card.prompt,
+        appearance: card.appearance ?? null,
+        templateId: card.templateId ?? null,
+        templateVersion: card.templateVersion ?? null,
+        sourceAge: source.cards.find(other => other.id === card.sourceCardId)?.age ?? null,
+        identityReference: card.usesIdentityReference ?? false,
+        seed: card.seed ?? null,
+        temperature: card.temperature ?? null,
+        fingerprint: card.fingerprint ?? null,
+    })),
+});
+
+export const buildManifestBlob = (source: ExportSource): Blob =>
+    new Blob([JSON.stringify(buildManifest(source), null, 2)], { type: 'application/json' });
+
+// --- ZIP ---
+const CRC_TABLE = (() => {
+    const table = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+        let c = n;
+        for (let k = 0; k < 8; k++) c = c & 1 ? 0xEDB88320 ^ (c >>> 1) : c >>> 1;
+        table[n] = c >>> 0;
+    }
+    return table;
+})();
+
+export const crc32 = (data: Uint8Array): number => {
+    let crc = 0xFFFFFFFF;
+    for (let i = 0; i < data.length; i++) crc = CRC_TABLE[(crc ^ data[i]) & 0xFF] ^ (crc >>> 8);
+    return (crc ^ 0xFFFFFFFF) >>> 0;
+};
+
+/** Writes an uncompressed ("stored") ZIP. Images are already compressed, so deflate would gain little. */
+export const buildZip = (entries: ZipEntry[]): Blob => {
+    const encoder = new TextEncoder();
+    const parts: Uint8Array[] = [];
+    const central: Uint8Array[] = [];
+    let offset = 0;
+
+    for (const entry of entries) {
+        const name = encoder.encode(entry.name);
+        const crc = crc32(entry.data);
+        const local = new DataView(new ArrayBuffer(30));
+        local.setUint32(0, 0x04034B50, true);
+        local.setUint16(4, 20, true);            // version needed
+        local.setUint16(6, 0x0800, true);        // UTF-8 names
+        local.setUint32(14, crc, true);
+        local.setUint32(18, entry.data.length, true);
+        local.setUint32(22, entry.data.length, true);
+        local.setUint16(26, name.length, true);
+        parts.push(new Uint8Array(local.buffer), name, entry.data);
+
+        const header = new DataView(new ArrayBuffer(46));
+        header.setUint32(0, 0x02014B50, true);
+        header.setUint16(4, 20, true);           // version made by
+        header.setUint16(6, 20, true);           // version needed
+        header.setUint16(8, 0x0800, true);
+        header.setUint32(16, crc, true);
+        header.setUint32(20, entry.data.length, true);
+        header.setUint32(24, entry.data.length, true);
+        header.setUint16(28, name.length, true);
+        header.setUint32(42, offset, true);
+        central.push(new Uint8Array(header.buffer), name);
+
+        offset += 30 + name.length + entry.data.length;
+    }
+
+    const centralSize = central.reduce((sum, part) => sum + part.length, 0);
+    const end = new DataView(new ArrayBuffer(22));
+    end.setUint32(0, 0x06054B50, true);
+    end.setUint16(8, entries.length, true);
+    end.setUint16(10, entries.length, true);
+    end.setUint32(12, centralSize, true);
+    end.setUint32(16, offset, true);
+    return new Blob([...parts, ...central, new Uint8Array(end.buffer)], { type: 'application/zip' });
+};
+
+/** All images plus `manifest.json` in one ZIP. */
+export const buildImageBundle = (source: ExportSource): Blob => {
+    const entries: ZipEntry[] = getSuccessCards(source).map(card => ({
+        name: getCardFileName(source, card),
+        data: dataUrlToBytes(card.imageUrl!),
+    }));
+    if (entries.length === 0) throw new Error(t('export.error.empty'));
+    entries.push({ name: 'manifest.json', data: new TextEncoder().encode(JSON.stringify(buildManifest(source), null, 2)) });
+    return buildZip(entries);
+};
+
+/** Saves a blob through a temporary download link. */
+export const downloadBlob = (blob: Blob, fileName: string) => {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
@@ -0,0 +1,97 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Locale, MessageKey, getUiLocale, translate } from "./i18n";
+
+// --- Type Definitions ---
+export type FactorId =
+    | 'smoking' | 'sunExposure' | 'stress' | 'sleep'
+    | 'diet' | 'alcohol' | 'exercise' | 'skincare';
+
+export type LifestyleFactors = Record<FactorId, number>;
+
+/**
+ * Every slider value up to and including `max` shares one wording, kept in the catalogs
+ * as `factor.<id>.band<index>` next to the factor's label and tooltip.
+ */
+export type FactorBand = {
+    max: number;
+};
+
+export type FactorDefinition = {
+    id: FactorId;
+    min: number;
+    max: number;
+    defaultValue: number;
+    /** The value at which the factor neither ages nor protects the skin. */
+    neutral: number;
+    /** Relative strength of the factor's effect on visible aging. */
+    weight: number;
+    bands: FactorBand[];
+};
+
+// --- Registry ---
+export const FACTOR_REGISTRY: readonly FactorDefinition[] = [
+    { id: 'smoking', min: 0, max: 10, defaultValue: 0, neutral: 0, weight: 1.0, bands: [{ max: 0 }, { max: 3 }, { max: 6 }, { max: 8 }, { max: 10 }] },
+    { id: 'sunExposure', min: 0, max: 10, defaultValue: 2, neutral: 2, weight: 0.9, bands: [{ max: 2 }, { max: 4 }, { max: 7 }, { max: 10 }] },
+    { id: 'stress', min: 0, max: 10, defaultValue: 3, neutral: 3, weight: 0.7, bands: [{ max: 1 }, { max: 4 }, { max: 7 }, { max: 10 }] },
+    { id: 'sleep', min: 0, max: 10, defaultValue: 7, neutral: 7, weight: 0.6, bands: [{ max: 2 }, { max: 5 }, { max: 8 }, { max: 10 }] },
+    { id: 'diet', min: 0, max: 10, defaultValue: 6, neutral: 6, weight: 0.5, bands: [{ max: 2 }, { max: 5 }, { max: 7 }, { max: 10 }] },
+    { id: 'alcohol', min: 0, max: 10, defaultValue: 1, neutral: 1, weight: 0.7, bands: [{ max: 1 }, { max: 4 }, { max: 7 }, { max: 10 }] },
+    { id: 'exercise', min: 0, max: 10, defaultValue: 4, neutral: 4, weight: 0.5, bands: [{ max: 1 }, { max: 4 }, { max: 7 }, { max: 10 }] },
+    { id: 'skincare', min: 0, max: 10, defaultValue: 3, neutral: 3, weight: 0.4, bands: [{ max: 1 }, { max: 4 }, { max: 7 }, { max: 10 }] },
+];
+
+// --- Helpers ---
+export const getFactorDefinition = (id: FactorId): FactorDefinition =>
+    FACTOR_REGISTRY.find(factor => factor.id === id)!;
+
+export const getDefaultFactors = (): LifestyleFactors =>
+    Object.fromEntries(FACTOR_REGISTRY.map(factor => [factor.id, factor.defaultValue])) as LifestyleFactors;
+
+// Catalog keys are built from the factor id; the i18n tests check that every one exists.
+export const getFactorLabel = (factor: FactorDefinition, locale: Locale = getUiLocale()): string =>
+    translate(locale, `factor.${factor.id}.label` as MessageKey);
+
+export const getFactorTooltip = (factor: FactorDefinition, locale: Locale = getUiLocale()): string =>
+    translate(locale, `factor.${factor.id}.tooltip` as MessageKey);
+
+/** The wording for a slider value, phrased to follow "The person …" in the prompt. */
+export const describeFactor = (factor: FactorDefinition, value: number, locale: Locale = getUiLocale()): string => {
+    const clamped = Math.min(factor.max, Math.max(factor.min, value));
+    const index = factor.bands.findIndex(band => clamped <= band.max);
+    return translate(locale, `factor.${factor.id}.band${index === -1 ? factor.bands.length - 1 : index}` as MessageKey);
+};
+
+/**
+ * How strongly a factor should show in the image: its distance from neutral,
+ * scaled to the slider range and multiplied by the factor's weight.
+ */
+export const getFactorImpact = (factor: FactorDefinition, value: number): number =>
+    (Math.abs(value - factor.neutral) / (factor.max - factor.min)) * factor.weight;
+
+const getImpactKey = (impact: number): MessageKey => {
+    if (impact >= 0.6) return 'prompt.impact.strong';
+    if (impact >= 0.3) return 'prompt.impact.clear';
+    if (impact > 0) return 'prompt.impact.subtle';
+    return 'prompt.impact.none';
+};
+
+/**
+ * Builds the lifestyle section of the prompt in `locale`. Each factor is listed with its
+ * exact slider value and graded wording, ordered by impact so the model gives the
+ * strongest influences the most weight.
+ */
+export const buildLifestyleInstructions = (factors: LifestyleFactors, locale: Locale): string => {
+    const lines = FACTOR_REGISTRY
+        .map(factor => ({ factor, value: factors[factor.id], impact: getFactorImpact(factor, factors[factor.id]) }))
+        .sort((a, b) => b.impact - a.impact)
+        .map(({ factor, value, impact }) => translate(locale, 'prompt.lifestyle.factor', {
+            label: getFactorLabel(factor, locale), value, max: factor.max,
+            impact: translate(locale, getImpactKey(impact)), wording: describeFactor(factor, value, locale),
+        }));
+    return `${translate(locale, 'prompt.lifestyle.intro')}\n${lines.join('\n')}`;
+};
@@ -0,0 +1,68 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { AgingProvider, AgingRequest, SourceImage } from "./providers";
+import { GenerationFingerprint } from "./types";
+
+/** Seeds stay within a signed 32-bit integer, which every model API accepts. */
+export const MAX_SEED = 2 ** 31 - 1;
+
+export const createSeed = (): number => crypto.getRandomValues(new Uint32Array(1))[0] % MAX_SEED;
+
+export const parseSeed = (value: string): number | null => {
+    const seed = Number(value.trim());
+    return value.trim() !== '' && Number.isInteger(seed) && seed >= 0 && seed <= MAX_SEED ? seed : null;
+};
+
+const sha256 = async (data: Uint8Array): Promise<string> => {
+    const digest = await crypto.subtle.digest('SHA-256', data);
+    return [...new Uint8Array(digest)].map(byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+export const hashText = (text: string) => sha256(new TextEncoder().encode(text));
+
+// A run sends the same upload with every request; remember the last few hashes.
+const imageHashes = new Map<string, Promise<string>>();
+const IMAGE_HASH_CACHE_SIZE = 8;
+
+/** Hashes the decoded image bytes, so the hash matches the file the image came from. */
+export const hashImage = (image: SourceImage): Promise<string> => {
+    let hash = imageHashes.get(image.base64);
+    if (!hash) {
+        const binary = atob(image.base64);
+        const bytes = new Uint8Array(binary.length);
+        for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+        hash = sha256(bytes);
+        // A failed hash is not remembered, so the next request tries again.
+        hash.catch(() => imageHashes.delete(image.base64));
+        imageHashes.set(image.base64, hash);
+        if (imageHashes.size > IMAGE_HASH_CACHE_SIZE) imageHashes.delete(imageHashes.keys().next().value!);
+    }
+    return hash;
+};
+
+/** Records how `request` was sent to `provider`. Call it once the request has settled: some providers learn their model from the response. */
+export const createFingerprint = async (
+    provider: AgingProvider, request: AgingRequest & { seed: number },
+): Promise<GenerationFingerprint> => {
+    const [promptHash, imageHash, referenceImageHash] = await Promise.all([
+        hashText(request.prompt),
+        hashImage(request.image),
+        request.referenceImage ? hashImage(request.referenceImage) : undefined,
+    ]);
+    return {
+        provider: provider.id,
+        model: provider.model,
+        promptHash,
+        seed: request.seed,
+        ...(request.temperature !== undefined ? { temperature: request.temperature } : {}),
+        imageHash,
+        ...(referenceImageHash ? { referenceImageHash } : {}),
+    };
+};
+
+/** The first characters of a hash, enough to tell two apart at a glance. */
+export const shortHash = (hash: string) => hash.slice(0, 12);
@@ -0,0 +1,122 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import de from "./locales/de.json";
+import en from "./locales/en.json";
+import es from "./locales/es.json";
+
+// --- Type Definitions ---
+export type Locale = 'en' | 'es' | 'de';
+
+/** A key of the English catalog, which every other catalog mirrors. */
+export type MessageKey = keyof typeof en;
+
+/** Values for a message's `{name}` slots. Numbers are formatted for the locale; `count` also picks the plural form. */
+export type MessageParams = Record<string, string | number>;
+
+/** A catalog entry: plain text, or one text per plural category of the locale (`one`, `other`, …). */
+type Message = string | Partial<Record<Intl.LDMLPluralRule, string>>;
+
+type Catalog = Partial<Record<MessageKey, Message>>;
+
+export const SUPPORTED_LOCALES: readonly { id: Locale; name: string }[] = [
+    { id: 'en', name: 'English' },
+    { id: 'es', name: 'Español' },
+    { id: 'de', name: 'Deutsch' },
+];
+
+export const DEFAULT_LOCALE: Locale = 'en';
+
+const CATALOGS: Record<Locale, Catalog> = { en, es, de };
+
+export const isSupportedLocale = (value: unknown): value is Locale =>
+    SUPPORTED_LOCALES.some(locale => locale.id === value);
+
+// --- Formatting ---
+/** Ages, counts and sizes. Grouping is off so years and pixel sizes never read as "2.055". */
+export const formatNumber = (value: number, locale: Locale = uiLocale) =>
+    new Intl.NumberFormat(locale, { useGrouping: false, maximumFractionDigits: 1 }).format(value);
+
+export const formatDate = (timestamp: number, locale: Locale = uiLocale) =>
+    new Intl.DateTimeFormat(locale, { dateStyle: 'medium' }).format(timestamp);
+
+export const formatDateTime = (timestamp: number, locale: Locale = uiLocale) =>
+    new Intl.DateTimeFormat(locale, { dateStyle: 'medium', timeStyle: 'short' }).format(timestamp);
+
+export const formatTime = (timestamp: number, locale: Locale = uiLocale) =>
+    new Intl.DateTimeFormat(locale, { timeStyle: 'medium' }).format(timestamp);
+
+/** Joins names as the locale would in running text, e.g. "a, b and c". */
+export const formatList = (items: string[], locale: Locale = uiLocale) =>
+    new Intl.ListFormat(locale, { type: 'conjunction' }).format(items);
+
+// --- Translation ---
+const PARAM_PATTERN = /\{(\w+)\}/g;
+
+/**
+ * Looks up `key` in `locale`, falling back to English, and fills in `params`. Slots
+ * without a value are left as written, which keeps prompt placeholders intact.
+ */
+export const translate = (locale: Locale, key: MessageKey, params: MessageParams = {}): string => {
+    const message = CATALOGS[locale][key] ?? CATALOGS[DEFAULT_LOCALE][key] ?? key;
+    const text = typeof message === 'string'
+        ? message
+        : message[new Intl.PluralRules(locale).select(Number(params.count ?? 0))] ?? message.other ?? key;
+    return text.replace(PARAM_PATTERN, (slot, name: string) => {
+        if (!(name in params)) return slot;
+        const value = params[name];
+        return typeof value === 'number' ? formatNumber(value, locale) : value;
+    });
+};
+
+// --- Interface Language ---
+let uiLocale: Locale = DEFAULT_LOCALE;
+
+export const getUiLocale = () => uiLocale;
+
+/** Switches the language `t` translates into. Interfaces built afterwards use it. */
+export const setUiLocale = (locale: Locale) => {
+    uiLocale = locale;
+};
+
+/** Translates into the interface language. Prompts use `translate` with the prompt language instead. */
+export const t = (key: MessageKey, params?: MessageParams) => translate(uiLocale, key, params);
+
+// --- Persistence ---
+const STORAGE_KEY = 'timemirror.locale';
+
+/** The interface and prompt languages are chosen separately, so a team can keep prompts in English. */
+export type LocaleSettings = {
+    uiLocale: Locale;
+    promptLocale: Locale;
+};
+
+/** The first of the browser's preferred languages that has a catalog. */
+export const detectLocale = (languages: readonly string[] = navigator.languages ?? []): Locale =>
+    languages.map(language => language.toLowerCase().split('-')[0]).find(isSupportedLocale) ?? DEFAULT_LOCALE;
+
+export const loadLocaleSettings = (): LocaleSettings => {
+    const detected = detectLocale();
+    const defaults: LocaleSettings = { uiLocale: detected, promptLocale: DEFAULT_LOCALE };
+    try {
+        const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null') as Partial<LocaleSettings> | null;
+        return {
+            uiLocale: isSupportedLocale(saved?.uiLocale) ? saved.uiLocale : defaults.uiLocale,
+            promptLocale: isSupportedLocale(saved?.promptLocale) ? saved.promptLocale : defaults.promptLocale,
+        };
+    } catch (error) {
+        console.warn('Could not restore the language settings; using the defaults.', error);
+        return defaults;
+    }
+};
+
+export const saveLocaleSettings = (settings: LocaleSettings) => {
+    try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+    } catch (error) {
+        console.warn('Could not save the language settings.', error);
+    }
+};
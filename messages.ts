@@ -0,0 +1,37 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { MessageKey, t } from "./i18n";
+import { GenerationErrorReason } from "./providers";
+import { ResultCard } from "./types";
+
+/** The rotating lines under the loading clock, kept in the catalogs as `loading.message<n>`. */
+export const LOADING_MESSAGE_COUNT = 10;
+
+export const getLoadingMessage = (index: number) => t(`loading.message${index % LOADING_MESSAGE_COUNT}` as MessageKey);
+
+export type ErrorExplanation = { title: string; message: string };
+
+export const getErrorExplanation = (reason: GenerationErrorReason = 'unknown'): ErrorExplanation => ({
+    title: t(`error.${reason}.title`),
+    message: t(`error.${reason}.message`),
+});
+
+/** Summarizes failed cards for the error banner, leading with the most common reason. */
+export const summarizeFailures = (cards: ResultCard[]): string | null => {
+    const failed = cards.filter(card => card.status === 'error');
+    if (failed.length === 0) return null;
+    const counts = new Map<GenerationErrorReason, number>();
+    failed.forEach(card => {
+        const reason = card.errorReason ?? 'unknown';
+        counts.set(reason, (counts.get(reason) ?? 0) + 1);
+    });
+    const [topReason] = [...counts.entries()].sort((a, b) => b[1] - a[1])[0];
+    return t('error.summary', { failed: failed.length, count: cards.length, reason: getErrorExplanation(topReason).message });
+};
+
+export const truncate = (text: string, maxLength: number) =>
+    text.length > maxLength ? `${text.slice(0, maxLength - 1)}…` : text;
@@ -0,0 +1,281 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { t } from "./i18n";
+
+// --- Type Definitions ---
+export type PreprocessOptions = {
+    /** Files larger than this are rejected before decoding. */
+    maxFileBytes: number;
+    /** Smallest side the photo must have to give the model enough detail. */
+    minDimension: number;
+    /** Longest side of the image sent to the model. */
+    maxDimension: number;
+    jpegQuality: number;
+};
+
+/** A rectangle in the pixel space of an oriented `SourcePhoto`. */
+export type CropRect = {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+};
+
+/** A decoded, correctly oriented photo that crops can be rendered from. */
+export type SourcePhoto = {
+    canvas: HTMLCanvasElement;
+    fileName: string;
+    originalMimeType: string;
+    originalBytes: number;
+};
+
+export type ProcessedImage = {
+    base64: string;
+    mimeType: 'image/jpeg' | 'image/png';
+    blob: Blob;
+    width: number;
+    height: number;
+};
+
+export const DEFAULT_PREPROCESS_OPTIONS: PreprocessOptions = {
+    maxFileBytes: 15 * 1024 * 1024,
+    minDimension: 128,
+    maxDimension: 1536,
+    jpegQuality: 0.92,
+};
+
+/** Upper bound for the working copy kept in memory so crops stay sharp without holding a 50 MP canvas. */
+const MAX_WORKING_DIMENSION = 4096;
+
+const SUPPORTED_TYPES = new Set([
+    'image/jpeg', 'image/png', 'image/webp', 'image/gif', 'image/bmp', 'image/avif', 'image/heic', 'image/heif',
+]);
+
+export class ImagePreprocessError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'ImagePreprocessError';
+    }
+}
+
+// --- Validation ---
+const formatMegabytes = (bytes: number) => t('upload.megabytes', { size: Math.round(bytes / (1024 * 1024) * 10) / 10 });
+
+const getExtension = (fileName: string) => fileName.split('.').pop()?.toLowerCase() ?? '';
+
+/** Some platforms leave `type` empty for HEIC files, so fall back to the extension. */
+const resolveMimeType = (file: File): string => {
+    if (file.type) return file.type;
+    const extension = getExtension(file.name);
+    if (extension === 'heic' || extension === 'heif') return `image/${extension}`;
+    return '';
+};
+
+export const validateFile = (file: File, options: PreprocessOptions = DEFAULT_PREPROCESS_OPTIONS) => {
+    const mimeType = resolveMimeType(file);
+    if (!SUPPORTED_TYPES.has(mimeType)) {
+        throw new ImagePreprocessError(t('upload.error.type', { name: file.name }));
+    }
+    if (file.size > options.maxFileBytes) {
+        throw new ImagePreprocessError(t('upload.error.size', {
+            name: file.name, size: formatMegabytes(file.size), max: formatMegabytes(options.maxFileBytes),
+        }));
+    }
+};
+
+// --- EXIF Orientation ---
+/** Reads the EXIF orientation tag (1–8) from a JPEG, or returns 1 when there is none. */
+export const readExifOrientation = (buffer: ArrayBuffer): number => {
+    const view = new DataView(buffer);
+    if (view.byteLength < 4 || view.getUint16(0) !== 0xFFD8) return 1;
+    let offset = 2;
+    while (offset + 4 <= view.byteLength) {
+        const marker = view.getUint16(offset);
+        const segmentLength = view.getUint16(offset + 2);
+        if (marker === 0xFFE1 && view.getUint32(offset + 4) === 0x45786966) { // "Exif"
+            const tiff = offset + 10;
+            const littleEndian = view.getUint16(tiff) === 0x4949;
+            const ifd = tiff + view.getUint32(tiff + 4, littleEndian);
+            const entries = view.getUint16(ifd, littleEndian);
+            for (let i = 0; i < entries; i++) {
+                const entry = ifd + 2 + i * 12;
+                if (entry + 10 > view.byteLength) return 1;
+                if (view.getUint16(entry, littleEndian) === 0x0112) return view.getUint16(entry + 8, littleEndian);
+            }
+            return 1;
+        }
+        if ((marker & 0xFF00) !== 0xFF00) return 1;
+        offset += 2 + segmentLength;
+    }
+    return 1;
+};
+
+/** Modern browsers rotate decoded images by their EXIF orientation themselves. */
+const browserAppliesExifOrientation = () =>
+    typeof CSS !== 'undefined' && CSS.supports?.('image-orientation', 'from-image');
+
+const applyOrientationTransform = (ctx: CanvasRenderingContext2D, orientation: number, width: number, height: number) => {
+    switch (orientation) {
+        case 2: ctx.transform(-1, 0, 0, 1, width, 0); break;
+        case 3: ctx.transform(-1, 0, 0, -1, width, height); break;
+        case 4: ctx.transform(1, 0, 0, -1, 0, height); break;
+        case 5: ctx.transform(0, 1, 1, 0, 0, 0); break;
+        case 6: ctx.transform(0, 1, -1, 0, height, 0); break;
+        case 7: ctx.transform(0, -1, -1, 0, height, width); break;
+        case 8: ctx.transform(0, -1, 1, 0, 0, width); break;
+    }
+};
+
+// --- Decoding ---
+const decodeImage = async (file: File): Promise<HTMLImageElement> => {
+    const url = URL.createObjectURL(file);
+    try {
+        const img = new Image();
+        img.src = url;
+        await img.decode();
+        return img;
+    } catch {
+        const isHeic = /image\/hei[cf]/.test(resolveMimeType(file));
+        throw new ImagePreprocessError(isHeic ? t('upload.error.heic') : t('upload.error.unreadable', { name: file.name }));
+    } finally {
+        URL.revokeObjectURL(url);
+    }
+};
+
+/** Validates, decodes and orients a dropped file into a working canvas. */
+export const loadSourcePhoto = async (file: File, options: PreprocessOptions = DEFAULT_PREPROCESS_OPTIONS): Promise<SourcePhoto> => {
+    validateFile(file, options);
+    const img = await decodeImage(file);
+
+    const orientation = browserAppliesExifOrientation() ? 1 : readExifOrientation(await file.arrayBuffer());
+    const swapsAxes = orientation >= 5;
+    const orientedWidth = swapsAxes ? img.naturalHeight : img.naturalWidth;
+    const orientedHeight = swapsAxes ? img.naturalWidth : img.naturalHeight;
+    if (Math.min(orientedWidth, orientedHeight) < options.minDimension) {
+        throw new ImagePreprocessError(t('upload.error.tooSmall', {
+            width: orientedWidth, height: orientedHeight, min: options.minDimension,
+        }));
+    }
+
+    const scale = Math.min(1, MAX_WORKING_DIMENSION / Math.max(orientedWidth, orientedHeight));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(orientedWidth * scale);
+    canvas.height = Math.round(orientedHeight * scale);
+    const ctx = canvas.getContext('2d')!;
+    ctx.scale(scale, scale);
+    applyOrientationTransform(ctx, orientation, img.naturalWidth, img.naturalHeight);
+    ctx.drawImage(img, 0, 0);
+
+    return {
+        canvas,
+        fileName: file.name.split('.').slice(0, -1).join('.') || file.name,
+        originalMimeType: resolveMimeType(file),
+        originalBytes: file.size,
+    };
+};
+
+// --- Face Detection ---
+type DetectedFace = { boundingBox: DOMRectReadOnly };
+type FaceDetectorConstructor = new (options?: { fastMode?: boolean; maxDetectedFaces?: number }) => {
+    detect(image: CanvasImageSource): Promise<DetectedFace[]>;
+};
+
+const getFaceDetector = (): FaceDetectorConstructor | undefined =>
+    (globalThis as unknown as { FaceDetector?: FaceDetectorConstructor }).FaceDetector;
+
+/** Whether the browser ships the Shape Detection API's on-device face detector. */
+export const isFaceDetectionAvailable = () => getFaceDetector() !== undefined;
+
+/** Grows a face box into a head-and-shoulders portrait crop, clamped to the photo. */
+export const expandFaceBox = (face: CropRect, imageWidth: number, imageHeight: number, margin = 0.9): CropRect => {
+    const size = Math.min(Math.max(face.width, face.height) * (1 + margin * 2), imageWidth, imageHeight);
+    const centerX = face.x + face.width / 2;
+    const centerY = face.y + face.height / 2 + face.height * 0.1;
+    const x = Math.min(Math.max(0, centerX - size / 2), imageWidth - size);
+    const y = Math.min(Math.max(0, centerY - size / 2), imageHeight - size);
+    return { x: Math.round(x), y: Math.round(y), width: Math.round(size), height: Math.round(size) };
+};
+
+/**
+ * Finds every face with the local detector, as portrait crops ordered left to right.
+ * Returns an empty list when none is found or no detector exists.
+ */
+export const detectFaceCrops = async (photo: SourcePhoto, maxFaces = 10): Promise<CropRect[]> => {
+    const Detector = getFaceDetector();
+    if (!Detector) return [];
+    try {
+        const faces = await new Detector({ fastMode: true, maxDetectedFaces: maxFaces }).detect(photo.canvas);
+        return faces
+            .map(face => face.boundingBox)
+            .sort((a, b) => a.x - b.x)
+            .map(box => expandFaceBox({ x: box.x, y: box.y, width: box.width, height: box.height }, photo.canvas.width, photo.canvas.height));
+    } catch (error) {
+        console.warn('Face detection failed.', error);
+        return [];
+    }
+};
+
+/** Finds the largest face with the local detector. Returns null when none is found or no detector exists. */
+export const detectFaceCrop = async (photo: SourcePhoto): Promise<CropRect | null> => {
+    const crops = await detectFaceCrops(photo, 5);
+    if (crops.length === 0) return null;
+    return crops.reduce((largest, crop) => crop.width > largest.width ? crop : largest);
+};
+
+// --- Rendering ---
+const canvasToBlob = (canvas: HTMLCanvasElement, mimeType: string, quality: number) => new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob(blob => blob ? resolve(blob) : reject(new ImagePreprocessError(t('upload.error.encode'))), mimeType, quality);
+});
+
+const blobToBase64 = (blob: Blob) => new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve((reader.result as string).split(',')[1]);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+});
+
+/** A small square JPEG of one region of the photo, for picking faces. */
+export const renderCropThumbnail = (photo: SourcePhoto, crop: CropRect, size = 96): string => {
+    const canvas = document.createElement('canvas');
+    canvas.width = size;
+    canvas.height = size;
+    const ctx = canvas.getContext('2d')!;
+    ctx.drawImage(photo.canvas, crop.x, crop.y, crop.width, crop.height, 0, 0, size, size);
+    return canvas.toDataURL('image/jpeg', 0.8);
+};
+
+/**
+ * Crops, downscales and re-encodes a source photo for the model. PNG sources stay
+ * PNG so transparency survives; everything else (including HEIC and WebP) becomes JPEG.
+ */
+export const renderProcessedImage = async (
+    photo: SourcePhoto, crop: CropRect | null, options: PreprocessOptions = DEFAULT_PREPROCESS_OPTIONS,
+): Promise<ProcessedImage> => {
+    const region = crop ?? { x: 0, y: 0, width: photo.canvas.width, height: photo.canvas.height };
+    const scale = Math.min(1, options.maxDimension / Math.max(region.width, region.height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(region.width * scale));
+    canvas.height = Math.max(1, Math.round(region.height * scale));
+    const ctx = canvas.getContext('2d')!;
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(photo.canvas, region.x, region.y, region.width, region.height, 0, 0, canvas.width, canvas.height);
+
+    const mimeType = photo.originalMimeType === 'image/png' ? 'image/png' : 'image/jpeg';
+    const blob = await canvasToBlob(canvas, mimeType, options.jpegQuality);
+    return { base64: await blobToBase64(blob), mimeType, blob, width: canvas.width, height: canvas.height };
+};
+
+// --- Pipeline ---
+/** The photo steps the app runs on an upload. A DOM emulator cannot decode images, so tests pass stubs. */
+export type ImagePipeline = {
+    loadSourcePhoto(file: File): Promise<SourcePhoto>;
+    detectFaceCrop(photo: SourcePhoto): Promise<CropRect | null>;
+    detectFaceCrops(photo: SourcePhoto): Promise<CropRect[]>;
+    renderProcessedImage(photo: SourcePhoto, crop: CropRect | null): Promise<ProcessedImage>;
+};
+
+export const browserImagePipeline: ImagePipeline = { loadSourcePhoto, detectFaceCrop, detectFaceCrops, renderProcessedImage };
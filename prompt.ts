@@ -0,0 +1,149 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Appearance, buildAppearanceInstructions } from "./appearance";
+import { LifestyleFactors, buildLifestyleInstructions } from "./factors";
+import { DEFAULT_LOCALE, Locale, MessageKey, formatNumber, t, translate } from "./i18n";
+import { TimelinePoint } from "./types";
+
+// --- Type Definitions ---
+/**
+ * A prompt with `{placeholder}` slots that are filled in for every age on the timeline.
+ * Its name and description come from the catalogs as `template.<id>.name` and `.description`.
+ */
+export type PromptTemplate = {
+    id: string;
+    /** Bumped on every saved edit and recorded on each `ResultCard` generated from the template. */
+    version: number;
+    body: string;
+};
+
+export type PromptPlaceholder = 'currentAge' | 'age' | 'year' | 'target' | 'ageInstruction' | 'factors';
+
+export const PROMPT_PLACEHOLDERS: readonly PromptPlaceholder[] = ['currentAge', 'age', 'year', 'target', 'ageInstruction', 'factors'];
+
+// --- Presets ---
+const PRESET_IDS = ['flattering', 'realistic', 'medical', 'background-removed'] as const;
+
+export const DEFAULT_TEMPLATE_ID = 'flattering';
+
+/** The presets written in `locale`, the prompt language. */
+export const getPresetTemplates = (locale: Locale = DEFAULT_LOCALE): PromptTemplate[] =>
+    PRESET_IDS.map(id => ({ id, version: 1, body: translate(locale, `prompt.preset.${id}.body`) }));
+
+export const getPresetTemplate = (id: string, locale: Locale = DEFAULT_LOCALE): PromptTemplate | undefined =>
+    getPresetTemplates(locale).find(preset => preset.id === id);
+
+export const getTemplateName = (id: string) => t(`template.${id}.name` as MessageKey);
+
+export const getTemplateDescription = (id: string) => t(`template.${id}.description` as MessageKey);
+
+/** Whether a template's text differs from the preset it started from in `locale`. */
+export const isTemplateModified = (template: PromptTemplate, locale: Locale = DEFAULT_LOCALE) =>
+    getPresetTemplate(template.id, locale)?.body !== template.body;
+
+// --- Rendering ---
+const PLACEHOLDER_PATTERN = /\{(\w+)\}/g;
+
+/** Placeholder names in `body` that will not be filled in, so they would reach the model verbatim. */
+export const findUnknownPlaceholders = (body: string): string[] => {
+    const names = [...body.matchAll(PLACEHOLDER_PATTERN)].map(match => match[1]);
+    return [...new Set(names.filter(name => !PROMPT_PLACEHOLDERS.includes(name as PromptPlaceholder)))];
+};
+
+const getPlaceholderValues = (
+    point: TimelinePoint, currentAge: number, factors: LifestyleFactors, locale: Locale,
+): Record<PromptPlaceholder, string> => {
+    const isYounger = point.age < currentAge;
+    const params = { age: point.age, year: point.year, years: Math.abs(point.age - currentAge) };
+    const lifestyle = buildLifestyleInstructions(factors, locale);
+    return {
+        currentAge: formatNumber(currentAge, locale),
+        age: formatNumber(point.age, locale),
+        year: formatNumber(point.year, locale),
+        target: translate(locale, isYounger ? 'prompt.target.younger' : 'prompt.target.older', params),
+        ageInstruction: translate(locale, isYounger ? 'prompt.ageInstruction.younger' : 'prompt.ageInstruction.older', params),
+        factors: isYounger ? `${lifestyle}\n${translate(locale, 'prompt.factors.younger', params)}` : lifestyle,
+    };
+};
+
+/** Fills a template's placeholders for one point on the timeline, in `locale`. Unknown placeholders are left as written. */
+export const renderPromptTemplate = (
+    template: Pick<PromptTemplate, 'body'>, point: TimelinePoint, currentAge: number, factors: LifestyleFactors,
+    locale: Locale = DEFAULT_LOCALE,
+): string => {
+    const values = getPlaceholderValues(point, currentAge, factors, locale);
+    return template.body.replace(PLACEHOLDER_PATTERN, (match, name: string) =>
+        Object.hasOwn(values, name) ? values[name as PromptPlaceholder] : match);
+};
+
+/** Where a progressive step starts: the age shown in its input image, and whether the upload rides along. */
+export type PromptSource = {
+    age: number;
+    hasIdentityReference: boolean;
+};
+
+const buildChainingInstructions = (source: PromptSource, currentAge: number, locale: Locale): string => {
+    const lines = [translate(locale, 'prompt.continuity', { age: source.age })];
+    if (source.hasIdentityReference) lines.push(translate(locale, 'prompt.identityReference', { currentAge }));
+    return lines.join('\n');
+};
+
+/**
+ * Builds the prompt for one point in the prompt language `locale`. With a `source`, the
+ * template is rendered relative to the age in the source image and continuity
+ * instructions are appended. Appearance choices come last, so they override both.
+ */
+export const createPrompt = (
+    point: TimelinePoint, currentAge: number, factors: LifestyleFactors,
+    template: Pick<PromptTemplate, 'body'> = getPresetTemplate(DEFAULT_TEMPLATE_ID)!,
+    source?: PromptSource, locale: Locale = DEFAULT_LOCALE, appearance?: Appearance,
+): string => [
+    renderPromptTemplate(template, point, source ? source.age : currentAge, factors, locale),
+    source ? buildChainingInstructions(source, currentAge, locale) : null,
+    buildAppearanceInstructions(appearance, locale),
+].filter(part => part !== null).join('\n');
+
+// --- Persistence ---
+const STORAGE_KEY = 'timemirror.promptTemplates';
+
+export type PromptSettings = {
+    promptTemplates: PromptTemplate[];
+    activeTemplateId: string;
+};
+
+export const getDefaultPromptSettings = (locale: Locale = DEFAULT_LOCALE): PromptSettings => ({
+    promptTemplates: getPresetTemplates(locale),
+    activeTemplateId: DEFAULT_TEMPLATE_ID,
+});
+
+/** Restores edited templates from this browser; presets added since they were saved come back in `locale`. */
+export const loadPromptSettings = (locale: Locale = DEFAULT_LOCALE): PromptSettings => {
+    const defaults = getDefaultPromptSettings(locale);
+    try {
+        const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null') as Partial<PromptSettings> | null;
+        if (!saved?.promptTemplates) return defaults;
+        const promptTemplates = defaults.promptTemplates.map(preset => {
+            const template = saved.promptTemplates!.find(template => template.id === preset.id);
+            return template ? { id: template.id, version: template.version, body: template.body } : preset;
+        });
+        const activeTemplateId = promptTemplates.some(template => template.id === saved.activeTemplateId)
+            ? saved.activeTemplateId!
+            : defaults.activeTemplateId;
+        return { promptTemplates, activeTemplateId };
+    } catch (error) {
+        console.warn('Could not restore prompt templates; using the presets.', error);
+        return defaults;
+    }
+};
+
+export const savePromptSettings = (settings: PromptSettings) => {
+    try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+    } catch (error) {
+        console.warn('Could not save prompt templates.', error);
+    }
+};
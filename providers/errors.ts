@@ -0,0 +1,46 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { ProviderId } from "./types";
+
+// --- Type Definitions ---
+export type GenerationErrorReason =
+    | 'safety'            // The request or its output was blocked by a safety filter.
+    | 'text-only'         // The model answered with text but no image.
+    | 'rate-limit'        // Quota exhausted or too many requests.
+    | 'auth'              // Missing, invalid or unauthorized API key.
+    | 'network'           // The service could not be reached.
+    | 'server'            // The service failed or is temporarily unavailable.
+    | 'unsupported-image' // The source image was rejected or could not be decoded.
+    | 'unknown';
+
+const RETRYABLE_REASONS: ReadonlySet<GenerationErrorReason> = new Set(['rate-limit', 'network', 'server']);
+
+export class AgingProviderError extends Error {
+    /** Any text the model returned instead of an image. */
+    readonly modelText?: string;
+    /** Whether the same request may succeed if sent again later (rate limits, outages). */
+    readonly retryable: boolean;
+    /** How long the provider asked to wait before sending it again, from a `Retry-After` header. */
+    readonly retryAfterMs?: number;
+
+    constructor(
+        message: string,
+        readonly providerId: ProviderId,
+        readonly reason: GenerationErrorReason = 'unknown',
+        options: { cause?: unknown; modelText?: string; retryable?: boolean; retryAfterMs?: number } = {},
+    ) {
+        super(message);
+        this.name = 'AgingProviderError';
+        this.cause = options.cause;
+        this.modelText = options.modelText;
+        this.retryable = options.retryable ?? RETRYABLE_REASONS.has(reason);
+        this.retryAfterMs = options.retryAfterMs;
+    }
+}
+
+export const getErrorReason = (error: unknown): GenerationErrorReason =>
+    error instanceof AgingProviderError ? error.reason : 'unknown';
@@ -0,0 +1,102 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { GenerateContentResponse, GoogleGenAI, Modality } from "@google/genai";
+import { AgingProviderError, GenerationErrorReason } from "./errors";
+import { AgingProvider, AgingRequest, AgingResult, throwIfAborted } from "./types";
+
+export const DEFAULT_GEMINI_MODEL = 'gemini-2.5-flash-image-preview';
+
+const SAFETY_FINISH_REASONS = new Set(['SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII', 'IMAGE_SAFETY', 'IMAGE_PROHIBITED_CONTENT']);
+
+/** The SDK reports HTTP failures only through the message, e.g. "got status: 429 Too Many Requests. {...}". */
+const getHttpStatus = (error: unknown): number | null => {
+    const match = error instanceof Error ? /got status: (\d{3})/.exec(error.message) : null;
+    return match ? Number(match[1]) : null;
+};
+
+const classifyRequestError = (error: unknown): GenerationErrorReason => {
+    // fetch() rejects with a TypeError when the network is unreachable.
+    if (error instanceof TypeError) return 'network';
+    const status = getHttpStatus(error);
+    const message = error instanceof Error ? error.message : String(error);
+    if (status === 429 || /RESOURCE_EXHAUSTED|quota/i.test(message)) return 'rate-limit';
+    if (status === 401 || status === 403 || /API[_ ]key/i.test(message)) return 'auth';
+    if (status === 400 && /image|mime/i.test(message)) return 'unsupported-image';
+    if (status === 408 || (status !== null && status >= 500)) return 'server';
+    return 'unknown';
+};
+
+/** Explains a response that carries no image: a safety block, a text-only reply or an empty answer. */
+const classifyMissingImage = (response: GenerateContentResponse, providerId: 'gemini'): AgingProviderError => {
+    const candidate = response.candidates?.[0];
+    const modelText = (candidate?.content?.parts ?? [])
+        .map(part => part.text?.trim())
+        .filter(Boolean)
+        .join('\n') || undefined;
+
+    const blockReason = response.promptFeedback?.blockReason;
+    if (blockReason) {
+        return new AgingProviderError(`The request was blocked (${blockReason}).`, providerId, 'safety', { modelText });
+    }
+    const finishReason = candidate?.finishReason;
+    if (finishReason && SAFETY_FINISH_REASONS.has(finishReason)) {
+        return new AgingProviderError(`The image was withheld (${finishReason}).`, providerId, 'safety', { modelText });
+    }
+    if (modelText) {
+        return new AgingProviderError('The model replied with text instead of an image.', providerId, 'text-only', { modelText });
+    }
+    return new AgingProviderError('The model did not return an image.', providerId, 'unknown', { retryable: true });
+};
+
+export class GeminiProvider implements AgingProvider {
+    readonly id = 'gemini';
+    private readonly ai: GoogleGenAI;
+
+    constructor(apiKey: string | undefined, readonly model: string = DEFAULT_GEMINI_MODEL) {
+        this.ai = new GoogleGenAI({ apiKey });
+    }
+
+    async generate(request: AgingRequest): Promise<AgingResult> {
+        let response: GenerateContentResponse;
+        try {
+            response = await this.ai.models.generateContent({
+                model: this.model,
+                contents: {
+                    parts: [
+                        { inlineData: { data: request.image.base64, mimeType: request.image.mimeType } },
+                        ...(request.referenceImage
+                            ? [{ inlineData: { data: request.referenceImage.base64, mimeType: request.referenceImage.mimeType } }]
+                            : []),
+                        { text: request.prompt },
+                    ],
+                },
+                config: {
+                    responseModalities: [Modality.IMAGE, Modality.TEXT],
+                    seed: request.seed,
+                    temperature: request.temperature,
+                    abortSignal: request.signal,
+                },
+            });
+        } catch (error) {
+            throwIfAborted(request.signal);
+            const message = error instanceof Error ? error.message : String(error);
+            throw new AgingProviderError(message, this.id, classifyRequestError(error), { cause: error });
+        }
+
+        const usage = response.usageMetadata && {
+            promptTokens: response.usageMetadata.promptTokenCount,
+            outputTokens: response.usageMetadata.candidatesTokenCount,
+            totalTokens: response.usageMetadata.totalTokenCount,
+        };
+        for (const part of response.candidates?.[0]?.content?.parts ?? []) {
+            if (part.inlineData?.data) {
+                return { base64: part.inlineData.data, mimeType: part.inlineData.mimeType || 'image/png', usage };
+            }
+        }
+        throw classifyMissingImage(response, this.id);
+    }
+}
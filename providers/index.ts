@@ -0,0 +1,50 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { GeminiProvider } from "./gemini";
+import { MockProvider } from "./mock";
+import { ProxyProvider } from "./proxy";
+import { AgingProvider, ProviderId } from "./types";
+
+export * from "./errors";
+export * from "./proxy";
+export * from "./types";
+
+export type ProviderConfig = {
+    provider: ProviderId;
+    model?: string;
+    apiKey?: string;
+    /** Where the proxy server runs in `proxy` mode; empty for the page's own origin. */
+    proxyUrl?: string;
+};
+
+const PROVIDER_IDS: readonly ProviderId[] = ['gemini', 'mock', 'proxy'];
+
+export const isProviderId = (value: string | undefined): value is ProviderId =>
+    PROVIDER_IDS.includes(value as ProviderId);
+
+/**
+ * Reads the provider selection that `vite.config.ts` injects from the environment.
+ * In `proxy` mode the API key is not injected at all; the proxy server holds it.
+ */
+export const getProviderConfig = (): ProviderConfig => ({
+    provider: isProviderId(process.env.AGING_PROVIDER) ? process.env.AGING_PROVIDER : 'gemini',
+    model: process.env.AGING_MODEL || undefined,
+    apiKey: process.env.API_KEY || undefined,
+    proxyUrl: process.env.AGING_PROXY_URL || '',
+});
+
+export const createProvider = (config: ProviderConfig): AgingProvider => {
+    switch (config.provider) {
+        case 'mock':
+            return new MockProvider(config.model);
+        case 'proxy':
+            return new ProxyProvider(config.proxyUrl, config.model);
+        case 'gemini':
+        default:
+            return new GeminiProvider(config.apiKey, config.model);
+    }
+};
@@ -0,0 +1,72 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { AgingProviderError } from "./errors";
+import { AgingProvider, AgingRequest, AgingResult, createAbortError, throwIfAborted } from "./types";
+
+const loadImage = (src: string): Promise<HTMLImageElement> => new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error('Could not decode the source image.'));
+    img.src = src;
+});
+
+const delay = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+        clearTimeout(timer);
+        reject(createAbortError());
+    }, { once: true });
+});
+
+/**
+ * Offline provider for development and tests. It never calls a network service:
+ * the source photo is returned with a grey/sepia tint that deepens with the
+ * target age, so the same input always produces the same output. Where a canvas
+ * is unavailable the source image is returned unchanged.
+ */
+export class MockProvider implements AgingProvider {
+    readonly id = 'mock';
+
+    constructor(readonly model: string = 'mock-tint', private readonly latencyMs = 600) {}
+
+    async generate(request: AgingRequest): Promise<AgingResult> {
+        throwIfAborted(request.signal);
+        if (this.latencyMs > 0) await delay(this.latencyMs, request.signal);
+
+        const canvas = typeof document !== 'undefined' ? document.createElement('canvas') : null;
+        const ctx = canvas?.getContext('2d');
+        if (!canvas || !ctx) return { base64: request.image.base64, mimeType: request.image.mimeType };
+
+        let img: HTMLImageElement;
+        try {
+            img = await loadImage(`data:${request.image.mimeType};base64,${request.image.base64}`);
+        } catch (error) {
+            throw new AgingProviderError('Could not decode the source image.', this.id, 'unsupported-image', { cause: error });
+        }
+
+        throwIfAborted(request.signal);
+
+        const strength = Math.min(1, Math.max(0, (request.age - 20) / 70));
+        canvas.width = img.naturalWidth;
+        canvas.height = img.naturalHeight;
+        // A seed shifts the hue a little, so variations differ while the same seed repeats exactly.
+        const hue = request.seed === undefined ? 0 : (request.seed % 41) - 20;
+        ctx.filter = `grayscale(${strength * 0.7}) sepia(${strength * 0.5}) contrast(${1 + strength * 0.15}) hue-rotate(${hue}deg)`;
+        ctx.drawImage(img, 0, 0);
+        ctx.filter = 'none';
+
+        const fontSize = Math.max(14, Math.round(canvas.width / 14));
+        ctx.font = `600 ${fontSize}px sans-serif`;
+        ctx.fillStyle = 'rgba(0, 0, 0, 0.55)';
+        ctx.fillRect(0, canvas.height - fontSize * 1.8, canvas.width, fontSize * 1.8);
+        ctx.fillStyle = '#e6d3b3';
+        ctx.textAlign = 'center';
+        ctx.fillText(`Age ${request.age} · ${request.year}`, canvas.width / 2, canvas.height - fontSize * 0.6);
+
+        return { base64: canvas.toDataURL('image/png').split(',')[1], mimeType: 'image/png' };
+    }
+}
@@ -0,0 +1,126 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { AgingProviderError, GenerationErrorReason } from "./errors";
+import { AgingProvider, AgingRequest, AgingResult, SourceImage, throwIfAborted } from "./types";
+
+export const AGE_ENDPOINT = '/api/age';
+
+// --- Wire Format ---
+/** The JSON body the client posts to the proxy's `/api/age` endpoint. */
+export type ProxyAgingRequest = Omit<AgingRequest, 'signal'>;
+
+export type ProxyAgingResponse = AgingResult & {
+    /** The model the server generated the image with. */
+    model: string;
+};
+
+export type ProxyErrorResponse = {
+    error: {
+        reason: GenerationErrorReason;
+        message: string;
+        modelText?: string;
+        retryable: boolean;
+    };
+};
+
+const isSourceImage = (value: unknown): value is SourceImage => {
+    const image = value as SourceImage;
+    return typeof image?.base64 === 'string' && image.base64.length > 0
+        && typeof image.mimeType === 'string' && image.mimeType.startsWith('image/');
+};
+
+/** Checks a decoded request body; returns why it is invalid, or null when it can be sent upstream. */
+export const validateProxyRequest = (body: unknown): string | null => {
+    const request = body as ProxyAgingRequest;
+    if (typeof request !== 'object' || request === null) return 'The request body must be a JSON object.';
+    if (typeof request.prompt !== 'string' || !request.prompt.trim()) return '"prompt" must be a non-empty string.';
+    if (!isSourceImage(request.image)) return '"image" must have a base64 "base64" and an image "mimeType".';
+    if (request.referenceImage !== undefined && !isSourceImage(request.referenceImage)) {
+        return '"referenceImage" must have a base64 "base64" and an image "mimeType".';
+    }
+    if (!Number.isFinite(request.age) || !Number.isFinite(request.year)) return '"age" and "year" must be numbers.';
+    if (request.seed !== undefined && !Number.isInteger(request.seed)) return '"seed" must be an integer.';
+    if (request.temperature !== undefined && !Number.isFinite(request.temperature)) return '"temperature" must be a number.';
+    return null;
+};
+
+/** How an HTTP status without a readable error body is classified. */
+const classifyStatus = (status: number): GenerationErrorReason => {
+    if (status === 429) return 'rate-limit';
+    if (status === 401 || status === 403) return 'auth';
+    if (status === 413 || status === 415) return 'unsupported-image';
+    if (status === 408 || status >= 500) return 'server';
+    return 'unknown';
+};
+
+/** Reads a `Retry-After` header, given in seconds or as an HTTP date, as milliseconds from now. */
+export const parseRetryAfter = (value: string | null, now = Date.now()): number | undefined => {
+    if (!value?.trim()) return undefined;
+    const seconds = Number(value);
+    const ms = Number.isFinite(seconds) ? seconds * 1000 : Date.parse(value) - now;
+    return Number.isFinite(ms) ? Math.max(0, ms) : undefined;
+};
+
+const readError = async (response: Response): Promise<ProxyErrorResponse['error'] | null> => {
+    try {
+        const body = await response.json() as Partial<ProxyErrorResponse>;
+        return typeof body.error?.message === 'string' ? body.error : null;
+    } catch {
+        return null;
+    }
+};
+
+// --- Provider ---
+/**
+ * Sends requests to the TimeMirror proxy server, which holds the API key and calls
+ * the real provider. Errors the server classified keep their reason; anything else
+ * is classified from the HTTP status.
+ */
+export class ProxyProvider implements AgingProvider {
+    readonly id = 'proxy';
+    /** The server's model, known after the first successful response. */
+    model: string;
+
+    constructor(private readonly baseUrl = '', model?: string) {
+        this.model = model || 'proxy';
+    }
+
+    async generate(request: AgingRequest): Promise<AgingResult> {
+        const { signal, ...body } = request;
+        let response: Response;
+        try {
+            response = await fetch(`${this.baseUrl.replace(/\/$/, '')}${AGE_ENDPOINT}`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify(body satisfies ProxyAgingRequest),
+                signal,
+            });
+        } catch (error) {
+            throwIfAborted(signal);
+            throw new AgingProviderError('The proxy server could not be reached.', this.id, 'network', { cause: error });
+        }
+
+        if (!response.ok) {
+            const error = await readError(response);
+            throwIfAborted(signal);
+            throw new AgingProviderError(
+                error?.message ?? `The proxy server answered with status ${response.status}.`,
+                this.id,
+                error?.reason ?? classifyStatus(response.status),
+                {
+                    modelText: error?.modelText,
+                    retryable: error?.retryable,
+                    retryAfterMs: parseRetryAfter(response.headers.get('Retry-After')),
+                },
+            );
+        }
+
+        const result = await response.json() as ProxyAgingResponse;
+        if (result.model) this.model = result.model;
+        return { base64: result.base64, mimeType: result.mimeType, usage: result.usage };
+    }
+}
@@ -0,0 +1,63 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// --- Type Definitions ---
+export type ProviderId = 'gemini' | 'mock' | 'proxy';
+
+export type SourceImage = {
+    base64: string;
+    mimeType: string;
+};
+
+export type AgingRequest = {
+    prompt: string;
+    /** The portrait to age: the upload, or in progressive mode the previous step's output. */
+    image: SourceImage;
+    /** The original upload, attached as an identity reference when `image` is a generated step. */
+    referenceImage?: SourceImage;
+    age: number;
+    year: number;
+    /** Asks for the same image from the same inputs. Providers whose model takes no seed ignore it. */
+    seed?: number;
+    /** Sampling temperature; unset leaves the model's default. */
+    temperature?: number;
+    signal?: AbortSignal;
+};
+
+/** Token counts as reported by the backend; any of them may be missing. */
+export type GenerationUsage = {
+    promptTokens?: number;
+    outputTokens?: number;
+    totalTokens?: number;
+};
+
+export type AgingResult = {
+    base64: string;
+    mimeType: string;
+    /** Present when the backend reports what the request consumed. */
+    usage?: GenerationUsage;
+};
+
+/**
+ * A backend that turns a source portrait and a prompt into an aged portrait.
+ * Providers own building the backend request, parsing its response and
+ * reporting failures as a classified `AgingProviderError`.
+ */
+export interface AgingProvider {
+    readonly id: ProviderId;
+    readonly model: string;
+    generate(request: AgingRequest): Promise<AgingResult>;
+}
+
+// --- Cancellation ---
+export const createAbortError = (): DOMException => new DOMException('Generation was cancelled.', 'AbortError');
+
+export const isAbortError = (error: unknown): boolean =>
+    error instanceof DOMException && error.name === 'AbortError';
+
+export const throwIfAborted = (signal?: AbortSignal) => {
+    if (signal?.aborted) throw createAbortError();
+};
@@ -0,0 +1,80 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// Keeps the app shell available offline. Pages come from the network when it is there and
+// from the cache when it is not; built assets have hashed names, so a cached copy is always
+// current. Requests to the model and the proxy are never cached.
+
+const CACHE_NAME = 'timemirror-shell-v1';
+const SHELL_URLS = ['/', '/manifest.webmanifest', '/icon.svg'];
+const FONT_HOSTS = ['fonts.googleapis.com', 'fonts.gstatic.com'];
+
+/** The scripts and stylesheets the built page links to, so they are cached before the first offline visit. */
+const findShellAssets = html => [...html.matchAll(/(?:src|href)="(\/assets\/[^"]+)"/g)].map(match => match[1]);
+
+const networkFirst = async (request, fallbackUrl) => {
+    const cache = await caches.open(CACHE_NAME);
+    try {
+        const response = await fetch(request);
+        if (response.ok) await cache.put(fallbackUrl ?? request, response.clone());
+        return response;
+    } catch (error) {
+        const cached = await cache.match(fallbackUrl ?? request);
+        if (cached) return cached;
+        throw error;
+    }
+};
+
+const cacheFirst = async request => {
+    const cache = await caches.open(CACHE_NAME);
+    const cached = await cache.match(request);
+    if (cached) return cached;
+    const response = await fetch(request);
+    // Fonts from another origin come back opaque; they are still worth keeping.
+    if (response.ok || response.type === 'opaque') await cache.put(request, response.clone());
+    return response;
+};
+
+self.addEventListener('install', event => {
+    event.waitUntil((async () => {
+        const cache = await caches.open(CACHE_NAME);
+        await cache.addAll(SHELL_URLS);
+        const page = await cache.match('/');
+        if (page) await cache.addAll(findShellAssets(await page.text()));
+        await self.skipWaiting();
+    })());
+});
+
+self.addEventListener('activate', event => {
+    event.waitUntil((async () => {
+        const names = await caches.keys();
+        await Promise.all(names.filter(name => name !== CACHE_NAME).map(name => caches.delete(name)));
+        await self.clients.claim();
+    })());
+});
+
+self.addEventListener('fetch', event => {
+    const { request } = event;
+    if (request.method !== 'GET') return;
+    const url = new URL(request.url);
+    const isSameOrigin = url.origin === self.location.origin;
+    if (isSameOrigin && url.pathname.startsWith('/api/')) return;
+
+    // Every page is the same single-page app, so any navigation can fall back to the cached shell.
+    if (request.mode === 'navigate') event.respondWith(networkFirst(request, '/'));
+    else if ((isSameOrigin && url.pathname.startsWith('/assets/')) || FONT_HOSTS.includes(url.hostname)) event.respondWith(cacheFirst(request));
+    else if (isSameOrigin) event.respondWith(networkFirst(request));
+});
+
+// Clicking the "timeline is ready" notification brings the app back to the front.
+self.addEventListener('notificationclick', event => {
+    event.notification.close();
+    event.waitUntil((async () => {
+        const [client] = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+        if (client) await client.focus();
+        else await self.clients.openWindow('/');
+    })());
+});
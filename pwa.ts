@@ -0,0 +1,49 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// --- Service Worker ---
+/**
+ * Registers `public/sw.js`, which keeps the app shell available offline. Only built apps
+ * register it: in development Vite serves modules that must never come from a cache.
+ */
+export const registerServiceWorker = () => {
+    if (!('serviceWorker' in navigator)) return;
+    window.addEventListener('load', () => {
+        navigator.serviceWorker.register('/sw.js')
+            .catch(error => console.warn('Could not register the service worker:', error));
+    }, { once: true });
+};
+
+// --- Notifications ---
+/** Tells the user about finished work while they are in another tab or app; the controller takes a fake one in tests. */
+export type Notifier = {
+    /** Asks for permission the first time. Call it from a click, or browsers skip the prompt. */
+    requestPermission(): void;
+    notify(title: string, body: string): void;
+};
+
+const isNotificationSupported = () => typeof Notification !== 'undefined';
+
+const showNotification = async (title: string, options: NotificationOptions) => {
+    // Mobile browsers only show notifications through the service worker.
+    const registration = await navigator.serviceWorker?.getRegistration();
+    if (registration) await registration.showNotification(title, options);
+    else new Notification(title, options);
+};
+
+/** Shows notifications only while the page is hidden, and only once the user has allowed them. */
+export const browserNotifier: Notifier = {
+    requestPermission: () => {
+        if (!isNotificationSupported() || Notification.permission !== 'default') return;
+        Notification.requestPermission()
+            .catch(error => console.warn('Could not ask for permission to notify:', error));
+    },
+    notify: (title, body) => {
+        if (!isNotificationSupported() || Notification.permission !== 'granted' || !document.hidden) return;
+        showNotification(title, { body, icon: '/icon.svg', tag: 'timemirror-run' })
+            .catch(error => console.warn('Could not show a notification:', error));
+    },
+};
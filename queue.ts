@@ -0,0 +1,104 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { AgingProviderError, createAbortError, isAbortError, throwIfAborted } from "./providers";
+
+// --- Type Definitions ---
+export type QueueConfig = {
+    concurrency: number;
+    maxRetries: number;
+    baseDelayMs: number;
+    maxDelayMs: number;
+};
+
+export type RetryOptions = Omit<QueueConfig, 'concurrency'> & {
+    /** Called before each retry with the upcoming attempt number (2 for the first retry). */
+    onRetry?: (attempt: number, error: unknown) => void;
+    signal?: AbortSignal;
+};
+
+const readInt = (value: string | undefined, fallback: number, min: number): number => {
+    const parsed = parseInt(value ?? '', 10);
+    return Number.isInteger(parsed) && parsed >= min ? parsed : fallback;
+};
+
+/** Reads the queue limits that `vite.config.ts` injects from the environment. */
+export const getQueueConfig = (): QueueConfig => ({
+    concurrency: readInt(process.env.AGING_CONCURRENCY, 2, 1),
+    maxRetries: readInt(process.env.AGING_MAX_RETRIES, 3, 0),
+    baseDelayMs: 1000,
+    maxDelayMs: 16000,
+});
+
+// --- Queue ---
+/**
+ * Runs async tasks in FIFO order with at most `concurrency` of them in flight.
+ * A task whose signal is aborted while it waits is rejected without being started.
+ */
+export class RequestQueue {
+    private active = 0;
+    private readonly pending: (() => void)[] = [];
+
+    constructor(private readonly concurrency: number) {}
+
+    run<T>(task: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+        return new Promise<T>((resolve, reject) => {
+            this.pending.push(() => {
+                if (signal?.aborted) {
+                    reject(createAbortError());
+                    this.next();
+                    return;
+                }
+                this.active++;
+                task().then(resolve, reject).finally(() => {
+                    this.active--;
+                    this.next();
+                });
+            });
+            this.next();
+        });
+    }
+
+    private next() {
+        while (this.active < this.concurrency && this.pending.length > 0) {
+            this.pending.shift()!();
+        }
+    }
+}
+
+// --- Retries ---
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+        clearTimeout(timer);
+        reject(createAbortError());
+    }, { once: true });
+});
+
+export const isRetryableError = (error: unknown): boolean =>
+    error instanceof AgingProviderError && error.retryable;
+
+/** Exponential backoff with full jitter, capped at `maxDelayMs`. */
+export const getBackoffDelay = (retry: number, options: Pick<RetryOptions, 'baseDelayMs' | 'maxDelayMs'>): number =>
+    Math.random() * Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** retry);
+
+/** The wait the provider asked for before a retry, if any. */
+const getRetryAfter = (error: unknown): number =>
+    error instanceof AgingProviderError ? error.retryAfterMs ?? 0 : 0;
+
+/** Retries transient failures with backoff, waiting at least as long as the provider asked to. */
+export const withRetry = async <T>(task: () => Promise<T>, options: RetryOptions): Promise<T> => {
+    for (let retry = 0; ; retry++) {
+        throwIfAborted(options.signal);
+        try {
+            return await task();
+        } catch (error) {
+            if (isAbortError(error) || retry >= options.maxRetries || !isRetryableError(error)) throw error;
+            options.onRetry?.(retry + 2, error);
+            await sleep(Math.max(getBackoffDelay(retry, options), getRetryAfter(error)), options.signal);
+        }
+    }
+};
@@ -0,0 +1,163 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describeAppearance } from "./appearance";
+import { ExportPerson, ExportSource } from "./exporters";
+import { FACTOR_REGISTRY, describeFactor, getFactorLabel } from "./factors";
+import { formatDateTime, formatNumber, getUiLocale, t } from "./i18n";
+import { getErrorExplanation } from "./messages";
+import { getTemplateName } from "./prompt";
+import { ResultCard, Scenario } from "./types";
+
+// --- Helpers ---
+const escapeHtml = (text: string) => text.replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`);
+
+/** Only inline images go into the report, so it never loads anything when opened. */
+const isInlineImage = (url: string | null | undefined): url is string => !!url && /^data:image\/[a-z+.-]+;base64,/i.test(url);
+
+/** "Realistic (version 2)", for every template the scenario's cards were generated with. */
+const describeTemplates = (cards: ResultCard[]): string => {
+    const templates = new Map(cards
+        .filter(card => card.templateId)
+        .map(card => [`${card.templateId}@${card.templateVersion}`, card]));
+    return [...templates.values()]
+        .map(card => t('report.templateVersion', { name: getTemplateName(card.templateId!), version: card.templateVersion ?? 1 }))
+        .join(', ') || '—';
+};
+
+// --- Sections ---
+const renderFactors = (scenario: Scenario) => `
+    <table class="factors">
+        <thead><tr><th scope="col">${escapeHtml(t('report.factor'))}</th><th scope="col">${escapeHtml(t('report.value'))}</th></tr></thead>
+        <tbody>${FACTOR_REGISTRY.map(factor => `
+            <tr>
+                <th scope="row">${escapeHtml(getFactorLabel(factor))}</th>
+                <td>${formatNumber(scenario.factors[factor.id])} / ${formatNumber(factor.max)} · ${escapeHtml(describeFactor(factor, scenario.factors[factor.id]))}</td>
+            </tr>`).join('')}
+        </tbody>
+    </table>`;
+
+const renderCard = (person: ExportPerson, card: ResultCard) => {
+    const appearance = describeAppearance(card.appearance);
+    const caption = `<figcaption><strong>${escapeHtml(t('card.age', { age: card.age }))}</strong> · ${formatNumber(card.year)}${
+        appearance.length ? `<span class="appearance">${escapeHtml(appearance.join(' · '))}</span>` : ''}</figcaption>`;
+    if (card.status === 'success' && isInlineImage(card.imageUrl)) {
+        const alt = t('card.alt', { person: person.name, age: card.age, year: card.year });
+        return `<figure class="tile"><img src="${escapeHtml(card.imageUrl)}" alt="${escapeHtml(alt)}">${caption}</figure>`;
+    }
+    const note = card.status === 'error' ? getErrorExplanation(card.errorReason).title : t('card.notGenerated');
+    return `<figure class="tile is-missing"><div class="placeholder">${escapeHtml(note)}</div>${caption}</figure>`;
+};
+
+const renderScenario = (source: ExportSource, person: ExportPerson, scenario: Scenario) => {
+    const cards = source.cards.filter(card => card.scenarioId === scenario.id).sort((a, b) => a.age - b.age);
+    if (cards.length === 0) return '';
+    return `
+    <section class="scenario">
+        ${person.scenarios.length > 1 ? `<h3>${escapeHtml(scenario.name)}</h3>` : ''}
+        <p class="meta">${escapeHtml(t('report.template'))}: ${escapeHtml(describeTemplates(cards))}</p>
+        <div class="tiles">${cards.map(card => renderCard(person, card)).join('')}</div>
+        ${renderFactors(scenario)}
+    </section>`;
+};
+
+const renderPerson = (source: ExportSource, person: ExportPerson) => `
+    <section class="person">
+        <div class="person-header">
+            ${isInlineImage(person.photoUrl)
+                ? `<img class="original" src="${escapeHtml(person.photoUrl)}" alt="${escapeHtml(t('report.originalAlt', { name: person.name }))}">`
+                : ''}
+            <div>
+                <h2>${escapeHtml(person.name)}</h2>
+                <p class="meta">${escapeHtml(t('report.currentAge', { age: person.timeline.currentAge }))}</p>
+            </div>
+        </div>
+        ${person.scenarios.map(scenario => renderScenario(source, person, scenario)).join('')}
+    </section>`;
+
+const REPORT_STYLES = `
+    * { box-sizing: border-box; }
+    body { margin: 0 auto; max-width: 960px; padding: 32px 24px; font: 15px/1.5 system-ui, sans-serif; color: #1a1a1a; background: #fff; }
+    h1 { margin: 0; color: #8a6a45; }
+    h2 { margin: 0 0 4px; }
+    h3 { margin: 24px 0 4px; }
+    .meta { margin: 0; color: #555; font-size: 0.9em; }
+    .person { margin-top: 32px; padding-top: 24px; border-top: 1px solid #ddd; }
+    .person-header { display: flex; gap: 16px; align-items: center; }
+    .original { width: 120px; height: 120px; object-fit: cover; border-radius: 8px; }
+    .tiles { display: grid; grid-template-columns: repeat(auto-fill, minmax(160px, 1fr)); gap: 12px; margin: 12px 0; }
+    .tile { margin: 0; break-inside: avoid; }
+    .tile img, .placeholder { display: block; width: 100%; aspect-ratio: 1; object-fit: cover; border-radius: 8px; }
+    .placeholder { display: flex; align-items: center; justify-content: center; padding: 8px; background: #f1f1f1; color: #666; text-align: center; }
+    figcaption { margin-top: 4px; font-size: 0.9em; }
+    .appearance { display: block; color: #555; font-size: 0.9em; }
+    .factors { border-collapse: collapse; width: 100%; font-size: 0.9em; break-inside: avoid; }
+    .factors th, .factors td { padding: 4px 8px; border-bottom: 1px solid #eee; text-align: left; }
+    .disclaimer { margin-top: 32px; padding: 16px; border-radius: 8px; background: #f7f3ee; font-size: 0.9em; }
+    footer { margin-top: 16px; color: #555; font-size: 0.85em; }
+    .print-button { float: right; padding: 8px 16px; font: inherit; cursor: pointer; }
+    @page { size: A4; margin: 14mm; }
+    @media print {
+        body { padding: 0; max-width: none; font-size: 11pt; }
+        .print-button { display: none; }
+        .person { break-before: page; border-top: none; margin-top: 0; }
+        .person:first-of-type { break-before: auto; }
+    }`;
+
+// --- Report ---
+/**
+ * One self-contained HTML page with every person's original photo, the images by age
+ * and year, the factor values and prompt template behind them, and a disclaimer.
+ * Images are embedded as data URLs and nothing is loaded from elsewhere, so the page
+ * works offline and prints as an A4 PDF.
+ */
+export const buildReport = (source: ExportSource, createdAt = Date.now()): string => `<!DOCTYPE html>
+<html lang="${escapeHtml(getUiLocale())}">
+<head>
+    <meta charset="utf-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1">
+    <title>${escapeHtml(t('report.title'))}</title>
+    <style>${REPORT_STYLES}</style>
+</head>
+<body>
+    <header>
+        <button type="button" class="print-button" onclick="window.print()">${escapeHtml(t('report.print'))}</button>
+        <h1>${escapeHtml(t('report.title'))}</h1>
+        <p class="meta">${escapeHtml(t('report.created', { date: formatDateTime(createdAt) }))}</p>
+        <p class="meta">${escapeHtml(t('report.model', { provider: source.provider.id, model: source.provider.model }))}</p>
+    </header>
+    <main>${source.people.map(person => renderPerson(source, person)).join('')}
+        <aside class="disclaimer">
+            <strong>${escapeHtml(t('report.disclaimerTitle'))}</strong>
+            <p>${escapeHtml(t('report.disclaimer'))}</p>
+        </aside>
+    </main>
+    <footer>${escapeHtml(t('report.footer'))}</footer>
+</body>
+</html>
+`;
+
+export const buildReportBlob = (source: ExportSource): Blob =>
+    new Blob([buildReport(source)], { type: 'text/html;charset=utf-8' });
+
+/**
+ * Opens the browser's print dialog for a report from a hidden frame; "Save as PDF" there
+ * gives the PDF. Resolves once the dialog has been opened; the frame goes after printing.
+ */
+export const printReport = (html: string): Promise<void> => new Promise(resolve => {
+    const frame = document.createElement('iframe');
+    frame.className = 'visually-hidden';
+    frame.setAttribute('aria-hidden', 'true');
+    frame.tabIndex = -1;
+    frame.addEventListener('load', () => {
+        const view = frame.contentWindow!;
+        view.addEventListener('afterprint', () => frame.remove(), { once: true });
+        view.print();
+        resolve();
+    }, { once: true });
+    frame.srcdoc = html;
+    document.body.appendChild(frame);
+});
@@ -0,0 +1,192 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { createReadStream } from "node:fs";
+import { stat } from "node:fs/promises";
+import { IncomingMessage, Server, ServerResponse, createServer } from "node:http";
+import path from "node:path";
+import {
+    AGE_ENDPOINT, AgingProvider, AgingProviderError, ProxyAgingRequest, ProxyAgingResponse, ProxyErrorResponse,
+    isAbortError, validateProxyRequest,
+} from "../providers";
+import { ServerConfig } from "./config";
+import { RateLimiter } from "./rateLimiter";
+
+// --- Responses ---
+class HttpError extends Error {
+    constructor(readonly status: number, message: string, readonly headers: Record<string, string> = {}) {
+        super(message);
+        this.name = 'HttpError';
+    }
+}
+
+/** Provider failures by the status they are reported with; the reason travels in the body. */
+const STATUS_BY_REASON: Record<AgingProviderError['reason'], number> = {
+    'safety': 422,
+    'text-only': 422,
+    'unsupported-image': 422,
+    'rate-limit': 429,
+    'auth': 502,
+    'network': 502,
+    'server': 503,
+    'unknown': 500,
+};
+
+const sendJson = (res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) => {
+    res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8', 'Cache-Control': 'no-store', ...headers });
+    res.end(JSON.stringify(body));
+};
+
+const sendError = (res: ServerResponse, status: number, error: ProxyErrorResponse['error'], headers: Record<string, string> = {}) =>
+    sendJson(res, status, { error } satisfies ProxyErrorResponse, headers);
+
+/** Request errors are reported like provider errors so the client classifies both the same way. */
+const REASON_BY_STATUS: Record<number, AgingProviderError['reason']> = { 413: 'unsupported-image', 415: 'unsupported-image', 429: 'rate-limit' };
+
+const sendHttpError = (res: ServerResponse, error: HttpError) => sendError(res, error.status, {
+    reason: REASON_BY_STATUS[error.status] ?? 'unknown',
+    message: error.message,
+    retryable: error.status === 429,
+}, error.headers);
+
+// --- Requests ---
+const getClientId = (req: IncomingMessage, trustProxy: boolean): string => {
+    const forwarded = trustProxy ? String(req.headers['x-forwarded-for'] ?? '').split(',')[0].trim() : '';
+    return forwarded || req.socket.remoteAddress || 'unknown';
+};
+
+/** Reads the body, refusing it as soon as it grows past `maxBytes`. */
+const readBody = (req: IncomingMessage, maxBytes: number): Promise<string> => new Promise((resolve, reject) => {
+    const tooLarge = () => new HttpError(413, `The request is larger than ${Math.floor(maxBytes / 1024 / 1024)} MB.`);
+    if (Number(req.headers['content-length']) > maxBytes) {
+        req.resume();
+        reject(tooLarge());
+        return;
+    }
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+        size += chunk.length;
+        if (size > maxBytes) {
+            req.removeAllListeners('data');
+            req.resume();
+            reject(tooLarge());
+            return;
+        }
+        chunks.push(chunk);
+    });
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    req.on('error', reject);
+});
+
+const parseRequest = (text: string): ProxyAgingRequest => {
+    let body: unknown;
+    try {
+        body = JSON.parse(text);
+    } catch {
+        throw new HttpError(400, 'The request body is not valid JSON.');
+    }
+    const problem = validateProxyRequest(body);
+    if (problem) throw new HttpError(400, problem);
+    const { prompt, image, referenceImage, age, year, seed, temperature } = body as ProxyAgingRequest;
+    return { prompt, image, referenceImage, age, year, seed, temperature };
+};
+
+// --- Static Files ---
+const CONTENT_TYPES: Record<string, string> = {
+    '.html': 'text/html; charset=utf-8',
+    '.js': 'text/javascript; charset=utf-8',
+    '.css': 'text/css; charset=utf-8',
+    '.json': 'application/json; charset=utf-8',
+    '.webmanifest': 'application/manifest+json',
+    '.svg': 'image/svg+xml',
+    '.png': 'image/png',
+    '.jpg': 'image/jpeg',
+    '.ico': 'image/x-icon',
+    '.woff2': 'font/woff2',
+};
+
+/** Serves a file from the built app, or returns false when there is none at that path. */
+const serveStatic = async (root: string, pathname: string, res: ServerResponse): Promise<boolean> => {
+    const base = path.resolve(root);
+    let file: string;
+    try {
+        file = path.resolve(base, `.${decodeURIComponent(pathname)}`);
+    } catch {
+        return false;
+    }
+    if (file !== base && !file.startsWith(base + path.sep)) return false;
+    const target = pathname.endsWith('/') ? path.join(file, 'index.html') : file;
+    const info = await stat(target).catch(() => null);
+    if (!info?.isFile()) return false;
+    res.writeHead(200, {
+        'Content-Type': CONTENT_TYPES[path.extname(target)] ?? 'application/octet-stream',
+        'Content-Length': info.size,
+    });
+    createReadStream(target).pipe(res);
+    return true;
+};
+
+// --- Server ---
+/**
+ * The proxy server: `POST /api/age` generates one image with the server's provider,
+ * so the API key never reaches the browser. Each client is rate limited and request
+ * bodies are size limited before anything is sent upstream. Other GET requests are
+ * answered from the built app in `config.staticDir`, when it exists.
+ */
+export function createProxyServer(config: ServerConfig, provider: AgingProvider): Server {
+    const limiter = new RateLimiter(config.rateLimit, config.rateWindowMs);
+
+    const handleAge = async (req: IncomingMessage, res: ServerResponse) => {
+        if (req.method !== 'POST') throw new HttpError(405, 'Use POST.', { Allow: 'POST' });
+        if (!String(req.headers['content-type']).startsWith('application/json')) {
+            throw new HttpError(415, 'The request body must be application/json.');
+        }
+        const waitMs = limiter.take(getClientId(req, config.trustProxy));
+        if (waitMs > 0) {
+            throw new HttpError(429, 'Too many requests. Try again shortly.', { 'Retry-After': String(Math.ceil(waitMs / 1000)) });
+        }
+        const request = parseRequest(await readBody(req, config.maxBodyBytes));
+
+        // Stop the upstream request when the browser gives up on this one.
+        const controller = new AbortController();
+        res.on('close', () => {
+            if (!res.writableFinished) controller.abort();
+        });
+        try {
+            const result = await provider.generate({ ...request, signal: controller.signal });
+            sendJson(res, 200, { ...result, model: provider.model } satisfies ProxyAgingResponse);
+        } catch (error) {
+            if (isAbortError(error)) return;
+            if (!(error instanceof AgingProviderError)) throw error;
+            console.error(`Generation failed for age ${request.age} (${error.reason}): ${error.message}`);
+            sendError(res, STATUS_BY_REASON[error.reason], {
+                reason: error.reason, message: error.message, modelText: error.modelText, retryable: error.retryable,
+            });
+        }
+    };
+
+    return createServer(async (req, res) => {
+        const { pathname } = new URL(req.url ?? '/', 'http://localhost');
+        try {
+            if (pathname === AGE_ENDPOINT) {
+                await handleAge(req, res);
+                return;
+            }
+            const served = req.method === 'GET' && await serveStatic(config.staticDir, pathname, res);
+            if (!served) throw new HttpError(404, 'Not found.');
+        } catch (error) {
+            if (res.headersSent) {
+                res.destroy();
+            } else if (error instanceof HttpError) {
+                sendHttpError(res, error);
+            } else {
+                console.error('Unexpected proxy error:', error);
+                sendError(res, 500, { reason: 'unknown', message: 'The proxy server failed.', retryable: false });
+            }
+        }
+    });
+}
@@ -0,0 +1,42 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { ProviderConfig } from "../providers";
+
+// --- Type Definitions ---
+export type ServerConfig = {
+    port: number;
+    /** The provider the server calls; `proxy` is not allowed here. */
+    provider: ProviderConfig;
+    /** Requests each client may make per `rateWindowMs`. */
+    rateLimit: number;
+    rateWindowMs: number;
+    maxBodyBytes: number;
+    /** Identify clients by `X-Forwarded-For`, for servers behind a reverse proxy. */
+    trustProxy: boolean;
+    /** The built app to serve next to the API, if it exists. */
+    staticDir: string;
+};
+
+const readInt = (value: string | undefined, fallback: number, min: number): number => {
+    const parsed = parseInt(value ?? '', 10);
+    return Number.isInteger(parsed) && parsed >= min ? parsed : fallback;
+};
+
+/** Reads the server settings from the environment, usually `.env.local`. */
+export const getServerConfig = (env: Record<string, string | undefined>): ServerConfig => ({
+    port: readInt(env.PROXY_PORT, 8787, 0),
+    provider: {
+        provider: env.PROXY_PROVIDER === 'mock' ? 'mock' : 'gemini',
+        model: env.AGING_MODEL || undefined,
+        apiKey: env.GEMINI_API_KEY || undefined,
+    },
+    rateLimit: readInt(env.PROXY_RATE_LIMIT, 30, 1),
+    rateWindowMs: 60_000,
+    maxBodyBytes: readInt(env.PROXY_MAX_BODY_MB, 12, 1) * 1024 * 1024,
+    trustProxy: env.PROXY_TRUST_PROXY === 'true' || env.PROXY_TRUST_PROXY === '1',
+    staticDir: env.PROXY_STATIC_DIR || 'dist',
+});
@@ -0,0 +1,22 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { loadEnv } from "vite";
+import { createProvider } from "../providers";
+import { createProxyServer } from "./app";
+import { getServerConfig } from "./config";
+
+// Reads `.env.local` the same way the Vite dev server does.
+const config = getServerConfig(loadEnv(process.env.NODE_ENV === 'production' ? 'production' : 'development', process.cwd(), ''));
+if (config.provider.provider === 'gemini' && !config.provider.apiKey) {
+    console.error('GEMINI_API_KEY is not set. Add it to .env.local, or set PROXY_PROVIDER=mock to run offline.');
+    process.exit(1);
+}
+
+const provider = createProvider(config.provider);
+createProxyServer(config, provider).listen(config.port, () => {
+    console.log(`TimeMirror proxy on http://localhost:${config.port} using ${provider.id}/${provider.model}`);
+});
@@ -0,0 +1,37 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * Allows each client at most `limit` requests in any `windowMs` window.
+ * Clients are forgotten once their last request leaves the window.
+ */
+export class RateLimiter {
+    private readonly hits = new Map<string, number[]>();
+
+    constructor(
+        private readonly limit: number,
+        private readonly windowMs: number,
+        private readonly now: () => number = Date.now,
+    ) {}
+
+    /** Records a request from `client`; returns 0 when it is allowed, otherwise the milliseconds until it would be. */
+    take(client: string): number {
+        const now = this.now();
+        this.prune(now);
+        const recent = this.hits.get(client) ?? [];
+        if (recent.length >= this.limit) return recent[0] + this.windowMs - now;
+        recent.push(now);
+        this.hits.set(client, recent);
+        return 0;
+    }
+
+    private prune(now: number) {
+        for (const [client, times] of this.hits) {
+            while (times.length > 0 && times[0] <= now - this.windowMs) times.shift();
+            if (times.length === 0) this.hits.delete(client);
+        }
+    }
+}
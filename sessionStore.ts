@@ -0,0 +1,271 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { t } from "./i18n";
+import { PersonSnapshot, ResultCard, Scenario, TimelineSettings, UploadedImage } from "./types";
+
+// --- Type Definitions ---
+/** The uploaded image without its `objectURL`, which is only valid for the page that created it. */
+export type StoredImage = Omit<UploadedImage, 'objectURL'>;
+
+/** One person in a saved session, with the processed photo their images were generated from. */
+export type StoredPerson = PersonSnapshot & {
+    image: StoredImage;
+};
+
+/** A generation run saved on this device. Result cards keep their images as data URLs. */
+export type StoredSession = {
+    id: string;
+    name: string;
+    createdAt: number;
+    updatedAt: number;
+    people: StoredPerson[];
+    results: ResultCard[];
+};
+
+/** Sessions saved before batch mode held a single photo, and their cards had no `personId`. */
+type SingleSessionRecord = Omit<StoredSession, 'people' | 'results'> & {
+    sourceImage: StoredImage;
+    scenarios: Scenario[];
+    timeline: TimelineSettings;
+    results: Omit<ResultCard, 'personId'>[];
+};
+
+/** A card still waiting for its image. Its prompt, seed and source are on the card itself. */
+export type QueuedJob = {
+    cardId: string;
+    enqueuedAt: number;
+};
+
+/** The unfinished part of a run, saved as it goes so that a reload can carry on where it stopped. */
+export type StoredQueue = {
+    /** The run's session as it was at the last change, with the images finished so far. */
+    session: StoredSession;
+    jobs: QueuedJob[];
+};
+
+/** Where the generation queue is kept between visits. */
+export type JobStore = {
+    load(): Promise<StoredQueue | null>;
+    save(queue: StoredQueue): Promise<void>;
+    clear(): Promise<void>;
+};
+
+/** The lightweight part of a session shown in the History panel. */
+export type SessionSummary = {
+    id: string;
+    name: string;
+    createdAt: number;
+    updatedAt: number;
+    thumbnail: string;
+    imageCount: number;
+};
+
+const DB_NAME = 'timemirror';
+const DB_VERSION = 2;
+const SESSIONS_STORE = 'sessions';
+const SUMMARIES_STORE = 'summaries';
+const QUEUE_STORE = 'queue';
+/** The queue store holds a single record: only one run can be going at a time. */
+const QUEUE_KEY = 'current';
+const THUMBNAIL_SIZE = 96;
+
+// --- IndexedDB Helpers ---
+/** Another tab still has the database open with an older version, so this one cannot upgrade it. */
+export class SessionStoreBlockedError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'SessionStoreBlockedError';
+    }
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+    dbPromise ??= new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        let isBlocked = false;
+        request.onblocked = () => {
+            isBlocked = true;
+            dbPromise = null;
+            reject(new SessionStoreBlockedError(t('error.storageBlocked')));
+        };
+        request.onupgradeneeded = () => {
+            const db = request.result;
+            if (!db.objectStoreNames.contains(SESSIONS_STORE)) db.createObjectStore(SESSIONS_STORE, { keyPath: 'id' });
+            if (!db.objectStoreNames.contains(SUMMARIES_STORE)) db.createObjectStore(SUMMARIES_STORE, { keyPath: 'id' });
+            if (!db.objectStoreNames.contains(QUEUE_STORE)) db.createObjectStore(QUEUE_STORE);
+        };
+        request.onsuccess = () => {
+            const db = request.result;
+            // The other tab closed after all; the next call opens the upgraded database again.
+            if (isBlocked) {
+                db.close();
+                return;
+            }
+            // Let a newer version in another tab upgrade the database; the next call here reopens it.
+            db.onversionchange = () => {
+                db.close();
+                dbPromise = null;
+            };
+            resolve(db);
+        };
+        request.onerror = () => {
+            dbPromise = null;
+            reject(request.error);
+        };
+    });
+    return dbPromise;
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+});
+
+const transactionDone = (transaction: IDBTransaction) => new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+});
+
+/** Whether this browser can keep sessions (IndexedDB is missing in some private modes). */
+export const isSessionStorageAvailable = () => typeof indexedDB !== 'undefined';
+
+// --- Thumbnails ---
+const createThumbnail = (image: StoredImage): Promise<string> => new Promise(resolve => {
+    const source = `data:${image.mimeType};base64,${image.base64}`;
+    const img = new Image();
+    img.onload = () => {
+        const canvas = document.createElement('canvas');
+        canvas.width = THUMBNAIL_SIZE;
+        canvas.height = THUMBNAIL_SIZE;
+        const ctx = canvas.getContext('2d');
+        if (!ctx) return resolve(source);
+        // Center-crop to a square, like `object-fit: cover`.
+        const side = Math.min(img.naturalWidth, img.naturalHeight);
+        ctx.drawImage(img, (img.naturalWidth - side) / 2, (img.naturalHeight - side) / 2, side, side, 0, 0, THUMBNAIL_SIZE, THUMBNAIL_SIZE);
+        resolve(canvas.toDataURL('image/jpeg', 0.8));
+    };
+    img.onerror = () => resolve(source);
+    img.src = source;
+});
+
+// --- Public API ---
+export const createSessionId = (): string =>
+    typeof crypto.randomUUID === 'function' ? crypto.randomUUID() : `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+
+export const toStoredImage = ({ objectURL, ...image }: UploadedImage): StoredImage => image;
+
+/** Creates or replaces a session. Cards still loading are stored as cancelled so they can be retried after reopening. */
+export const saveSession = async (session: StoredSession): Promise<void> => {
+    const db = await openDatabase();
+    const results = session.results.map(card => {
+        // Only finished variations are worth keeping; the rest cannot be resumed.
+        const variations = card.variations?.filter(variation => variation.status === 'success');
+        const saved = variations ? { ...card, variations } : card;
+        return card.status === 'loading' ? { ...saved, status: 'cancelled' as const, attempt: undefined } : saved;
+    });
+    const summary: SessionSummary = {
+        id: session.id,
+        name: session.name,
+        createdAt: session.createdAt,
+        updatedAt: session.updatedAt,
+        thumbnail: await createThumbnail(session.people[0].image),
+        imageCount: results.filter(card => card.status === 'success').length,
+    };
+    const transaction = db.transaction([SESSIONS_STORE, SUMMARIES_STORE], 'readwrite');
+    transaction.objectStore(SESSIONS_STORE).put({ ...session, results });
+    transaction.objectStore(SUMMARIES_STORE).put(summary);
+    await transactionDone(transaction);
+};
+
+/** Lists saved sessions, most recently updated first. */
+export const listSessions = async (): Promise<SessionSummary[]> => {
+    const db = await openDatabase();
+    const summaries = await requestToPromise<SessionSummary[]>(
+        db.transaction(SUMMARIES_STORE).objectStore(SUMMARIES_STORE).getAll());
+    return summaries.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+const upgradeSession = (record: StoredSession | SingleSessionRecord): StoredSession => {
+    if (!('sourceImage' in record)) return record;
+    const { sourceImage, scenarios, timeline, results, ...rest } = record;
+    const personId = `${record.id}:person`;
+    return {
+        ...rest,
+        people: [{ id: personId, name: t('person.defaultName', { number: 1 }), image: sourceImage, scenarios, timeline }],
+        results: results.map(card => ({ ...card, personId })),
+    };
+};
+
+export const loadSession = async (id: string): Promise<StoredSession | null> => {
+    const db = await openDatabase();
+    const record = await requestToPromise<StoredSession | SingleSessionRecord | undefined>(
+        db.transaction(SESSIONS_STORE).objectStore(SESSIONS_STORE).get(id));
+    return record ? upgradeSession(record) : null;
+};
+
+export const renameSession = async (id: string, name: string): Promise<void> => {
+    const db = await openDatabase();
+    const transaction = db.transaction([SESSIONS_STORE, SUMMARIES_STORE], 'readwrite');
+    const done = transactionDone(transaction);
+    const sessions = transaction.objectStore(SESSIONS_STORE);
+    const summaries = transaction.objectStore(SUMMARIES_STORE);
+    const [session, summary] = await Promise.all([
+        requestToPromise<StoredSession | undefined>(sessions.get(id)),
+        requestToPromise<SessionSummary | undefined>(summaries.get(id)),
+    ]);
+    if (session) sessions.put({ ...session, name });
+    if (summary) summaries.put({ ...summary, name });
+    await done;
+};
+
+export const deleteSession = async (id: string): Promise<void> => {
+    const db = await openDatabase();
+    const transaction = db.transaction([SESSIONS_STORE, SUMMARIES_STORE], 'readwrite');
+    transaction.objectStore(SESSIONS_STORE).delete(id);
+    transaction.objectStore(SUMMARIES_STORE).delete(id);
+    await transactionDone(transaction);
+};
+
+/** Rebuilds a `File` from a stored image so it can go back through the upload pipeline. */
+export const storedImageToFile = (image: StoredImage): File => {
+    const binary = atob(image.base64);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+    const extension = image.mimeType === 'image/png' ? 'png' : 'jpg';
+    return new File([bytes], `${image.fileName}.${extension}`, { type: image.mimeType });
+};
+
+// --- Generation Queue ---
+/**
+ * Keeps the queue next to the saved sessions. Cards are stored as they are, still loading,
+ * since the queue says which of them to pick up again. Without IndexedDB nothing is kept.
+ */
+export const browserJobStore: JobStore = {
+    load: async () => {
+        if (!isSessionStorageAvailable()) return null;
+        const db = await openDatabase();
+        const queue = await requestToPromise<StoredQueue | undefined>(
+            db.transaction(QUEUE_STORE).objectStore(QUEUE_STORE).get(QUEUE_KEY));
+        return queue ?? null;
+    },
+    save: async queue => {
+        if (!isSessionStorageAvailable()) return;
+        const db = await openDatabase();
+        const transaction = db.transaction(QUEUE_STORE, 'readwrite');
+        transaction.objectStore(QUEUE_STORE).put(queue, QUEUE_KEY);
+        await transactionDone(transaction);
+    },
+    clear: async () => {
+        if (!isSessionStorageAvailable()) return;
+        const db = await openDatabase();
+        const transaction = db.transaction(QUEUE_STORE, 'readwrite');
+        transaction.objectStore(QUEUE_STORE).delete(QUEUE_KEY);
+        await transactionDone(transaction);
+    },
+};
@@ -0,0 +1,235 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { getDefaultAppearance } from "./appearance";
+import { CameraErrorReason } from "./camera";
+import { ExportPerson } from "./exporters";
+import { getDefaultFactors } from "./factors";
+import { DEFAULT_LOCALE, Locale, LocaleSettings, t, translate } from "./i18n";
+import { CropRect, SourcePhoto } from "./preprocess";
+import { PromptTemplate, getDefaultPromptSettings } from "./prompt";
+import { SessionSummary, createSessionId } from "./sessionStore";
+import { Store } from "./store";
+import { DEFAULT_TIMELINE_SETTINGS } from "./timeline";
+import {
+    GenerationMode, GenerationSettings, PersonSnapshot, ResultCard, Scenario, TimelineSettings, UploadedImage,
+} from "./types";
+import { RequestRecord, UsageSettings, createUsageSettings } from "./usage";
+
+// --- Type Definitions ---
+export type RunState = 'idle' | 'running' | 'cancelling' | 'done';
+
+/** The session the current results are saved under; snapshots what was used to generate them. */
+export type ActiveSession = {
+    id: string;
+    name: string;
+    createdAt: number;
+    people: PersonSnapshot[];
+};
+
+/** Someone to age: their own photo, timeline and lifestyle scenarios. */
+export type Person = {
+    id: string;
+    name: string;
+    uploadedImage: UploadedImage | null;
+    /** The decoded, oriented photo that crops are rendered from. People picked from one group photo share it. */
+    sourcePhoto: SourcePhoto | null;
+    cropRect: CropRect | null;
+    isProcessingImage: boolean;
+    scenarios: Scenario[];
+    activeScenarioId: string;
+    timelineSettings: TimelineSettings;
+};
+
+/** How far a person's images have got in the current results. */
+export type PersonProgress = {
+    total: number;
+    done: number;
+    failed: number;
+};
+
+/** Faces found in the active person's photo, waiting for the user to pick who to add. */
+export type FacePicker = {
+    personId: string;
+    faces: CropRect[];
+};
+
+/** The camera panel: a live preview, a countdown running, or a captured frame waiting to be used or retaken. */
+export type CameraState = {
+    status: 'starting' | 'live' | 'countdown' | 'captured' | 'error';
+    stream: MediaStream | null;
+    /** Seconds left while counting down. */
+    countdown: number;
+    capture: { file: File; objectURL: string } | null;
+    error: CameraErrorReason | null;
+};
+
+/** The result open in the full-size viewer, and how much of the original photo its divider reveals. */
+export type Lightbox = {
+    cardId: string;
+    split: number;
+};
+
+/**
+ * Everything the UI renders from. Updates must replace objects and arrays rather
+ * than mutate them, so components can tell what changed by reference.
+ */
+export type AppState = {
+    /** Never empty; the first person exists before any photo is uploaded. */
+    people: Person[];
+    activePersonId: string;
+    /** Whether the crop editor is open for the active person. */
+    isCropping: boolean;
+    facePicker: FacePicker | null;
+    camera: CameraState | null;
+    /** The language of the interface. Changing it rebuilds the UI. */
+    uiLocale: Locale;
+    /** The language prompts are written in, chosen separately from the interface. */
+    promptLocale: Locale;
+    promptTemplates: PromptTemplate[];
+    activeTemplateId: string;
+    generationMode: GenerationMode;
+    /** Progressive mode only: also send the uploaded photo with every step. */
+    useIdentityReference: boolean;
+    generationSettings: GenerationSettings;
+    runState: RunState;
+    results: ResultCard[];
+    errorMessage: string | null;
+    activeSession: ActiveSession | null;
+    sessionSummaries: SessionSummary[];
+    renamingSessionId: string | null;
+    /** Ids of up to two success cards shown in the split comparison view. */
+    compareSelection: string[];
+    compareSplit: number;
+    lightbox: Lightbox | null;
+    isExportMenuOpen: boolean;
+    exportInProgress: string | null;
+    /** This visit's provider requests, oldest first; capped at `MAX_REQUEST_RECORDS`. */
+    usageRecords: RequestRecord[];
+    usageSettings: UsageSettings;
+};
+
+export type AppStore = Store<AppState>;
+
+export const MAX_SCENARIOS = 4;
+export const MAX_PEOPLE = 6;
+export const MAX_VARIATIONS = 6;
+
+/** A person without a photo yet, with one default scenario and the default timeline. */
+export const createPerson = (name: string): Person => {
+    const scenario: Scenario = {
+        id: createSessionId(), name: t('scenario.defaultName'), factors: getDefaultFactors(), appearance: getDefaultAppearance(),
+    };
+    return {
+        id: createSessionId(),
+        name,
+        uploadedImage: null,
+        sourcePhoto: null,
+        cropRect: null,
+        isProcessingImage: false,
+        scenarios: [scenario],
+        activeScenarioId: scenario.id,
+        timelineSettings: { ...DEFAULT_TIMELINE_SETTINGS, customAges: [] },
+    };
+};
+
+export const createInitialState = (
+    { uiLocale, promptLocale }: LocaleSettings = { uiLocale: DEFAULT_LOCALE, promptLocale: DEFAULT_LOCALE },
+): AppState => {
+    const person = createPerson(translate(uiLocale, 'person.defaultName', { number: 1 }));
+    return {
+        people: [person],
+        activePersonId: person.id,
+        isCropping: false,
+        facePicker: null,
+        camera: null,
+        uiLocale,
+        promptLocale,
+        ...getDefaultPromptSettings(promptLocale),
+        generationMode: 'parallel',
+        useIdentityReference: true,
+        generationSettings: { seed: null, temperature: null, variationCount: 3 },
+        runState: 'idle',
+        results: [],
+        errorMessage: null,
+        activeSession: null,
+        sessionSummaries: [],
+        renamingSessionId: null,
+        compareSelection: [],
+        compareSplit: 50,
+        lightbox: null,
+        isExportMenuOpen: false,
+        exportInProgress: null,
+        usageRecords: [],
+        usageSettings: createUsageSettings(),
+    };
+};
+
+// --- Selectors ---
+export const getActivePerson = (state: AppState): Person =>
+    state.people.find(person => person.id === state.activePersonId) ?? state.people[0];
+
+export const getActiveScenario = (state: AppState): Scenario => {
+    const person = getActivePerson(state);
+    return person.scenarios.find(scenario => scenario.id === person.activeScenarioId) ?? person.scenarios[0];
+};
+
+/** People with a photo, in the order they were added. */
+export const getUploadedPeople = (state: AppState): Person[] => state.people.filter(person => person.uploadedImage !== null);
+
+const countProgress = (cards: ResultCard[]): PersonProgress => ({
+    total: cards.length,
+    done: cards.filter(card => card.status === 'success').length,
+    failed: cards.filter(card => card.status === 'error' || card.status === 'cancelled').length,
+});
+
+export const getPersonProgress = (state: AppState, personId: string): PersonProgress =>
+    countProgress(state.results.filter(card => card.personId === personId));
+
+/** Progress across everyone in the current results. */
+export const getRunProgress = (state: AppState): PersonProgress => countProgress(state.results);
+
+export const isAnyImageProcessing = (state: AppState) => state.people.some(person => person.isProcessingImage);
+
+export const getActiveTemplate = (state: AppState): PromptTemplate =>
+    state.promptTemplates.find(template => template.id === state.activeTemplateId) ?? state.promptTemplates[0];
+
+/** The people the current results were generated for, in display order. */
+export const getResultPeople = (state: AppState): PersonSnapshot[] => state.activeSession?.people
+    ?? state.people.map(({ id, name, scenarios, timelineSettings }) => ({ id, name, scenarios, timeline: timelineSettings }));
+
+/** The result people with the file name of their photo, which exported files are named after. */
+export const getExportPeople = (state: AppState): ExportPerson[] => getResultPeople(state).map(person => {
+    const image = state.people.find(other => other.id === person.id)?.uploadedImage;
+    return {
+        ...person,
+        baseName: image?.fileName ?? 'timemirror',
+        photoUrl: image ? `data:${image.mimeType};base64,${image.base64}` : null,
+    };
+});
+
+/** Names a result by age and year, with its person and scenario when several are shown, e.g. "Ana · Age 60 (2055)". */
+export const describeResult = (state: AppState, card: ResultCard): string => {
+    const people = getResultPeople(state);
+    const person = people.find(other => other.id === card.personId);
+    const scenario = person?.scenarios.find(sc => sc.id === card.scenarioId);
+    const names = [
+        people.length > 1 && person ? person.name : null,
+        person && person.scenarios.length > 1 && scenario ? scenario.name : null,
+    ].filter(Boolean);
+    return [...names, t('comparison.cardLabel', { age: card.age, year: card.year })].join(' · ');
+};
+
+/** The finished images in the lightbox card's row, youngest first; the viewer scrubs through these. */
+export const getLightboxCards = (state: AppState): ResultCard[] => {
+    const card = state.results.find(r => r.id === state.lightbox?.cardId);
+    if (!card) return [];
+    return state.results
+        .filter(other => other.scenarioId === card.scenarioId && other.status === 'success')
+        .sort((a, b) => a.age - b.age);
+};
+
+export const isRunBusy = (state: AppState) => state.runState === 'running' || state.runState === 'cancelling';
@@ -0,0 +1,63 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+export type Listener<T> = (state: T, previous: T) => void;
+
+/**
+ * A minimal observable state container. State is treated as immutable: `setState`
+ * shallow-merges a partial update into a new object, so subscribers can compare
+ * slices by reference to find out what changed.
+ */
+export class Store<T extends object> {
+    private state: T;
+    private readonly listeners = new Set<Listener<T>>();
+
+    constructor(initialState: T) {
+        this.state = initialState;
+    }
+
+    getState(): T {
+        return this.state;
+    }
+
+    setState(update: Partial<T> | ((state: T) => Partial<T>)) {
+        const changes = typeof update === 'function' ? update(this.state) : update;
+        const previous = this.state;
+        const hasChanges = (Object.keys(changes) as (keyof T)[]).some(key => !Object.is(changes[key], previous[key]));
+        if (!hasChanges) return;
+        this.state = { ...previous, ...changes };
+        this.listeners.forEach(listener => listener(this.state, previous));
+    }
+
+    subscribe(listener: Listener<T>): () => void {
+        this.listeners.add(listener);
+        return () => this.listeners.delete(listener);
+    }
+
+    /**
+     * Calls `onChange` with the selected slice now and whenever it changes afterwards.
+     * Pass `isEqual` when the selector builds a new value on every call.
+     */
+    select<S>(
+        selector: (state: T) => S,
+        onChange: (value: S, previous: S | undefined) => void,
+        isEqual: (a: S, b: S) => boolean = Object.is,
+    ): () => void {
+        let current = selector(this.state);
+        onChange(current, undefined);
+        return this.subscribe(state => {
+            const next = selector(state);
+            if (isEqual(next, current)) return;
+            const previous = current;
+            current = next;
+            onChange(next, previous);
+        });
+    }
+}
+
+/** Compares two arrays element by element, for selectors that return a fresh array. */
+export const shallowEqualArrays = <V>(a: readonly V[], b: readonly V[]) =>
+    a.length === b.length && a.every((value, index) => Object.is(value, b[index]));
@@ -0,0 +1,236 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import axe from "axe-core";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { createApp } from "../components/app";
+import { AgingProviderError } from "../providers";
+import { StubProvider, createPhotoFile, createReadyApp, createTestApp, imageForAge, waitForAbort } from "./helpers";
+
+type TestApp = Awaited<ReturnType<typeof createReadyApp>>;
+
+const render = ({ store, actions }: TestApp) => {
+    document.body.replaceChildren(createApp(store, actions, { maxAttempts: 3 }));
+};
+
+const query = <T extends HTMLElement = HTMLElement>(selector: string) => document.querySelector<T>(selector)!;
+
+const press = (target: HTMLElement, key: string, options: KeyboardEventInit = {}) =>
+    target.dispatchEvent(new KeyboardEvent('keydown', { key, bubbles: true, cancelable: true, ...options }));
+
+/** Runs axe on the whole page. jsdom cannot compute colours, so contrast is left to manual review. */
+const expectNoViolations = async () => {
+    const { violations } = await axe.run(document.body, { rules: { 'color-contrast': { enabled: false } } });
+    const summary = violations.map(violation =>
+        `${violation.id}: ${violation.help}\n${violation.nodes.map(node => `  ${node.target.join(' ')}`).join('\n')}`);
+    expect(summary).toEqual([]);
+};
+
+/** An app that has finished a run with one image ready and one blocked. */
+const createFinishedApp = async (ages = '40, 60') => {
+    const provider = new StubProvider(request => {
+        if (request.age === 60) throw new AgingProviderError('Blocked.', 'mock', 'safety', { modelText: 'I cannot do that.' });
+        return imageForAge(request.age);
+    });
+    const app = await createReadyApp(provider, ages);
+    render(app);
+    await app.actions.generate();
+    return app;
+};
+
+afterEach(() => {
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+    document.body.replaceChildren();
+});
+
+describe('automated checks', () => {
+    it('passes before a photo is chosen', async () => {
+        render(createTestApp());
+        await expectNoViolations();
+    });
+
+    it('passes with a photo and the controls open', async () => {
+        render(await createReadyApp(new StubProvider()));
+        await expectNoViolations();
+    });
+
+    it('passes while images are generating', async () => {
+        const provider = new StubProvider(waitForAbort);
+        const app = await createReadyApp(provider);
+        render(app);
+        const run = app.actions.generate();
+        await vi.waitFor(() => expect(provider.requests).toHaveLength(2));
+        await expectNoViolations();
+        app.actions.cancel();
+        await run;
+    });
+
+    it('passes with finished, failed and unstarted cards', async () => {
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+        const provider = new StubProvider(request => {
+            if (request.age === 50) throw new AgingProviderError('Blocked.', 'mock', 'safety');
+            return imageForAge(request.age);
+        });
+        const app = await createReadyApp(provider, '40, 50, 60');
+        app.actions.setGenerationMode('progressive');
+        render(app);
+        await app.actions.generate();
+        await expectNoViolations();
+    });
+
+    it('passes with the image viewer open', async () => {
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+        await createFinishedApp();
+        query<HTMLButtonElement>('.result-card-open').click();
+        expect(query('#lightbox').hidden).toBe(false);
+        await expectNoViolations();
+    });
+
+    it('passes with the usage panel open after a run', async () => {
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+        await createFinishedApp();
+        query<HTMLDetailsElement>('#diagnostics-panel').open = true;
+        expect(query('.usage-requests tbody').children).toHaveLength(2);
+        await expectNoViolations();
+    });
+
+    it('passes with the camera open', async () => {
+        const app = createTestApp();
+        render(app);
+        await app.actions.openCamera();
+        expect(query('#camera-panel').classList).not.toContain('hidden');
+        await expectNoViolations();
+    });
+
+    it('passes with several people and scenarios', async () => {
+        const app = createTestApp();
+        await app.actions.handleFiles([createPhotoFile('ana.jpg'), createPhotoFile('ben.jpg')]);
+        app.actions.addScenario();
+        app.actions.setTimelineField('customAges', '50');
+        render(app);
+        await app.actions.generate();
+        await expectNoViolations();
+    });
+});
+
+describe('keyboard', () => {
+    it('opens the file picker from the drop zone', () => {
+        render(createTestApp());
+        const dropZone = query('#drop-zone');
+        const click = vi.spyOn(query<HTMLInputElement>('#image-upload'), 'click').mockImplementation(() => {});
+        expect(dropZone.getAttribute('role')).toBe('button');
+        expect(dropZone.tabIndex).toBe(0);
+        press(dropZone, 'Enter');
+        press(dropZone, ' ');
+        press(dropZone, 'a');
+        expect(click).toHaveBeenCalledTimes(2);
+    });
+
+    it('shows slider tips on focus and hides them with Escape', async () => {
+        render(await createReadyApp(new StubProvider()));
+        const tip = query('.tooltip-icon');
+        const slider = query<HTMLInputElement>('#smoking-slider');
+        expect(tip.tagName).toBe('BUTTON');
+        expect(tip.getAttribute('aria-label')).toBe('About Smoking');
+        expect(slider.getAttribute('aria-describedby')).toBe(tip.getAttribute('aria-describedby'));
+        tip.focus();
+        press(tip, 'Escape');
+        expect(tip.classList).toContain('is-dismissed');
+        tip.blur();
+        expect(tip.classList).not.toContain('is-dismissed');
+    });
+
+    it('announces slider values with their meaning', async () => {
+        const app = await createReadyApp(new StubProvider());
+        render(app);
+        app.actions.setFactor('smoking', 10);
+        expect(query('#smoking-slider').getAttribute('aria-valuetext'))
+            .toBe('10 of 10: has smoked very heavily for decades, with deep perioral wrinkles, leathery grey skin and yellowed teeth');
+    });
+
+    it('moves between scenario tabs with the arrow keys', async () => {
+        const app = await createReadyApp(new StubProvider());
+        app.actions.addScenario();
+        render(app);
+        const tabs = [...document.querySelectorAll<HTMLElement>('.scenario-tab')];
+        expect(tabs.map(tab => tab.tabIndex)).toEqual([-1, 0]);
+        press(tabs[1], 'ArrowRight');
+        expect(document.activeElement).toBe(tabs[0]);
+        expect(tabs[0].getAttribute('aria-selected')).toBe('true');
+        expect(tabs.map(tab => tab.tabIndex)).toEqual([0, -1]);
+    });
+
+    it('steps through the timeline cards with the arrow keys', async () => {
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+        await createFinishedApp('40, 50, 60');
+        const cards = [...document.querySelectorAll<HTMLElement>('.result-card')];
+        cards[0].querySelector<HTMLElement>('.download-link')!.focus();
+        press(document.activeElement as HTMLElement, 'ArrowRight');
+        expect(document.activeElement).toBe(cards[1]);
+        press(cards[1], 'End');
+        expect(document.activeElement).toBe(cards[2]);
+        press(cards[2], 'ArrowRight');
+        expect(document.activeElement).toBe(cards[0]);
+        expect(cards[2].getAttribute('aria-label')).toBe(`Age 60, ${new Date().getFullYear() + 30}: failed (Blocked)`);
+    });
+
+    it('opens the export menu on its first item and closes it with Escape', async () => {
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+        const app = await createFinishedApp();
+        const button = query<HTMLButtonElement>('#export-button');
+        button.click();
+        // Video export is unavailable in jsdom, so its item is skipped.
+        const items = [...document.querySelectorAll<HTMLElement>('[role="menuitem"]:not(:disabled)')];
+        expect(document.activeElement).toBe(items[0]);
+        press(items[0], 'ArrowDown');
+        expect(document.activeElement).toBe(items[1]);
+        press(items[1], 'Escape');
+        expect(app.store.getState().isExportMenuOpen).toBe(false);
+        expect(document.activeElement).toBe(button);
+    });
+});
+
+describe('announcements', () => {
+    it('reports progress politely while generating and when done', async () => {
+        const releases: (() => void)[] = [];
+        const provider = new StubProvider(request => new Promise(resolve => releases.push(() => resolve(imageForAge(request.age)))));
+        const app = await createReadyApp(provider);
+        render(app);
+        const status = query('#run-status');
+        expect(status.getAttribute('role')).toBe('status');
+
+        const run = app.actions.generate();
+        await vi.waitFor(() => expect(releases).toHaveLength(2));
+        expect(status.textContent).toBe('0 of 2 ready');
+        releases[0]();
+        await vi.waitFor(() => expect(status.textContent).toBe('1 of 2 ready'));
+        releases[1]();
+        await run;
+        expect(status.textContent).toBe('Finished: 2 of 2 ready.');
+    });
+
+    it('reports failures in the live region and the error banner', async () => {
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+        await createFinishedApp();
+        expect(query('#run-status').textContent).toBe('Finished: 1 of 2 ready, 1 failed.');
+        expect(query('#error-message').getAttribute('role')).toBe('alert');
+        expect(query('#error-message').textContent).toMatch(/^1 of 2 images failed/);
+    });
+
+    it('keeps the loading message still when reduced motion is preferred', async () => {
+        vi.stubGlobal('matchMedia', vi.fn().mockReturnValue({ matches: true }));
+        const setInterval = vi.spyOn(window, 'setInterval');
+        const provider = new StubProvider(waitForAbort);
+        const app = await createReadyApp(provider);
+        render(app);
+        const run = app.actions.generate();
+        await vi.waitFor(() => expect(provider.requests).toHaveLength(2));
+        expect(setInterval).not.toHaveBeenCalled();
+        app.actions.cancel();
+        await run;
+    });
+});
@@ -0,0 +1,139 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { CAMERA_COUNTDOWN_SECONDS, CameraError } from "../camera";
+import { createApp } from "../components/app";
+import { getActivePerson } from "../state";
+import { StubProvider, createFakeCamera, createStubImagePipeline, createTestApp } from "./helpers";
+
+const query = <T extends HTMLElement = HTMLElement>(selector: string) => document.querySelector<T>(selector)!;
+
+const createCameraApp = (camera = createFakeCamera()) => ({
+    ...createTestApp(new StubProvider(), createStubImagePipeline(), camera.device),
+    camera,
+});
+
+/** Lets the countdown run out and the frame be captured. */
+const finishCountdown = () => vi.advanceTimersByTimeAsync(CAMERA_COUNTDOWN_SECONDS * 1000);
+
+beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+    document.body.replaceChildren();
+});
+
+describe('camera actions', () => {
+    it('counts down, captures a frame and loads it like an uploaded file', async () => {
+        const { store, actions, camera } = createCameraApp();
+        await actions.openCamera();
+        expect(store.getState().camera).toMatchObject({ status: 'live', stream: camera.stream });
+
+        actions.takePhoto();
+        expect(store.getState().camera).toMatchObject({ status: 'countdown', countdown: 3 });
+        await vi.advanceTimersByTimeAsync(1000);
+        expect(store.getState().camera!.countdown).toBe(2);
+        await finishCountdown();
+        expect(store.getState().camera).toMatchObject({ status: 'captured', capture: { file: { name: 'shot-1.jpg' } } });
+
+        await actions.useCameraPhoto();
+        expect(store.getState().camera).toBeNull();
+        expect(camera.track.stop).toHaveBeenCalled();
+        expect(getActivePerson(store.getState()).uploadedImage).toMatchObject({ fileName: 'shot-1', mimeType: 'image/jpeg' });
+    });
+
+    it('retakes from the live preview and cancels a running countdown', async () => {
+        const { store, actions, camera } = createCameraApp();
+        await actions.openCamera();
+        actions.takePhoto();
+        await finishCountdown();
+        actions.retakePhoto();
+        expect(store.getState().camera).toMatchObject({ status: 'live', capture: null });
+
+        actions.takePhoto();
+        actions.retakePhoto();
+        await finishCountdown();
+        expect(store.getState().camera!.status).toBe('live');
+        expect(camera.device.capture).toHaveBeenCalledTimes(1);
+    });
+
+    it('explains a blocked or missing camera and can try again', async () => {
+        const open = vi.fn()
+            .mockRejectedValueOnce(new CameraError('Blocked.', 'denied'))
+            .mockRejectedValueOnce(new CameraError('None.', 'unavailable'));
+        const { store, actions, camera } = createCameraApp(createFakeCamera({ open }));
+        await actions.openCamera();
+        expect(store.getState().camera).toMatchObject({ status: 'error', error: 'denied' });
+        await actions.openCamera();
+        expect(store.getState().camera).toMatchObject({ status: 'error', error: 'unavailable' });
+        open.mockResolvedValueOnce(camera.stream);
+        await actions.openCamera();
+        expect(store.getState().camera!.status).toBe('live');
+    });
+
+    it('stops a stream that arrives after the panel was closed', async () => {
+        let resolve: (stream: MediaStream) => void = () => {};
+        const camera = createFakeCamera({ open: () => new Promise(done => resolve = done) });
+        const { store, actions } = createCameraApp(camera);
+        const opening = actions.openCamera();
+        actions.closeCamera();
+        resolve(camera.stream);
+        await opening;
+        expect(store.getState().camera).toBeNull();
+        expect(camera.track.stop).toHaveBeenCalled();
+    });
+});
+
+describe('camera panel', () => {
+    const renderApp = () => {
+        // jsdom has no camera; any getUserMedia is enough to offer one, the fake device does the rest.
+        vi.stubGlobal('navigator', { ...navigator, mediaDevices: { getUserMedia: vi.fn() } });
+        const app = createCameraApp();
+        document.body.replaceChildren(createApp(app.store, app.actions, { maxAttempts: 3 }));
+        return app;
+    };
+
+    it('stands in for the drop zone and moves focus along the steps', async () => {
+        const { actions } = renderApp();
+        expect(query('#camera-button').closest('.hidden')).toBeNull();
+        query<HTMLButtonElement>('#camera-button').click();
+        await vi.advanceTimersByTimeAsync(0);
+
+        expect(query('#camera-panel').classList).not.toContain('hidden');
+        expect(query('#drop-zone').classList).toContain('hidden');
+        expect(query('.camera-status').textContent).toBe('Camera ready. Line your face up with the oval.');
+        expect(document.activeElement).toBe(query('.camera-take'));
+
+        query<HTMLButtonElement>('.camera-take').click();
+        expect(query('.camera-countdown').textContent).toBe('3');
+        expect(query('.camera-status').textContent).toBe('Taking the photo in 3 seconds…');
+        await finishCountdown();
+        expect(query<HTMLImageElement>('.camera-capture').classList).not.toContain('hidden');
+        expect(document.activeElement).toBe(query('.camera-use'));
+
+        actions.closeCamera();
+        expect(query('#camera-panel').classList).toContain('hidden');
+        expect(query('#drop-zone').classList).not.toContain('hidden');
+    });
+
+    it('shows why the camera is blocked and closes with Escape', async () => {
+        const { actions, camera } = renderApp();
+        vi.mocked(camera.device.open).mockRejectedValueOnce(new CameraError('Blocked.', 'denied'));
+        await actions.openCamera();
+        expect(query('.camera-error .error-title').textContent).toBe('Camera access blocked');
+        expect(document.activeElement).toBe(query('.camera-try-again'));
+        expect(query('.camera-choose-file').classList).not.toContain('hidden');
+
+        query('.camera-try-again').dispatchEvent(new KeyboardEvent('keydown', { key: 'Escape', bubbles: true }));
+        expect(query('#camera-panel').classList).toContain('hidden');
+    });
+});
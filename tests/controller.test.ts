@@ -0,0 +1,519 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { getDefaultAppearance } from "../appearance";
+import { hashImage, hashText } from "../fingerprint";
+import { ImagePreprocessError } from "../preprocess";
+import { AgingProvider, AgingProviderError, AgingRequest } from "../providers";
+import { Notifier } from "../pwa";
+import { JobStore, SessionStoreBlockedError } from "../sessionStore";
+import { getActivePerson } from "../state";
+import { loadUsageSettings } from "../usage";
+import {
+    StubProvider, TEST_QUEUE_CONFIG, createMemoryJobStore, createPhotoFile, createReadyApp, createStubImagePipeline, createTestApp,
+    imageForAge, waitForAbort,
+} from "./helpers";
+
+const blocked = () => new AgingProviderError('Blocked by safety filter.', 'mock', 'safety', { modelText: 'I cannot edit this photo.' });
+const overloaded = () => new AgingProviderError('The model is overloaded.', 'mock', 'server');
+
+const statuses = (cards: { age: number; status: string }[]) =>
+    Object.fromEntries(cards.map(card => [card.age, card.status]));
+
+beforeEach(() => {
+    // Failures are logged on purpose; keep the test output readable.
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+describe('uploading photos', () => {
+    it('processes a photo for the active person', async () => {
+        const { store, actions } = createTestApp();
+        await actions.handleFiles([createPhotoFile('me.jpg')]);
+        const person = getActivePerson(store.getState());
+        expect(person.uploadedImage).toMatchObject({ fileName: 'me', base64: btoa('me'), mimeType: 'image/jpeg' });
+        expect(person.isProcessingImage).toBe(false);
+        expect(store.getState().errorMessage).toBeNull();
+    });
+
+    it('adds a person for every file', async () => {
+        const { store, actions } = createTestApp();
+        await actions.handleFiles([createPhotoFile('ana.jpg'), createPhotoFile('ben.jpg')]);
+        const { people, activePersonId } = store.getState();
+        expect(people.map(person => [person.name, person.uploadedImage?.fileName])).toEqual([['Person 1', 'ana'], ['Person 2', 'ben']]);
+        expect(activePersonId).toBe(people[0].id);
+    });
+
+    it('shows why a photo was rejected and drops the person it was for', async () => {
+        const images = createStubImagePipeline({
+            loadSourcePhoto: async () => { throw new ImagePreprocessError('This photo is too small.'); },
+        });
+        const { store, actions } = createTestApp(new StubProvider(), images);
+        await actions.handleFiles([createPhotoFile('a.jpg'), createPhotoFile('b.jpg')]);
+        expect(store.getState().errorMessage).toBe('This photo is too small.');
+        expect(store.getState().people).toHaveLength(1);
+        expect(getActivePerson(store.getState()).uploadedImage).toBeNull();
+    });
+});
+
+describe('generating', () => {
+    it('asks for an upload first', async () => {
+        const provider = new StubProvider();
+        const { store, actions } = createTestApp(provider);
+        await actions.generate();
+        expect(store.getState().errorMessage).toBe('Please upload an image first.');
+        expect(provider.requests).toHaveLength(0);
+    });
+
+    it('refuses a timeline with more ages than one run generates, instead of dropping some', async () => {
+        const provider = new StubProvider();
+        const { store, actions } = await createReadyApp(provider, '');
+        actions.setTimelineField('startAge', '20');
+        actions.setTimelineField('endAge', '80');
+        actions.setTimelineField('step', '5');
+        await actions.generate();
+        expect(store.getState().errorMessage)
+            .toBe('The timeline has 13 ages, but at most 10 can be generated at once. Use a larger step, a shorter range or fewer custom ages.');
+        expect(store.getState().results).toEqual([]);
+        expect(provider.requests).toHaveLength(0);
+    });
+
+    it('fills every card with the image generated for its age', async () => {
+        const provider = new StubProvider();
+        const { store, actions } = await createReadyApp(provider);
+        await actions.generate();
+        const { results, runState, errorMessage } = store.getState();
+        expect(runState).toBe('done');
+        expect(errorMessage).toBeNull();
+        expect(results.map(card => [card.age, card.status, card.imageUrl])).toEqual([
+            [40, 'success', `data:image/png;base64,${imageForAge(40).base64}`],
+            [60, 'success', `data:image/png;base64,${imageForAge(60).base64}`],
+        ]);
+        expect(provider.requests.map(request => request.image.base64)).toEqual([btoa('portrait'), btoa('portrait')]);
+        expect(provider.requestsForAge(60)[0].prompt).toBe(results[1].prompt);
+    });
+
+    it('keeps the images that worked when others fail', async () => {
+        const provider = new StubProvider(request => {
+            if (request.age === 60) throw blocked();
+            return imageForAge(request.age);
+        });
+        const { store, actions } = await createReadyApp(provider);
+        await actions.generate();
+        const { results, errorMessage } = store.getState();
+        expect(statuses(results)).toEqual({ 40: 'success', 60: 'error' });
+        expect(results[1]).toMatchObject({ errorReason: 'safety', modelText: 'I cannot edit this photo.' });
+        expect(errorMessage).toMatch(/^1 of 2 images failed\. The safety filter declined/);
+        // Safety blocks are not worth sending again.
+        expect(provider.requestsForAge(60)).toHaveLength(1);
+    });
+
+    it('retries transient failures and records the attempt', async () => {
+        const provider = new StubProvider((request, attempt) => {
+            if (attempt === 1) throw overloaded();
+            return imageForAge(request.age);
+        });
+        const { store, actions } = await createReadyApp(provider, '50');
+        await actions.generate();
+        expect(store.getState().results[0]).toMatchObject({ status: 'success', attempt: 2 });
+        expect(provider.requestsForAge(50)).toHaveLength(2);
+    });
+
+    it('gives up after the configured number of retries', async () => {
+        const provider = new StubProvider(() => { throw overloaded(); });
+        const { store, actions } = await createReadyApp(provider, '50');
+        await actions.generate();
+        expect(store.getState().results[0]).toMatchObject({ status: 'error', errorReason: 'server', attempt: TEST_QUEUE_CONFIG.maxRetries + 1 });
+        expect(provider.requests).toHaveLength(TEST_QUEUE_CONFIG.maxRetries + 1);
+    });
+
+    it('retries a single failed card', async () => {
+        const provider = new StubProvider((request, attempt) => {
+            if (request.age === 60 && attempt === 1) throw blocked();
+            return imageForAge(request.age);
+        });
+        const { store, actions } = await createReadyApp(provider);
+        await actions.generate();
+        await actions.retry(store.getState().results[1].id);
+        const { results, runState, errorMessage } = store.getState();
+        expect(statuses(results)).toEqual({ 40: 'success', 60: 'success' });
+        expect(results[1].errorReason).toBeUndefined();
+        expect(runState).toBe('done');
+        expect(errorMessage).toBeNull();
+        expect(provider.requestsForAge(40)).toHaveLength(1);
+    });
+
+    it('cancels the requests still in flight', async () => {
+        const provider = new StubProvider(waitForAbort);
+        const { store, actions } = await createReadyApp(provider);
+        const run = actions.generate();
+        await vi.waitFor(() => expect(provider.requests).toHaveLength(2));
+        actions.cancel();
+        expect(store.getState().runState).toBe('cancelling');
+        await run;
+        expect(store.getState().runState).toBe('done');
+        expect(statuses(store.getState().results)).toEqual({ 40: 'cancelled', 60: 'cancelled' });
+        expect(provider.requests.every(request => request.signal?.aborted)).toBe(true);
+    });
+
+    it('generates each person from their own photo', async () => {
+        const provider = new StubProvider();
+        const { store, actions } = createTestApp(provider);
+        await actions.handleFiles([createPhotoFile('ana.jpg'), createPhotoFile('ben.jpg')]);
+        store.getState().people.forEach(person => {
+            actions.selectPerson(person.id);
+            actions.setTimelineField('customAges', '50');
+        });
+        await actions.generate();
+        const { people, results, activeSession } = store.getState();
+        expect(results.map(card => card.personId)).toEqual(people.map(person => person.id));
+        expect(results.every(card => card.status === 'success')).toBe(true);
+        expect(provider.requests.map(request => atob(request.image.base64)).sort()).toEqual(['ana', 'ben']);
+        expect(activeSession?.people.map(person => person.name)).toEqual(['Person 1', 'Person 2']);
+    });
+});
+
+describe('progressive mode', () => {
+    it('generates each age from the previous one, with the upload as reference', async () => {
+        const provider = new StubProvider();
+        const { store, actions } = await createReadyApp(provider, '40, 50, 60');
+        actions.setGenerationMode('progressive');
+        await actions.generate();
+        expect(statuses(store.getState().results)).toEqual({ 40: 'success', 50: 'success', 60: 'success' });
+        const [first, second, third] = [40, 50, 60].map(age => provider.requestsForAge(age)[0]);
+        expect(first.image.base64).toBe(btoa('portrait'));
+        expect(first.referenceImage).toBeUndefined();
+        expect(second.image.base64).toBe(imageForAge(40).base64);
+        expect(second.referenceImage?.base64).toBe(btoa('portrait'));
+        expect(third.image.base64).toBe(imageForAge(50).base64);
+        expect(second.prompt).toContain('already projected at age 40');
+    });
+
+    it('stops a chain at the first failure and resumes it on retry', async () => {
+        const provider = new StubProvider((request, attempt) => {
+            if (request.age === 50 && attempt === 1) throw blocked();
+            return imageForAge(request.age);
+        });
+        const { store, actions } = await createReadyApp(provider, '40, 50, 60');
+        actions.setGenerationMode('progressive');
+        await actions.generate();
+        expect(statuses(store.getState().results)).toEqual({ 40: 'success', 50: 'error', 60: 'cancelled' });
+        expect(provider.requestsForAge(60)).toHaveLength(0);
+
+        // Retrying the last card starts again from the first one without an image.
+        await actions.retry(store.getState().results[2].id);
+        expect(statuses(store.getState().results)).toEqual({ 40: 'success', 50: 'success', 60: 'success' });
+        expect(provider.requestsForAge(40)).toHaveLength(1);
+        expect(provider.requestsForAge(60)[0].image.base64).toBe(imageForAge(50).base64);
+    });
+});
+
+describe('appearance', () => {
+    it('adds the scenario appearance to every prompt and card, and keeps it per scenario', async () => {
+        const provider = new StubProvider();
+        const { store, actions } = await createReadyApp(provider);
+        actions.setAppearance({ greyHair: 70, glasses: true });
+        actions.setAppearance({ hairLoss: 'bogus' as never, expression: 'laugh' });
+        const appearance = { greyHair: 70, hairLoss: null, glasses: true, facialHair: null, expression: 'laugh' };
+        actions.addScenario();
+        expect(getActivePerson(store.getState()).scenarios.map(scenario => scenario.appearance)).toEqual([appearance, appearance]);
+        actions.setAppearance({ greyHair: null, glasses: null, expression: null });
+        await actions.generate();
+
+        const cards = store.getState().results;
+        expect(cards.map(card => card.appearance)).toEqual([appearance, appearance, expect.anything(), expect.anything()]);
+        expect(cards[0].prompt).toContain('About 70% of the hair is grey.');
+        expect(cards[2].prompt).not.toContain('Appearance:');
+        expect(provider.requests.filter(request => request.prompt.includes('Wearing glasses'))).toHaveLength(2);
+    });
+
+    it('regenerates one card with other appearance choices and the same seed', async () => {
+        const provider = new StubProvider();
+        const { store, actions } = await createReadyApp(provider);
+        await actions.generate();
+        const [card, other] = store.getState().results;
+        const appearance = { greyHair: 100, hairLoss: 'bald' as const, glasses: null, facialHair: null, expression: null };
+        await actions.regenerateWithAppearance(card.id, appearance);
+
+        const [updated, untouched] = store.getState().results;
+        expect(updated).toMatchObject({ status: 'success', appearance, seed: card.seed, templateId: card.templateId });
+        expect(updated.prompt).toBe(`${card.prompt}\n- Appearance: Apply these choices exactly, even where the instructions above say otherwise:`
+            + '\n  - Hair colour: About 100% of the hair is grey.\n  - Hair: Bald or nearly bald on top.');
+        expect(provider.requests.at(-1)).toMatchObject({ age: card.age, seed: card.seed, prompt: updated.prompt });
+        expect(untouched).toBe(other);
+        expect(getActivePerson(store.getState()).scenarios[0].appearance.greyHair).toBeNull();
+    });
+});
+
+describe('seeds and variations', () => {
+    /** Answers with an image that names the seed, so tests can tell the alternatives apart. */
+    const imageForSeed = (request: AgingRequest) => ({ base64: btoa(`seed-${request.seed}`), mimeType: 'image/png' });
+
+    it('sends a fixed seed with every image and records the request fingerprint', async () => {
+        const provider = new StubProvider(imageForSeed);
+        const { store, actions } = await createReadyApp(provider);
+        actions.setGenerationSettings({ seed: 1234, temperature: 0.4 });
+        await actions.generate();
+        expect(provider.requests.map(request => [request.seed, request.temperature])).toEqual([[1234, 0.4], [1234, 0.4]]);
+        const [card] = store.getState().results;
+        expect(card.fingerprint).toEqual({
+            provider: 'mock', model: 'stub', seed: 1234, temperature: 0.4,
+            promptHash: await hashText(card.prompt),
+            imageHash: await hashImage({ base64: btoa('portrait'), mimeType: 'image/jpeg' }),
+        });
+    });
+
+    it('keeps images without a fingerprint where the page cannot hash (no crypto.subtle)', async () => {
+        vi.stubGlobal('crypto', { getRandomValues: crypto.getRandomValues.bind(crypto), subtle: undefined });
+        vi.spyOn(console, 'warn').mockImplementation(() => {});
+        try {
+            const provider = new StubProvider(imageForSeed);
+            const { store, actions } = await createReadyApp(provider, '50');
+            await actions.generate();
+            const [card] = store.getState().results;
+            expect(card).toMatchObject({ status: 'success', imageUrl: `data:image/png;base64,${btoa(`seed-${card.seed}`)}` });
+            expect(card.fingerprint).toBeUndefined();
+            expect(store.getState()).toMatchObject({ runState: 'done', errorMessage: null });
+
+            await actions.generateVariations(card.id);
+            const { variations } = store.getState().results[0];
+            expect(variations!.length).toBeGreaterThan(0);
+            expect(variations!.every(variation => variation.status === 'success' && !variation.fingerprint)).toBe(true);
+
+            // The seed travels with the image, so regenerating reproduces the picked one.
+            const [chosen] = variations!;
+            actions.pickVariation(card.id, chosen.id);
+            const picked = store.getState().results[0];
+            expect(picked).toMatchObject({ imageUrl: chosen.imageUrl, seed: chosen.seed });
+            expect(chosen.imageUrl).toBe(`data:image/png;base64,${btoa(`seed-${chosen.seed}`)}`);
+            expect(picked.variations![0]).toMatchObject({ imageUrl: card.imageUrl, seed: card.seed });
+        } finally {
+            vi.unstubAllGlobals();
+        }
+    });
+
+    it('regenerates a card with the same prompt and seed', async () => {
+        const provider = new StubProvider(imageForSeed);
+        const { store, actions } = await createReadyApp(provider, '50');
+        await actions.generate();
+        const before = store.getState().results[0];
+        await actions.regenerate(before.id);
+        const [first, second] = provider.requestsForAge(50);
+        expect(second.seed).toBe(first.seed);
+        expect(second.prompt).toBe(first.prompt);
+        expect(store.getState().results[0]).toMatchObject({ status: 'success', seed: before.seed, fingerprint: before.fingerprint });
+        expect(store.getState().runState).toBe('done');
+    });
+
+    it('keeps the previous image when regenerating fails, and explains why in the banner', async () => {
+        const provider = new StubProvider((request, attempt) => attempt === 1 ? imageForSeed(request) : Promise.reject(blocked()));
+        const { store, actions } = await createReadyApp(provider, '50');
+        await actions.generate();
+        const before = store.getState().results[0];
+        await actions.regenerate(before.id);
+        expect(provider.requests).toHaveLength(2);
+        const { results, runState, errorMessage } = store.getState();
+        expect(results[0]).toEqual(before);
+        expect(runState).toBe('done');
+        expect(errorMessage).toMatch(/^The image for age 50 could not be generated again, so it keeps its previous image\. /);
+
+        await actions.regenerateWithAppearance(before.id, { ...getDefaultAppearance(), glasses: true });
+        expect(store.getState().results[0]).toEqual(before);
+    });
+
+    it('generates variations with new seeds and swaps the picked one in', async () => {
+        const provider = new StubProvider(imageForSeed);
+        const { store, actions } = await createReadyApp(provider, '50');
+        actions.setGenerationSettings({ variationCount: 2 });
+        await actions.generate();
+        const card = store.getState().results[0];
+        await actions.generateVariations(card.id);
+
+        const { variations } = store.getState().results[0];
+        expect(variations?.map(variation => variation.status)).toEqual(['success', 'success']);
+        expect(new Set(provider.requests.map(request => request.seed)).size).toBe(3);
+        expect(provider.requests.every(request => request.prompt === card.prompt)).toBe(true);
+
+        actions.pickVariation(card.id, variations![1].id);
+        const picked = store.getState().results[0];
+        expect(picked).toMatchObject({ imageUrl: variations![1].imageUrl, seed: variations![1].fingerprint!.seed });
+        expect(picked.variations![1]).toMatchObject({ status: 'success', imageUrl: card.imageUrl, fingerprint: card.fingerprint });
+    });
+});
+
+describe('usage and budget', () => {
+    /** A paid provider that reports 1000 input tokens per image. */
+    const createPaidProvider = (respond?: ConstructorParameters<typeof StubProvider>[0]) => {
+        const stub = new StubProvider(respond);
+        const provider: AgingProvider = {
+            id: 'gemini', model: 'test',
+            generate: async request => ({ ...await stub.generate(request), usage: { promptTokens: 1000, outputTokens: 1290, totalTokens: 2290 } }),
+        };
+        return { stub, provider };
+    };
+
+    beforeEach(() => localStorage.clear());
+
+    it('records every request with its attempts, size, tokens and cost', async () => {
+        const { provider } = createPaidProvider((request, attempt) => {
+            if (request.age === 60 && attempt === 1) throw overloaded();
+            return imageForAge(request.age);
+        });
+        const { store, actions } = await createReadyApp(provider);
+        actions.setPricing({ perImage: 0.04, perMillionInputTokens: 1 });
+        await actions.generate();
+
+        const records = [...store.getState().usageRecords].sort((a, b) => a.age - b.age);
+        expect(records.map(({ age, kind, outcome, attempts, responseBytes, cost }) => ({ age, kind, outcome, attempts, responseBytes, cost })))
+            .toEqual([
+                { age: 40, kind: 'image', outcome: 'success', attempts: 1, responseBytes: 'age-40'.length, cost: 0.041 },
+                { age: 60, kind: 'image', outcome: 'success', attempts: 2, responseBytes: 'age-60'.length, cost: 0.041 },
+            ]);
+        expect(records[0]).toMatchObject({ provider: 'gemini', model: 'test', usage: { promptTokens: 1000 } });
+        expect(records[0].durationMs).toBeGreaterThanOrEqual(0);
+        const { allTime } = store.getState().usageSettings;
+        expect(allTime).toMatchObject({ requests: 2, images: 2, retries: 1, promptTokens: 2000, outputTokens: 2580 });
+        expect(allTime.cost).toBeCloseTo(0.082);
+        expect(loadUsageSettings()).toMatchObject({ pricing: { perImage: 0.04 }, allTime: { requests: 2, images: 2 } });
+    });
+
+    it('records failed and cancelled requests without charging for an image', async () => {
+        const { provider } = createPaidProvider(request => request.age === 40 ? Promise.reject(blocked()) : waitForAbort(request));
+        const { store, actions } = await createReadyApp(provider);
+        const run = actions.generate();
+        await vi.waitFor(() => expect(store.getState().usageRecords).toHaveLength(1));
+        actions.cancel();
+        await run;
+        const [failed, cancelled] = store.getState().usageRecords;
+        expect(failed).toMatchObject({ age: 40, outcome: 'error', errorReason: 'safety', responseBytes: 0 });
+        expect(failed.cost).toBeCloseTo(0.0003);
+        expect(cancelled).toMatchObject({ age: 60, outcome: 'cancelled', cost: 0 });
+    });
+
+    it('blocks new runs once the budget is spent, until it is raised or reset', async () => {
+        const { stub, provider } = createPaidProvider();
+        const { store, actions } = await createReadyApp(provider);
+        actions.setBudget(0.05);
+        await actions.generate();
+        expect(store.getState().usageSettings.allTime.cost).toBeGreaterThan(0.05);
+
+        await actions.generate();
+        await actions.regenerate(store.getState().results[0].id);
+        expect(stub.requests).toHaveLength(2);
+        expect(store.getState().errorMessage).toBe('Your budget of $0.05 has been reached. Raise it or reset the totals under "Usage and costs" to generate again.');
+
+        actions.setBudget(1);
+        await actions.generate();
+        expect(stub.requests).toHaveLength(4);
+        expect(new Set(store.getState().usageRecords.map(record => record.runId)).size).toBe(2);
+
+        actions.setBudget(0.01);
+        actions.resetUsage();
+        expect(store.getState()).toMatchObject({ usageRecords: [], usageSettings: { budget: 0.01, allTime: { requests: 0, cost: 0 } } });
+        await actions.generate();
+        expect(stub.requests).toHaveLength(6);
+    });
+});
+
+describe('generation queue', () => {
+    /** Like `createReadyApp`, with the queue kept in `jobs`. */
+    const createQueuedApp = async (provider: AgingProvider, jobs: JobStore, notifier?: Notifier) => {
+        const app = createTestApp(provider, undefined, undefined, { jobs, notifier });
+        await app.actions.handleFiles([createPhotoFile()]);
+        app.actions.setTimelineField('customAges', '40, 60');
+        return app;
+    };
+
+    const createNotifier = () => ({ requestPermission: vi.fn(), notify: vi.fn() });
+
+    it('saves every finished image with the queue and clears it once all cards are done', async () => {
+        const jobs = createMemoryJobStore();
+        let release!: () => void;
+        const held = new Promise<void>(resolve => release = resolve);
+        const provider = new StubProvider(async request => {
+            if (request.age === 60) await held;
+            return imageForAge(request.age);
+        });
+        const { actions } = await createQueuedApp(provider, jobs);
+        const run = actions.generate();
+        await vi.waitFor(() => expect(jobs.saved?.jobs).toHaveLength(1));
+        const { session, jobs: queued } = jobs.saved!;
+        expect(queued[0].cardId).toMatch(/:60$/);
+        expect(statuses(session.results)).toEqual({ 40: 'success', 60: 'loading' });
+        expect(session.people[0].image.base64).toBe(btoa('portrait'));
+
+        release();
+        await run;
+        await vi.waitFor(() => expect(jobs.saved).toBeNull());
+    });
+
+    it('picks up the queued cards after a reload and keeps the finished ones', async () => {
+        const jobs = createMemoryJobStore();
+        const first = await createQueuedApp(new StubProvider(request => request.age === 40 ? imageForAge(40) : waitForAbort(request)), jobs);
+        first.actions.generate();
+        await vi.waitFor(() => expect(jobs.saved?.jobs).toHaveLength(1));
+
+        // The page goes away mid-run; a new one starts with the same storage.
+        const provider = new StubProvider();
+        const notifier = createNotifier();
+        const { store, actions } = createTestApp(provider, undefined, undefined, { jobs, notifier });
+        await actions.resumeQueue();
+        const state = store.getState();
+        expect(state.runState).toBe('done');
+        expect(state.results.map(card => [card.age, card.status, card.imageUrl])).toEqual([
+            [40, 'success', `data:image/png;base64,${imageForAge(40).base64}`],
+            [60, 'success', `data:image/png;base64,${imageForAge(60).base64}`],
+        ]);
+        expect(provider.requests.map(request => [request.age, request.image.base64])).toEqual([[60, btoa('portrait')]]);
+        expect(getActivePerson(state).uploadedImage?.fileName).toBe('portrait');
+        expect(notifier.notify).toHaveBeenCalledOnce();
+        await vi.waitFor(() => expect(jobs.saved).toBeNull());
+    });
+
+    it('drops the queue when the run is cancelled, without notifying', async () => {
+        const jobs = createMemoryJobStore();
+        const notifier = createNotifier();
+        const { actions } = await createQueuedApp(new StubProvider(waitForAbort), jobs, notifier);
+        const run = actions.generate();
+        await vi.waitFor(() => expect(jobs.saved?.jobs).toHaveLength(2));
+        actions.cancel();
+        await run;
+        await vi.waitFor(() => expect(jobs.saved).toBeNull());
+        expect(notifier.notify).not.toHaveBeenCalled();
+
+        const next = createTestApp(new StubProvider(), undefined, undefined, { jobs });
+        await next.actions.resumeQueue();
+        expect(next.store.getState().results).toEqual([]);
+    });
+
+    it('explains why nothing resumes while another tab blocks the storage upgrade', async () => {
+        vi.spyOn(console, 'warn').mockImplementation(() => {});
+        const jobs = createMemoryJobStore();
+        jobs.load = () => Promise.reject(new SessionStoreBlockedError('Close the other tab.'));
+        const { store, actions } = createTestApp(new StubProvider(), undefined, undefined, { jobs });
+        await actions.resumeQueue();
+        expect(store.getState()).toMatchObject({ runState: 'idle', results: [], errorMessage: 'Close the other tab.' });
+    });
+
+    it('asks to notify when a run starts and reports how it went when it finishes', async () => {
+        const notifier = createNotifier();
+        const provider = new StubProvider(request => request.age === 60 ? Promise.reject(blocked()) : imageForAge(request.age));
+        const { actions } = await createQueuedApp(provider, createMemoryJobStore(), notifier);
+        await actions.generate();
+        expect(notifier.requestPermission).toHaveBeenCalledOnce();
+        expect(notifier.notify).toHaveBeenCalledOnce();
+        expect(notifier.notify).toHaveBeenCalledWith('Your timeline is ready', '1 of 2 ready, 1 failed. Open TimeMirror to see your images.');
+    });
+});
+
+describe('session history', () => {
+    it('explains a session that cannot be read instead of failing silently', async () => {
+        // jsdom has no IndexedDB, so opening the database fails like a broken one would.
+        const { store, actions } = createTestApp();
+        await expect(actions.openSession('missing')).resolves.toBeUndefined();
+        expect(store.getState()).toMatchObject({ errorMessage: 'This session could not be opened.', activeSession: null });
+    });
+});
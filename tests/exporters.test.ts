@@ -0,0 +1,47 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, expect, it } from "vitest";
+import { getDefaultAppearance } from "../appearance";
+import { ExportPerson, ExportSource, buildManifest, getCardFileName } from "../exporters";
+import { getDefaultFactors } from "../factors";
+import { DEFAULT_TIMELINE_SETTINGS } from "../timeline";
+import { ResultCard, Scenario } from "../types";
+
+const scenario = (id: string, name: string): Scenario =>
+    ({ id, name, factors: getDefaultFactors(), appearance: getDefaultAppearance() });
+
+const person = (id: string, name: string, scenarios: Scenario[]): ExportPerson => ({
+    id, name, baseName: 'group', photoUrl: null, scenarios, timeline: DEFAULT_TIMELINE_SETTINGS,
+});
+
+const card = (personId: string, scenarioId: string, age: number): ResultCard => ({
+    id: `${scenarioId}:${age}`, personId, scenarioId, age, year: 2000 + age, status: 'success',
+    imageUrl: 'data:image/png;base64,aW1hZ2U=', prompt: 'Age this person.', factors: getDefaultFactors(),
+});
+
+describe('getCardFileName', () => {
+    it('gives every image its own name when people or scenarios share a name', () => {
+        const source: ExportSource = {
+            baseName: 'group',
+            people: [
+                person('p1', 'Anna', [scenario('s1', 'Здоровье'), scenario('s2', '健康')]),
+                person('p2', 'Anna', [scenario('s3', 'Healthy')]),
+                person('p3', 'Anna 2', [scenario('s4', 'Healthy')]),
+            ],
+            cards: [card('p1', 's1', 60), card('p1', 's2', 60), card('p2', 's3', 60), card('p3', 's4', 60)],
+            provider: { id: 'mock', model: 'stub' },
+        };
+        const names = source.cards.map(result => getCardFileName(source, result));
+        expect(names).toEqual([
+            'group_anna_scenario_age60.png',
+            'group_anna_scenario-2_age60.png',
+            'group_anna-3_age60.png',
+            'group_anna-2_age60.png',
+        ]);
+        expect(buildManifest(source).results.map(result => result.file)).toEqual(names);
+    });
+});
@@ -0,0 +1,117 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { vi } from "vitest";
+import { CameraDevice } from "../camera";
+import { ControllerDependencies, createAppController } from "../controller";
+import { ImagePipeline } from "../preprocess";
+import { AgingProvider, AgingRequest, AgingResult, createAbortError } from "../providers";
+import { QueueConfig, RequestQueue } from "../queue";
+import { JobStore, StoredQueue } from "../sessionStore";
+import { createInitialState } from "../state";
+import { Store } from "../store";
+
+export const TEST_QUEUE_CONFIG: QueueConfig = { concurrency: 2, maxRetries: 2, baseDelayMs: 0, maxDelayMs: 0 };
+
+/** The image a stubbed model returns for an age, so tests can tell which request produced it. */
+export const imageForAge = (age: number): AgingResult => ({ base64: btoa(`age-${age}`), mimeType: 'image/png' });
+
+type Respond = (request: AgingRequest, attempt: number) => AgingResult | Promise<AgingResult>;
+
+/**
+ * Stands in for the model client. Every request is recorded and answered by `respond`,
+ * which also receives how often the same age has been requested so far.
+ */
+export class StubProvider implements AgingProvider {
+    readonly id = 'mock';
+    readonly model = 'stub';
+    readonly requests: AgingRequest[] = [];
+
+    constructor(private readonly respond: Respond = request => imageForAge(request.age)) {}
+
+    async generate(request: AgingRequest): Promise<AgingResult> {
+        this.requests.push(request);
+        const attempt = this.requests.filter(other => other.age === request.age).length;
+        return this.respond(request, attempt);
+    }
+
+    requestsForAge(age: number): AgingRequest[] {
+        return this.requests.filter(request => request.age === age);
+    }
+}
+
+/** A response that never arrives, unless the request is aborted. */
+export const waitForAbort = (request: AgingRequest) => new Promise<AgingResult>((_, reject) => {
+    request.signal?.addEventListener('abort', () => reject(createAbortError()), { once: true });
+});
+
+/** Photo steps that skip decoding, which jsdom cannot do. */
+export const createStubImagePipeline = (overrides: Partial<ImagePipeline> = {}): ImagePipeline => ({
+    loadSourcePhoto: async file => ({
+        canvas: document.createElement('canvas'),
+        fileName: file.name.replace(/\.[^.]+$/, ''),
+        originalMimeType: file.type,
+        originalBytes: file.size,
+    }),
+    detectFaceCrop: async () => null,
+    detectFaceCrops: async () => [],
+    // The file name stands in for the pixels, so tests can tell whose photo a request carried.
+    renderProcessedImage: async photo => ({
+        base64: btoa(photo.fileName), mimeType: 'image/jpeg', blob: new Blob([photo.fileName]), width: 512, height: 512,
+    }),
+    ...overrides,
+});
+
+/** A camera whose stream is a stand-in with one video track; each capture is a file named after the shot number. */
+export const createFakeCamera = (overrides: Partial<CameraDevice> = {}) => {
+    const track = { kind: 'video', stop: vi.fn() };
+    const stream = { getTracks: () => [track], getVideoTracks: () => [track] } as unknown as MediaStream;
+    let shots = 0;
+    const device: CameraDevice = {
+        open: vi.fn(async () => stream),
+        capture: vi.fn(async () => new File(['frame'], `shot-${++shots}.jpg`, { type: 'image/jpeg' })),
+        ...overrides,
+    };
+    return { device, stream, track };
+};
+
+/** Keeps the generation queue in memory; pass the same one to a second app to simulate a reload. */
+export const createMemoryJobStore = () => {
+    const jobs: JobStore & { saved: StoredQueue | null } = {
+        saved: null,
+        // Copies, like IndexedDB, so the app never shares objects with what it saved.
+        load: async () => jobs.saved && JSON.parse(JSON.stringify(jobs.saved)),
+        save: async queue => { jobs.saved = JSON.parse(JSON.stringify(queue)); },
+        clear: async () => { jobs.saved = null; },
+    };
+    return jobs;
+};
+
+export const createPhotoFile = (name = 'portrait.jpg') => new File(['photo'], name, { type: 'image/jpeg' });
+
+export const createTestApp = (
+    provider: AgingProvider = new StubProvider(), images = createStubImagePipeline(), camera = createFakeCamera().device,
+    dependencies: Partial<ControllerDependencies> = {},
+) => {
+    const store = new Store(createInitialState());
+    const actions = createAppController(store, {
+        provider,
+        queue: new RequestQueue(TEST_QUEUE_CONFIG.concurrency),
+        queueConfig: TEST_QUEUE_CONFIG,
+        images,
+        camera,
+        ...dependencies,
+    });
+    return { store, actions };
+};
+
+/** An app with one uploaded photo and the given ages on the timeline, ready to generate. */
+export const createReadyApp = async (provider: AgingProvider, ages = '40, 60') => {
+    const app = createTestApp(provider);
+    await app.actions.handleFiles([createPhotoFile()]);
+    app.actions.setTimelineField('customAges', ages);
+    return app;
+};
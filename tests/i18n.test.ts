@@ -0,0 +1,135 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { afterEach, describe, expect, it } from "vitest";
+import { startApp } from "../bootstrap";
+import { FACTOR_REGISTRY, getDefaultFactors } from "../factors";
+import {
+    DEFAULT_LOCALE, MessageKey, SUPPORTED_LOCALES, detectLocale, formatNumber, loadLocaleSettings, setUiLocale, t, translate,
+} from "../i18n";
+import de from "../locales/de.json";
+import en from "../locales/en.json";
+import es from "../locales/es.json";
+import { createPrompt, getPresetTemplate } from "../prompt";
+import { AppState } from "../state";
+import { StubProvider, createPhotoFile, createTestApp } from "./helpers";
+
+const CATALOGS: Record<string, Record<string, unknown>> = { en, es, de };
+
+const getTemplateBody = (state: AppState, id: string) => state.promptTemplates.find(template => template.id === id)!.body;
+
+const getSlots = (message: unknown): string[] => {
+    const texts = typeof message === 'string' ? [message] : Object.values(message as Record<string, string>);
+    return [...new Set(texts.flatMap(text => [...text.matchAll(/\{(\w+)\}/g)].map(match => match[1])))].sort();
+};
+
+afterEach(() => {
+    setUiLocale(DEFAULT_LOCALE);
+    localStorage.clear();
+    document.body.replaceChildren();
+});
+
+describe('catalogs', () => {
+    it.each(SUPPORTED_LOCALES.filter(locale => locale.id !== 'en'))('$name has every English message with the same slots', ({ id }) => {
+        const catalog = CATALOGS[id];
+        expect(Object.keys(catalog).sort()).toEqual(Object.keys(en).sort());
+        Object.entries(en).forEach(([key, message]) => {
+            expect({ key, slots: getSlots(catalog[key]) }).toEqual({ key, slots: getSlots(message) });
+        });
+    });
+
+    it('has a label, tooltip and wording for every factor band', () => {
+        FACTOR_REGISTRY.forEach(factor => {
+            const keys = ['label', 'tooltip', ...factor.bands.map((_, index) => `band${index}`)].map(part => `factor.${factor.id}.${part}`);
+            keys.forEach(key => expect(en).toHaveProperty([key]));
+        });
+    });
+});
+
+describe('translate', () => {
+    it('picks the plural form for the locale', () => {
+        expect(t('facePicker.add', { count: 1 })).toBe('Use this face');
+        expect(t('facePicker.add', { count: 3 })).toBe('Add 3 people');
+        expect(translate('de', 'session.people', { count: 1 })).toBe('1 Person');
+        expect(translate('de', 'session.people', { count: 2 })).toBe('2 Personen');
+    });
+
+    it('leaves slots without a value as written', () => {
+        expect(translate('en', 'prompt.target.older', { age: 60 })).toBe('will look at exactly 60 years old, in the year {year}');
+    });
+
+    it('falls back to the key for unknown messages', () => {
+        expect(t('missing.key' as MessageKey)).toBe('missing.key');
+    });
+
+    it('formats numbers for the locale without grouping years', () => {
+        expect(formatNumber(2055, 'de')).toBe('2055');
+        expect(formatNumber(1.5, 'de')).toBe('1,5');
+        expect(formatNumber(1.5, 'en')).toBe('1.5');
+    });
+});
+
+describe('locale settings', () => {
+    it('detects the first supported browser language', () => {
+        expect(detectLocale(['fr-FR', 'de-AT', 'en'])).toBe('de');
+        expect(detectLocale(['fr-FR'])).toBe(DEFAULT_LOCALE);
+    });
+
+    it('keeps prompts in English until a prompt language is chosen', () => {
+        const { actions } = createTestApp();
+        actions.setUiLocale('es');
+        expect(loadLocaleSettings()).toEqual({ uiLocale: 'es', promptLocale: 'en' });
+    });
+});
+
+describe('prompt language', () => {
+    const point = { age: 60, year: 2055 };
+
+    it('writes prompts in the prompt language whatever the interface language', () => {
+        setUiLocale('de');
+        const prompt = createPrompt(point, 30, getDefaultFactors(), getPresetTemplate('flattering', 'es'), undefined, 'es');
+        expect(prompt).toContain('tal como se verá con exactamente 60 años, en el año 2055');
+        expect(prompt).toContain('La persona nunca ha fumado.');
+        expect(t('controls.generate')).toBe('Meine Zukunft zeigen');
+    });
+
+    it('swaps unedited presets and keeps edited templates', () => {
+        const { store, actions } = createTestApp();
+        actions.selectTemplate('realistic');
+        actions.saveTemplate('My own {target} prompt.');
+        actions.setPromptLocale('de');
+
+        const state = store.getState();
+        expect(getTemplateBody(state, 'realistic')).toBe('My own {target} prompt.');
+        expect(getTemplateBody(state, 'flattering')).toBe(getPresetTemplate('flattering', 'de')!.body);
+        expect(state.promptTemplates.find(template => template.id === 'flattering')!.version).toBe(1);
+    });
+
+    it('renders generation prompts in the prompt language', async () => {
+        const provider = new StubProvider();
+        const { actions } = createTestApp(provider);
+        actions.setPromptLocale('es');
+        await actions.handleFiles([createPhotoFile()]);
+        actions.setTimelineField('customAges', '60');
+        await actions.generate();
+        expect(provider.requestsForAge(60)[0].prompt).toContain('La persona');
+    });
+});
+
+describe('interface language', () => {
+    it('rebuilds the interface in the chosen language', () => {
+        const root = document.body.appendChild(document.createElement('div'));
+        const { actions } = startApp(root, { provider: new StubProvider() });
+        expect(root.querySelector('#generate-button')!.textContent).toBe('Envision My Future');
+
+        actions.setUiLocale('de');
+        expect(document.documentElement.lang).toBe('de');
+        expect(root.querySelectorAll('#app-container')).toHaveLength(1);
+        expect(root.querySelector('#generate-button')!.textContent).toBe('Meine Zukunft zeigen');
+        expect(root.querySelector<HTMLSelectElement>('#ui-locale-select')!.value).toBe('de');
+        expect(root.querySelector<HTMLSelectElement>('#prompt-locale-select')!.value).toBe('en');
+    });
+});
@@ -0,0 +1,155 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createApp } from "../components/app";
+import { AgingProviderError } from "../providers";
+import { StubProvider, createReadyApp, imageForAge } from "./helpers";
+
+const query = <T extends HTMLElement = HTMLElement>(selector: string) => document.querySelector<T>(selector)!;
+
+const press = (target: HTMLElement, key: string, options: KeyboardEventInit = {}) =>
+    target.dispatchEvent(new KeyboardEvent('keydown', { key, bubbles: true, cancelable: true, ...options }));
+
+const imageUrl = (age: number) => `data:image/png;base64,${imageForAge(age).base64}`;
+
+/** A finished run for ages 40, 50 and 60 where 50 was blocked, rendered into the page. */
+const createFinishedApp = async () => {
+    const provider = new StubProvider(request => {
+        if (request.age === 50) throw new AgingProviderError('Blocked.', 'mock', 'safety');
+        return imageForAge(request.age);
+    });
+    const app = await createReadyApp(provider, '40, 50, 60');
+    document.body.replaceChildren(createApp(app.store, app.actions, { maxAttempts: 3 }));
+    await app.actions.generate();
+    const cardId = (age: number) => app.store.getState().results.find(card => card.age === age)!.id;
+    return { ...app, cardId };
+};
+
+beforeEach(() => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    // Jump between years instead of cross-fading, so each step can be checked at once.
+    vi.stubGlobal('matchMedia', vi.fn().mockReturnValue({ matches: true }));
+});
+
+afterEach(() => {
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+    document.body.replaceChildren();
+});
+
+describe('lightbox actions', () => {
+    it('opens finished images only', async () => {
+        const { store, actions, cardId } = await createFinishedApp();
+        actions.openLightbox(cardId(50));
+        expect(store.getState().lightbox).toBeNull();
+        actions.openLightbox(cardId(40));
+        expect(store.getState().lightbox).toEqual({ cardId: cardId(40), split: 50 });
+    });
+
+    it('steps over failed images and stops at either end', async () => {
+        const { store, actions, cardId } = await createFinishedApp();
+        actions.openLightbox(cardId(40));
+        actions.stepLightbox(1);
+        expect(store.getState().lightbox!.cardId).toBe(cardId(60));
+        actions.stepLightbox(1);
+        expect(store.getState().lightbox!.cardId).toBe(cardId(60));
+        actions.stepLightbox(-5);
+        expect(store.getState().lightbox!.cardId).toBe(cardId(40));
+    });
+
+    it('keeps the divider within the image', async () => {
+        const { store, actions, cardId } = await createFinishedApp();
+        actions.openLightbox(cardId(40));
+        actions.setLightboxSplit(130.4);
+        expect(store.getState().lightbox!.split).toBe(100);
+        actions.setLightboxSplit(-3);
+        expect(store.getState().lightbox!.split).toBe(0);
+    });
+
+    it('closes when a new run replaces the results', async () => {
+        const { store, actions, cardId } = await createFinishedApp();
+        actions.openLightbox(cardId(40));
+        await actions.generate();
+        expect(store.getState().lightbox).toBeNull();
+    });
+});
+
+describe('lightbox view', () => {
+    it('opens from a card and moves through the years with the arrow keys', async () => {
+        await createFinishedApp();
+        const openButton = query<HTMLButtonElement>('.result-card-open');
+        expect(openButton.getAttribute('aria-label')).toBe('View age 40 full size');
+        openButton.click();
+
+        const dialog = query('.lightbox-dialog');
+        expect(query('#lightbox').hidden).toBe(false);
+        expect(document.activeElement).toBe(dialog);
+        expect(query('#lightbox-title').textContent).toBe(`Age 40 (${new Date().getFullYear() + 10})`);
+        expect(query<HTMLImageElement>('.lightbox-image').getAttribute('src')).toBe(imageUrl(40));
+
+        press(dialog, 'ArrowRight');
+        expect(query('#lightbox-title').textContent).toBe(`Age 60 (${new Date().getFullYear() + 30})`);
+        expect(query<HTMLImageElement>('.lightbox-image').getAttribute('src')).toBe(imageUrl(60));
+        expect(query<HTMLInputElement>('.lightbox-scrubber').value).toBe('1');
+    });
+
+    it('moves the divider from the keyboard and announces it', async () => {
+        const { store } = await createFinishedApp();
+        query<HTMLButtonElement>('.result-card-open').click();
+        const divider = query('.lightbox-divider');
+        expect(query<HTMLImageElement>('.lightbox-before img').getAttribute('src')).toBe(store.getState().people[0].uploadedImage!.objectURL);
+
+        press(divider, 'ArrowLeft');
+        expect(divider.getAttribute('aria-valuenow')).toBe('45');
+        expect(divider.getAttribute('aria-valuetext')).toBe('Your photo shown on 45% of the image');
+        expect(query('.lightbox-before').style.clipPath).toBe('inset(0 55% 0 0)');
+        press(divider, 'End');
+        expect(divider.getAttribute('aria-valuenow')).toBe('100');
+        // The divider keeps the arrow keys, so the year stays put.
+        expect(query('#lightbox-title').textContent).toMatch(/^Age 40/);
+    });
+
+    it('zooms with the buttons and the keyboard', async () => {
+        await createFinishedApp();
+        query<HTMLButtonElement>('.result-card-open').click();
+        const zoomIn = query<HTMLButtonElement>('.lightbox-zoom-in');
+        const reset = query<HTMLButtonElement>('.lightbox-zoom-reset');
+        expect(query<HTMLButtonElement>('.lightbox-zoom-out').disabled).toBe(true);
+
+        zoomIn.click();
+        expect(reset.textContent).toBe('125%');
+        expect(query('.lightbox-stage').style.getPropertyValue('--lightbox-zoom')).toBe('1.25');
+        press(query('.lightbox-dialog'), '+');
+        expect(reset.getAttribute('aria-label')).toBe('Reset zoom (156%)');
+        press(query('.lightbox-dialog'), '0');
+        expect(reset.textContent).toBe('100%');
+    });
+
+    it('closes with Escape and returns focus to the card now showing', async () => {
+        const { store } = await createFinishedApp();
+        query<HTMLButtonElement>('.result-card-open').click();
+        press(query('.lightbox-dialog'), 'ArrowRight');
+        press(query('.lightbox-dialog'), 'Escape');
+
+        expect(store.getState().lightbox).toBeNull();
+        expect(query('#lightbox').hidden).toBe(true);
+        const cards = document.querySelectorAll('.result-card-open');
+        expect(document.activeElement).toBe(cards[cards.length - 1]);
+    });
+
+    it('keeps Tab inside the viewer', async () => {
+        await createFinishedApp();
+        query<HTMLButtonElement>('.result-card-open').click();
+        const scrubber = query<HTMLInputElement>('.lightbox-scrubber');
+        scrubber.focus();
+        press(scrubber, 'Tab');
+        // Zooming out is disabled at 100%, so the reset button comes first.
+        expect(document.activeElement).toBe(query('.lightbox-zoom-reset'));
+        press(document.activeElement as HTMLElement, 'Tab', { shiftKey: true });
+        expect(document.activeElement).toBe(scrubber);
+    });
+});
@@ -0,0 +1,111 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, expect, it } from "vitest";
+import { Appearance, getDefaultAppearance } from "../appearance";
+import { FACTOR_REGISTRY, getDefaultFactors, getFactorLabel } from "../factors";
+import { SUPPORTED_LOCALES } from "../i18n";
+import en from "../locales/en.json";
+import { createPrompt, findUnknownPlaceholders, getPresetTemplates, renderPromptTemplate } from "../prompt";
+
+const CURRENT_AGE = 30;
+const point = { age: 60, year: 2055 };
+
+describe('createPrompt', () => {
+    // Every band of every factor, at the slider value that opens it and the one that closes it.
+    // The wording comes straight from the catalog by band number, so a value mapped to the wrong band fails.
+    const cases = FACTOR_REGISTRY.flatMap(factor => factor.bands.flatMap((band, index) => {
+        const lowest = index === 0 ? factor.min : factor.bands[index - 1].max + 1;
+        return [...new Set([lowest, band.max])].map(value => ({
+            factor, id: factor.id, value, label: getFactorLabel(factor, 'en'),
+            wording: en[`factor.${factor.id}.band${index}` as keyof typeof en] as string,
+        }));
+    }));
+
+    it.each(cases)('describes $id at $value', ({ factor, value, label, wording }) => {
+        const prompt = createPrompt(point, CURRENT_AGE, { ...getDefaultFactors(), [factor.id]: value });
+        const line = prompt.split('\n').find(text => text.includes(`${label} (`));
+        expect(line).toContain(`${label} (${value}/${factor.max},`);
+        expect(line).toContain(`The person ${wording}.`);
+    });
+
+    it('words the ends of the smoking scale as written in the catalog', () => {
+        const smokingLine = (smoking: number) => createPrompt(point, CURRENT_AGE, { ...getDefaultFactors(), smoking })
+            .split('\n').find(text => text.includes('Smoking ('));
+        expect(smokingLine(0)).toContain('The person has never smoked.');
+        expect(smokingLine(10)).toContain('The person has smoked very heavily for decades, with deep perioral wrinkles, leathery grey skin and yellowed teeth.');
+    });
+
+    it('lists every factor exactly once', () => {
+        const prompt = createPrompt(point, CURRENT_AGE, getDefaultFactors());
+        FACTOR_REGISTRY.forEach(factor => {
+            expect(prompt.split(`${getFactorLabel(factor, 'en')} (`)).toHaveLength(2);
+        });
+    });
+
+    it('grades the effect and lists the strongest influences first', () => {
+        const factors = { ...getDefaultFactors(), smoking: 10, skincare: 5, sunExposure: 4 };
+        const lines = createPrompt(point, CURRENT_AGE, factors).split('\n').filter(line => line.startsWith('  - '));
+        expect(lines[0]).toContain('Smoking (10/10, strong visible effect)');
+        expect(lines[1]).toContain('Sun Exposure (4/10, subtle visible effect)');
+        expect(lines.find(line => line.includes('Stress'))).toContain('no visible effect');
+    });
+
+    it('asks for age progression for older ages', () => {
+        const prompt = createPrompt(point, CURRENT_AGE, getDefaultFactors());
+        expect(prompt).toContain('will look at exactly 60 years old, in the year 2055');
+        expect(prompt).toContain('Show 30 more years of aging');
+    });
+
+    it('asks for de-aging for younger ages', () => {
+        const prompt = createPrompt({ age: 20, year: 2015 }, CURRENT_AGE, getDefaultFactors());
+        expect(prompt).toContain('looked at exactly 20 years old, around the year 2015');
+        expect(prompt).toContain('Remove 10 years of aging');
+        expect(prompt).toContain('already be visible at age 20');
+    });
+
+    it.each(SUPPORTED_LOCALES)('fills every placeholder in every $name preset', ({ id: locale }) => {
+        getPresetTemplates(locale).forEach(template => {
+            expect(findUnknownPlaceholders(template.body)).toEqual([]);
+            expect(createPrompt(point, CURRENT_AGE, getDefaultFactors(), template, undefined, locale)).not.toMatch(/\{\w+\}/);
+        });
+    });
+
+    it('leaves unknown placeholders as written, including built-in object property names', () => {
+        const body = 'Age {age}; {constructor} {toString} {nope}';
+        expect(renderPromptTemplate({ body }, point, CURRENT_AGE, getDefaultFactors()))
+            .toBe('Age 60; {constructor} {toString} {nope}');
+        expect(findUnknownPlaceholders(body)).toEqual(['constructor', 'toString', 'nope']);
+    });
+
+    it('appends appearance choices last, so they override the template', () => {
+        const appearance: Appearance = { greyHair: 80, hairLoss: 'receding', glasses: false, facialHair: 'beard', expression: 'smile' };
+        const source = { age: 50, hasIdentityReference: false };
+        const lines = createPrompt(point, CURRENT_AGE, getDefaultFactors(), undefined, source, 'en', appearance).split('\n');
+        expect(lines.slice(-6)).toEqual([
+            '- Appearance: Apply these choices exactly, even where the instructions above say otherwise:',
+            '  - Hair colour: About 80% of the hair is grey.',
+            '  - Hair: A receding hairline at the temples and forehead.',
+            '  - Glasses: No glasses.',
+            '  - Facial hair: A full, well-kept beard.',
+            '  - Expression: A gentle, closed-mouth smile.',
+        ]);
+        expect(createPrompt(point, CURRENT_AGE, getDefaultFactors(), undefined, undefined, 'en', { ...getDefaultAppearance(), greyHair: 0 }))
+            .toContain('No grey hair at all');
+        expect(createPrompt(point, CURRENT_AGE, getDefaultFactors(), undefined, undefined, 'en', getDefaultAppearance()))
+            .toBe(createPrompt(point, CURRENT_AGE, getDefaultFactors()));
+    });
+
+    it('renders a progressive step relative to its source age', () => {
+        const source = { age: 50, hasIdentityReference: true };
+        const prompt = createPrompt(point, CURRENT_AGE, getDefaultFactors(), undefined, source);
+        expect(prompt).toContain('Show 10 more years of aging');
+        expect(prompt).toContain('already projected at age 50');
+        expect(prompt).toContain('original, unedited photo of the same person at age 30');
+        expect(createPrompt(point, CURRENT_AGE, getDefaultFactors(), undefined, { ...source, hasIdentityReference: false }))
+            .not.toContain('Identity reference');
+    });
+});
@@ -0,0 +1,165 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// @vitest-environment node
+
+import { AddressInfo } from "node:net";
+import { Server } from "node:http";
+import { UserConfig } from "vite";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+    AGE_ENDPOINT, AgingProvider, AgingProviderError, AgingRequest, ProxyAgingRequest, ProxyProvider, parseRetryAfter,
+} from "../providers";
+import { MockProvider } from "../providers/mock";
+import { RequestQueue, withRetry } from "../queue";
+import { createProxyServer } from "../server/app";
+import { ServerConfig, getServerConfig } from "../server/config";
+import { RateLimiter } from "../server/rateLimiter";
+import viteConfig from "../vite.config";
+
+const TEST_SERVER_CONFIG: ServerConfig = {
+    ...getServerConfig({ PROXY_PROVIDER: 'mock' }),
+    port: 0,
+    rateLimit: 3,
+    maxBodyBytes: 64 * 1024,
+    staticDir: 'no-such-dir',
+};
+
+const photo = { base64: btoa('portrait'), mimeType: 'image/jpeg' };
+const request = (age = 60): AgingRequest => ({ prompt: `Age this person to ${age}.`, image: photo, age, year: 2055 });
+
+let server: Server | null = null;
+
+/** Starts a proxy on a free port and returns its URL. */
+const startProxy = async (provider: AgingProvider, config: Partial<ServerConfig> = {}): Promise<string> => {
+    server = createProxyServer({ ...TEST_SERVER_CONFIG, ...config }, provider);
+    await new Promise<void>(resolve => server!.listen(0, '127.0.0.1', resolve));
+    return `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+};
+
+const post = (baseUrl: string, body: string) =>
+    fetch(`${baseUrl}${AGE_ENDPOINT}`, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body });
+
+beforeEach(() => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(async () => {
+    server?.closeAllConnections();
+    await new Promise(resolve => server?.close(resolve) ?? resolve(null));
+    server = null;
+});
+
+describe('proxy server', () => {
+    it('generates through the mock provider', async () => {
+        const client = new ProxyProvider(await startProxy(new MockProvider('mock-tint', 0)));
+        await expect(client.generate(request())).resolves.toEqual(photo);
+        expect(client.model).toBe('mock-tint');
+    });
+
+    it('passes provider failures on with their reason', async () => {
+        const blocked: AgingProvider = {
+            id: 'mock',
+            model: 'blocked',
+            generate: async () => {
+                throw new AgingProviderError('Blocked.', 'mock', 'safety', { modelText: 'I cannot edit this photo.' });
+            },
+        };
+        const client = new ProxyProvider(await startProxy(blocked));
+        const error = await client.generate(request()).catch(caught => caught);
+        expect(error).toBeInstanceOf(AgingProviderError);
+        expect(error).toMatchObject({ providerId: 'proxy', reason: 'safety', modelText: 'I cannot edit this photo.', retryable: false });
+    });
+
+    it('rate limits each client', async () => {
+        const baseUrl = await startProxy(new MockProvider('mock-tint', 0), { rateLimit: 2 });
+        const client = new ProxyProvider(baseUrl);
+        await client.generate(request(40));
+        await client.generate(request(50));
+
+        const error = await client.generate(request(60)).catch(caught => caught);
+        expect(error).toMatchObject({ reason: 'rate-limit', retryable: true });
+        const response = await post(baseUrl, JSON.stringify(request(70)));
+        expect(response.status).toBe(429);
+        expect(Number(response.headers.get('Retry-After'))).toBeGreaterThan(0);
+    });
+
+    it('carries a run past the rate limit by waiting as long as the proxy asks', async () => {
+        const baseUrl = await startProxy(new MockProvider('mock-tint', 0), { rateLimit: 2, rateWindowMs: 1000 });
+        const client = new ProxyProvider(baseUrl);
+        const queue = new RequestQueue(2);
+        const retries: number[] = [];
+        // No backoff of its own, so only the proxy's Retry-After spaces the retries out.
+        const options = { maxRetries: 1, baseDelayMs: 0, maxDelayMs: 0, onRetry: (attempt: number) => retries.push(attempt) };
+        const results = await Promise.all([40, 50, 60, 70].map(age =>
+            queue.run(() => withRetry(() => client.generate(request(age)), options))));
+        expect(results).toEqual([photo, photo, photo, photo]);
+        expect(retries).toEqual([2, 2]);
+    });
+
+    it('reads Retry-After in seconds or as a date', () => {
+        const now = Date.parse('2025-01-01T00:00:00Z');
+        expect(parseRetryAfter('3', now)).toBe(3000);
+        expect(parseRetryAfter('Wed, 01 Jan 2025 00:00:05 GMT', now)).toBe(5000);
+        expect(parseRetryAfter('soon', now)).toBeUndefined();
+        expect(parseRetryAfter(null, now)).toBeUndefined();
+    });
+
+    it('refuses oversized and malformed requests without calling the provider', async () => {
+        const generate = vi.fn();
+        const baseUrl = await startProxy({ id: 'mock', model: 'spy', generate });
+
+        const oversized: ProxyAgingRequest = { ...request(), image: { ...photo, base64: 'A'.repeat(100 * 1024) } };
+        expect((await post(baseUrl, JSON.stringify(oversized))).status).toBe(413);
+        expect((await post(baseUrl, '{not json')).status).toBe(400);
+        const missingImage = await post(baseUrl, JSON.stringify({ ...request(), image: undefined }));
+        expect(missingImage.status).toBe(400);
+        expect((await missingImage.json()).error.message).toContain('"image"');
+        expect((await fetch(`${baseUrl}${AGE_ENDPOINT}`)).status).toBe(405);
+        expect(generate).not.toHaveBeenCalled();
+    });
+
+    it('reports an unreachable proxy as a network failure', async () => {
+        const baseUrl = await startProxy(new MockProvider('mock-tint', 0));
+        await new Promise(resolve => server!.close(resolve));
+        server = null;
+        await expect(new ProxyProvider(baseUrl).generate(request())).rejects.toMatchObject({ reason: 'network', retryable: true });
+    });
+});
+
+describe('rate limiter', () => {
+    it('frees a slot once the oldest request leaves the window', () => {
+        let now = 0;
+        const limiter = new RateLimiter(2, 1000, () => now);
+        expect(limiter.take('a')).toBe(0);
+        now = 400;
+        expect(limiter.take('a')).toBe(0);
+        expect(limiter.take('a')).toBe(600);
+        expect(limiter.take('b')).toBe(0);
+        now = 1000;
+        expect(limiter.take('a')).toBe(0);
+    });
+});
+
+describe('client bundle', () => {
+    const env = { ...process.env };
+    const resolveConfig = () => (viteConfig as (env: { mode: string; command: 'build' }) => UserConfig)({ mode: 'test', command: 'build' });
+
+    afterEach(() => {
+        process.env = env;
+    });
+
+    it('leaves the API key out in proxy mode', () => {
+        process.env = { ...env, GEMINI_API_KEY: 'secret-key', AGING_PROVIDER: 'proxy' };
+        const config = resolveConfig();
+        expect(JSON.stringify(config.define)).not.toContain('secret-key');
+        expect(config.server!.proxy).toEqual({ '/api': 'http://localhost:8787' });
+
+        process.env = { ...env, GEMINI_API_KEY: 'secret-key', AGING_PROVIDER: 'gemini' };
+        const direct = resolveConfig();
+        expect(direct.define!['process.env.API_KEY']).toBe('"secret-key"');
+    });
+});
@@ -0,0 +1,72 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, expect, it } from "vitest";
+import { getDefaultAppearance } from "../appearance";
+import { ExportSource } from "../exporters";
+import { getDefaultFactors } from "../factors";
+import { buildReport } from "../report";
+import { DEFAULT_TIMELINE_SETTINGS } from "../timeline";
+import { ResultCard } from "../types";
+
+const IMAGE_URL = 'data:image/png;base64,aW1hZ2U=';
+
+const card = (age: number, changes: Partial<ResultCard> = {}): ResultCard => ({
+    id: `scenario-1:${age}`, personId: 'person-1', scenarioId: 'scenario-1', age, year: 2025 + age - 35,
+    status: 'success', imageUrl: IMAGE_URL, prompt: 'Age this person.', factors: getDefaultFactors(),
+    templateId: 'realistic', templateVersion: 2,
+    ...changes,
+});
+
+const createSource = (changes: Partial<ExportSource> = {}): ExportSource => ({
+    baseName: 'portrait',
+    cards: [card(60, { status: 'error', imageUrl: undefined, errorReason: 'safety' }), card(45)],
+    people: [{
+        id: 'person-1', name: 'Ana <script>', baseName: 'portrait', photoUrl: 'data:image/jpeg;base64,cGhvdG8=',
+        scenarios: [{
+            id: 'scenario-1', name: 'Healthy habits', factors: { ...getDefaultFactors(), smoking: 8 }, appearance: getDefaultAppearance(),
+        }],
+        timeline: { ...DEFAULT_TIMELINE_SETTINGS, currentAge: 35 },
+    }],
+    provider: { id: 'mock', model: 'stub' },
+    ...changes,
+});
+
+const parse = (html: string) => new DOMParser().parseFromString(html, 'text/html');
+
+describe('buildReport', () => {
+    it('lists every age with its year, image or failure, in age order', () => {
+        const report = parse(buildReport(createSource()));
+        const tiles = [...report.querySelectorAll('.tile')];
+        expect(tiles.map(tile => tile.querySelector('figcaption')!.textContent)).toEqual(['Age 45 · 2035', 'Age 60 · 2050']);
+        expect(tiles[0].querySelector('img')!.getAttribute('src')).toBe(IMAGE_URL);
+        expect(tiles[1].querySelector('.placeholder')!.textContent).toBe('Blocked');
+        expect(report.querySelector('.original')!.getAttribute('src')).toBe('data:image/jpeg;base64,cGhvdG8=');
+    });
+
+    it('records the factor values, appearance choices, the template and the disclaimer', () => {
+        const source = createSource();
+        source.cards.push(card(50, { appearance: { ...getDefaultAppearance(), greyHair: 60, glasses: true } }));
+        const report = parse(buildReport(source));
+        const smoking = [...report.querySelectorAll('.factors tbody tr')].find(row => row.querySelector('th')!.textContent === 'Smoking')!;
+        expect(smoking.querySelector('td')!.textContent).toMatch(/^8 \/ 10 · /);
+        expect(report.querySelector('.scenario .meta')!.textContent).toBe('Prompt template: Realistic (version 2)');
+        expect(report.querySelector('.appearance')!.textContent).toBe('60% grey · Glasses');
+        expect(report.querySelector('.disclaimer')!.textContent).toContain('not a medical assessment');
+        expect(report.documentElement.lang).toBe('en');
+    });
+
+    it('escapes names and leaves out anything that would load from elsewhere', () => {
+        const source = createSource();
+        source.cards.push(card(50, { imageUrl: 'https://example.com/age50.png' }));
+        const html = buildReport(source);
+        const report = parse(html);
+        expect(report.querySelector('h2')!.textContent).toBe('Ana <script>');
+        expect(report.querySelectorAll('script')).toHaveLength(0);
+        expect(html).not.toContain('example.com');
+        expect([...report.querySelectorAll('[src]')].every(element => element.getAttribute('src')!.startsWith('data:'))).toBe(true);
+    });
+});
@@ -0,0 +1,210 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, expect, it, vi } from "vitest";
+import { ResultCardProps, createResultCard } from "../components/resultCard";
+import { getDefaultAppearance } from "../appearance";
+import { AppActions } from "../controller";
+import { getDefaultFactors } from "../factors";
+import { ResultCard } from "../types";
+
+const IMAGE_URL = 'data:image/png;base64,aW1hZ2U=';
+
+const createCard = (changes: Partial<ResultCard> = {}): ResultCard => ({
+    id: 'scenario-1:60', personId: 'person-1', scenarioId: 'scenario-1', age: 60, year: 2055,
+    status: 'loading', prompt: 'Age this person.', factors: getDefaultFactors(),
+    ...changes,
+});
+
+const createProps = (changes: Partial<ResultCardProps> = {}): ResultCardProps => ({
+    card: createCard(),
+    personName: null,
+    scenarioName: null,
+    isSelected: false,
+    fileName: 'portrait_age60.png',
+    maxAttempts: 3,
+    source: { label: 'your photo', href: '#upload-section', isReady: true, withReference: false },
+    ...changes,
+});
+
+const createActions = () => ({ toggleCompare: vi.fn(), retry: vi.fn(), pickVariation: vi.fn(), regenerateWithAppearance: vi.fn() });
+
+const render = (props: ResultCardProps, actions = createActions()) =>
+    createResultCard(props, actions as unknown as AppActions);
+
+const text = (element: HTMLElement, selector: string) => element.querySelector(selector)?.textContent ?? null;
+
+describe('createResultCard', () => {
+    it('shows a placeholder while loading', () => {
+        const { element } = render(createProps());
+        expect(element.id).toBe('result-scenario-1:60');
+        expect(element.classList).toContain('result-card-loading');
+        expect(element.getAttribute('aria-label')).toBe('Age 60, 2055: generating');
+        expect(element.getAttribute('aria-busy')).toBe('true');
+        expect(element.querySelector('.shimmer-track')).not.toBeNull();
+        expect(text(element, '.result-card-age')).toBe('Age 60');
+        expect(text(element, '.result-card-year')).toBe('2055');
+        expect(text(element, '.result-card-source')).toBe('From your photo');
+        expect(element.querySelector('.result-card-note')).toBeNull();
+    });
+
+    it('shows which attempt a retried request is on', () => {
+        const { element } = render(createProps({ card: createCard({ attempt: 2 }) }));
+        expect(text(element, '.result-card-note')).toBe('Retrying (attempt 2 of 3)…');
+    });
+
+    it('waits for the card it is generated from', () => {
+        const source = { label: 'Age 50', href: '#result-scenario-1:50', isReady: false, withReference: true };
+        const { element } = render(createProps({ source }));
+        expect(text(element, '.result-card-note')).toBe('Waiting for Age 50…');
+        expect(element.getAttribute('aria-label')).toBe('Age 60, 2055: waiting for Age 50');
+        expect(element.querySelector('.result-card-source')).toBeNull();
+    });
+
+    it('shows a finished image with download and compare actions', () => {
+        const actions = createActions();
+        const { element } = render(createProps({
+            card: createCard({ status: 'success', imageUrl: IMAGE_URL }), scenarioName: 'Healthy habits',
+        }), actions);
+        expect(element.classList).toContain('result-card-success');
+        expect(element.getAttribute('aria-label')).toBe('Age 60 (Healthy habits), 2055: ready');
+        expect(element.getAttribute('aria-busy')).toBe('false');
+        const image = element.querySelector('img')!;
+        expect(image.src).toBe(IMAGE_URL);
+        expect(image.alt).toBe('You at age 60, in 2055, with the "Healthy habits" lifestyle');
+        const download = element.querySelector<HTMLAnchorElement>('.download-link')!;
+        expect(download.href).toBe(IMAGE_URL);
+        expect(download.download).toBe('portrait_age60.png');
+        expect(download.getAttribute('aria-label')).toBe('Download age 60 (Healthy habits)');
+
+        element.querySelector<HTMLButtonElement>('.compare-toggle')!.click();
+        expect(actions.toggleCompare).toHaveBeenCalledWith('scenario-1:60');
+    });
+
+    it('names the source card and the identity reference', () => {
+        const source = { label: 'Age 50', href: '#result-scenario-1:50', isReady: true, withReference: true };
+        const { element } = render(createProps({ card: createCard({ status: 'success', imageUrl: IMAGE_URL }), source }));
+        expect(text(element, '.result-card-source')).toBe('From Age 50 + your photo');
+        expect(element.querySelector<HTMLAnchorElement>('.result-card-source a')!.getAttribute('href')).toBe('#result-scenario-1:50');
+    });
+
+    it('lists variations to pick from and the fingerprint of the image', () => {
+        const actions = createActions();
+        const fingerprint = { provider: 'mock' as const, model: 'stub', promptHash: 'a'.repeat(64), seed: 42, imageHash: 'b'.repeat(64) };
+        const { element } = render(createProps({
+            card: createCard({
+                status: 'success', imageUrl: IMAGE_URL, fingerprint,
+                variations: [
+                    { id: 'v1', status: 'success', imageUrl: IMAGE_URL, fingerprint: { ...fingerprint, seed: 7 } },
+                    { id: 'v2', status: 'loading' },
+                    { id: 'v3', status: 'error', errorReason: 'safety' },
+                ],
+            }),
+        }), actions);
+        const strip = element.querySelector('.variation-strip')!;
+        expect(strip.getAttribute('aria-label')).toBe('Variations of age 60');
+        expect([...strip.querySelectorAll('li')].map(item => item.textContent || item.querySelector('button')!.getAttribute('aria-label')))
+            .toEqual(['Use variation 1 (seed 7)', 'Variation 2: generating', 'Variation 3: failed (Blocked)']);
+        strip.querySelector<HTMLButtonElement>('.variation-button')!.click();
+        expect(actions.pickVariation).toHaveBeenCalledWith('scenario-1:60', 'v1');
+
+        const details = [...element.querySelectorAll('.result-card-details dd')].map(value => value.textContent);
+        expect(details).toEqual(['mock · stub', '42', 'Default', 'aaaaaaaaaaaa', 'bbbbbbbbbbbb']);
+    });
+
+    it('shows the appearance choices as badges and regenerates with edited ones', () => {
+        const actions = createActions();
+        const appearance = { ...getDefaultAppearance(), greyHair: 40, glasses: true, expression: 'serious' as const };
+        const { element } = render(createProps({ card: createCard({ status: 'success', imageUrl: IMAGE_URL, appearance }) }), actions);
+        const badges = element.querySelector('.appearance-badges')!;
+        expect(badges.getAttribute('aria-label')).toBe('Appearance of age 60');
+        expect([...badges.children].map(badge => badge.textContent)).toEqual(['40% grey', 'Glasses', 'Serious']);
+
+        const editor = element.querySelector<HTMLDetailsElement>('.result-card-appearance')!;
+        const greyHair = editor.querySelector<HTMLInputElement>('input[type="number"]')!;
+        const glasses = editor.querySelector<HTMLSelectElement>('select[id$="-glasses"]')!;
+        expect([greyHair.value, glasses.value]).toEqual(['40', 'on']);
+        greyHair.value = '90';
+        greyHair.dispatchEvent(new Event('input'));
+        glasses.value = '';
+        glasses.dispatchEvent(new Event('change'));
+        editor.querySelector<HTMLButtonElement>('.card-button')!.click();
+        expect(actions.regenerateWithAppearance).toHaveBeenCalledWith('scenario-1:60', { ...appearance, greyHair: 90, glasses: null });
+        expect(render(createProps({ card: createCard({ status: 'success', imageUrl: IMAGE_URL }) })).element
+            .querySelector('.appearance-badges')).toBeNull();
+    });
+
+    it('names the person when several people were aged together', () => {
+        const { element } = render(createProps({
+            card: createCard({ status: 'success', imageUrl: IMAGE_URL }), personName: 'Ana', scenarioName: 'Heavy smoker',
+        }));
+        expect(element.querySelector('img')!.alt).toBe('Ana at age 60, in 2055, with the "Heavy smoker" lifestyle');
+        expect(element.getAttribute('aria-label')).toBe('Age 60 (Ana · Heavy smoker), 2055: ready');
+    });
+
+    it('patches selection and file name without rebuilding the card', () => {
+        const props = createProps({ card: createCard({ status: 'success', imageUrl: IMAGE_URL }) });
+        const view = render(props);
+        const image = view.element.querySelector('img');
+        view.update({ ...props, isSelected: true, fileName: 'renamed.png' });
+        expect(view.element.querySelector('img')).toBe(image);
+        expect(view.element.classList).toContain('is-selected');
+        const compareButton = view.element.querySelector('.compare-toggle')!;
+        expect(compareButton.getAttribute('aria-pressed')).toBe('true');
+        expect(view.element.querySelector<HTMLAnchorElement>('.download-link')!.download).toBe('renamed.png');
+    });
+
+    it('rebuilds the card when its status changes', () => {
+        const props = createProps();
+        const view = render(props);
+        view.update({ ...props, card: createCard({ status: 'success', imageUrl: IMAGE_URL }) });
+        expect(view.element.classList).not.toContain('result-card-loading');
+        expect(view.element.querySelector('img')).not.toBeNull();
+    });
+
+    it('explains a failure and offers a retry', () => {
+        const actions = createActions();
+        const modelText = 'I am unable to edit photos of real people. '.repeat(5);
+        const { element } = render(createProps({
+            card: createCard({ status: 'error', errorReason: 'safety', modelText }),
+        }), actions);
+        expect(element.classList).toContain('result-card-error');
+        expect(text(element, '.error-title')).toBe('Blocked');
+        expect(element.getAttribute('aria-label')).toBe('Age 60, 2055: failed (Blocked)');
+        expect(text(element, '.error-reason')).toContain('safety filter');
+        const quote = element.querySelector<HTMLElement>('.model-text')!;
+        expect(quote.title).toBe(modelText);
+        expect(quote.textContent!.length).toBeLessThan(modelText.length);
+        expect(quote.textContent).toMatch(/^“I am unable.*…”$/);
+
+        const retryButton = element.querySelector<HTMLButtonElement>('.retry-button')!;
+        expect(retryButton.getAttribute('aria-label')).toBe('Retry age 60');
+        retryButton.click();
+        expect(actions.retry).toHaveBeenCalledWith('scenario-1:60');
+    });
+
+    it('falls back to a generic explanation without a reason', () => {
+        const { element } = render(createProps({ card: createCard({ status: 'error' }) }));
+        expect(text(element, '.error-title')).toBe('Failed');
+        expect(element.querySelector('.model-text')).toBeNull();
+    });
+
+    it('shows a cancelled card as retryable', () => {
+        const { element } = render(createProps({ card: createCard({ status: 'cancelled' }) }));
+        expect(element.classList).toContain('result-card-error');
+        expect(text(element, '.error-title')).toBe('Cancelled');
+        expect(element.querySelector('.error-reason')).toBeNull();
+        expect(element.querySelector('.retry-button')).not.toBeNull();
+    });
+
+    it('explains a card that was never generated because its source failed', () => {
+        const source = { label: 'Age 50', href: '#result-scenario-1:50', isReady: false, withReference: false };
+        const { element } = render(createProps({ card: createCard({ status: 'cancelled' }), source }));
+        expect(text(element, '.error-title')).toBe('Not generated');
+        expect(text(element, '.error-reason')).toBe('Age 50 has no image to start from. Retrying continues the chain from there.');
+        expect(element.querySelector('.result-card-source')).toBeNull();
+    });
+});
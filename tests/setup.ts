@@ -0,0 +1,10 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// jsdom has no object URLs; the app only passes them to `<img src>`, so any string will do.
+let objectUrlCount = 0;
+URL.createObjectURL = () => `blob:test/${++objectUrlCount}`;
+URL.revokeObjectURL = () => {};
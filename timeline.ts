@@ -0,0 +1,70 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { t } from "./i18n";
+import { GenerationMode, TimelinePoint, TimelineSettings } from "./types";
+
+export const MIN_AGE = 1;
+export const MAX_AGE = 110;
+export const MAX_TIMELINE_POINTS = 10;
+
+export const DEFAULT_TIMELINE_SETTINGS: TimelineSettings = { currentAge: 30, startAge: 40, endAge: 80, step: 10, customAges: [] };
+
+export const parseAgeList = (text: string): number[] =>
+    text.split(/[\s,;]+/).filter(Boolean).map(Number);
+
+/** The distinct ages the settings describe, sorted. Custom ages win over the range. */
+const collectAges = (settings: TimelineSettings): number[] => {
+    let ages: number[];
+    if (settings.customAges.length > 0) {
+        ages = [...settings.customAges];
+    } else {
+        ages = [];
+        for (let age = settings.startAge; age <= settings.endAge; age += settings.step) ages.push(age);
+    }
+    return [...new Set(ages)].sort((a, b) => a - b);
+};
+
+/** Returns a message describing the first problem with the settings, or null when they are valid. */
+export const validateTimeline = (settings: TimelineSettings): string | null => {
+    const isValidAge = (age: number) => Number.isInteger(age) && age >= MIN_AGE && age <= MAX_AGE;
+    if (!isValidAge(settings.currentAge)) return t('timeline.error.currentAge', { min: MIN_AGE, max: MAX_AGE });
+    if (settings.customAges.length > 0) {
+        if (!settings.customAges.every(isValidAge)) return t('timeline.error.customAges', { min: MIN_AGE, max: MAX_AGE });
+    } else {
+        if (!isValidAge(settings.startAge) || !isValidAge(settings.endAge)) return t('timeline.error.range', { min: MIN_AGE, max: MAX_AGE });
+        if (settings.startAge > settings.endAge) return t('timeline.error.order', { from: t('timeline.startAge'), to: t('timeline.endAge') });
+        if (!Number.isInteger(settings.step) || settings.step < 1) return t('timeline.error.step');
+    }
+    const count = collectAges(settings).length;
+    if (count > MAX_TIMELINE_POINTS) return t('timeline.error.tooMany', { count, max: MAX_TIMELINE_POINTS });
+    return null;
+};
+
+/** Custom ages win over the range; ages are de-duplicated and sorted. Validate the settings first: nothing is dropped here. */
+export const buildTimeline = (settings: TimelineSettings, currentYear = new Date().getFullYear()): TimelinePoint[] =>
+    collectAges(settings).map(age => ({ age, year: currentYear + (age - settings.currentAge) }));
+
+/** One image to generate: the point on the timeline and, in progressive mode, the point it is generated from. */
+export type GenerationStep = {
+    point: TimelinePoint;
+    /** Null when the step starts from the uploaded photo. */
+    source: TimelinePoint | null;
+};
+
+/**
+ * Plans how each point is generated. In progressive mode two chains move outward from
+ * the current age, one aging forward and one de-aging backward, and each step starts
+ * from the previous step's image. Steps are returned in timeline order.
+ */
+export const buildGenerationSteps = (points: TimelinePoint[], currentAge: number, mode: GenerationMode): GenerationStep[] => {
+    if (mode === 'parallel') return points.map(point => ({ point, source: null }));
+    const chain = (chainPoints: TimelinePoint[]) =>
+        chainPoints.map((point, index): GenerationStep => ({ point, source: index > 0 ? chainPoints[index - 1] : null }));
+    const older = points.filter(point => point.age >= currentAge).sort((a, b) => a.age - b.age);
+    const younger = points.filter(point => point.age < currentAge).sort((a, b) => b.age - a.age);
+    return [...chain(younger), ...chain(older)].sort((a, b) => a.point.age - b.point.age);
+};
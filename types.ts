@@ -0,0 +1,122 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Appearance } from "./appearance";
+import { LifestyleFactors } from "./factors";
+import { GenerationErrorReason, ProviderId } from "./providers";
+
+// --- Type Definitions ---
+export type UploadedImage = {
+    base64: string;
+    mimeType: string;
+    fileName: string;
+    objectURL: string;
+    width: number;
+    height: number;
+};
+
+export type TimelineSettings = {
+    currentAge: number;
+    startAge: number;
+    endAge: number;
+    step: number;
+    customAges: number[];
+};
+
+export type TimelinePoint = {
+    age: number;
+    year: number;
+};
+
+/**
+ * `parallel` generates every age from the uploaded photo; `progressive` generates each
+ * age from the previous one, moving outward from the current age.
+ */
+export type GenerationMode = 'parallel' | 'progressive';
+
+/** Model settings applied to every image of a run. */
+export type GenerationSettings = {
+    /** Sent with every image when set; otherwise each image gets its own random seed. */
+    seed: number | null;
+    /** Unset leaves the model's default. */
+    temperature: number | null;
+    /** How many alternatives "Variations" asks for at once. */
+    variationCount: number;
+};
+
+/** Everything that determined one request, so an image can be traced and reproduced. */
+export type GenerationFingerprint = {
+    provider: ProviderId;
+    model: string;
+    /** SHA-256 of the prompt text, in hex. */
+    promptHash: string;
+    seed: number;
+    temperature?: number;
+    /** SHA-256 of the source image bytes, and of the identity reference when one was attached. */
+    imageHash: string;
+    referenceImageHash?: string;
+};
+
+/** An alternative image for one age, generated from the same prompt with another seed. */
+export type CardVariation = {
+    id: string;
+    status: 'loading' | 'success' | 'error';
+    imageUrl?: string;
+    /** The seed it was generated with; also in `fingerprint`, which is missing where the page cannot hash. */
+    seed?: number;
+    fingerprint?: GenerationFingerprint;
+    errorReason?: GenerationErrorReason;
+};
+
+/** A named set of lifestyle factors and appearance choices; several can be generated side by side from the same photo. */
+export type Scenario = {
+    id: string;
+    name: string;
+    factors: LifestyleFactors;
+    appearance: Appearance;
+};
+
+/** A person's name, timeline and scenarios as they were when their results were generated. */
+export type PersonSnapshot = {
+    id: string;
+    name: string;
+    scenarios: Scenario[];
+    timeline: TimelineSettings;
+};
+
+export type ResultCard = {
+    /** Unique within a run: `${scenarioId}:${age}`. Scenario ids are unique across people. */
+    id: string;
+    personId: string;
+    scenarioId: string;
+    age: number;
+    year: number;
+    status: 'loading' | 'success' | 'error' | 'cancelled';
+    imageUrl?: string;
+    /** The exact prompt and factors used, so a failed card can be retried unchanged. */
+    prompt: string;
+    factors: LifestyleFactors;
+    /** The appearance choices in the prompt; missing on sessions saved before they existed. */
+    appearance?: Appearance;
+    /** The prompt template the prompt was rendered from; missing on sessions saved before templates existed. */
+    templateId?: string;
+    templateVersion?: number;
+    /** Progressive mode: the card whose image this one was generated from. Unset means the uploaded photo. */
+    sourceCardId?: string;
+    /** Whether the uploaded photo was also attached as an identity reference. */
+    usesIdentityReference?: boolean;
+    /** The seed and temperature the card is generated with; retries and regeneration reuse them. */
+    seed?: number;
+    temperature?: number;
+    /** How the current image, or the last failed attempt, was requested. */
+    fingerprint?: GenerationFingerprint;
+    /** Alternatives to choose from; choosing one swaps it with the current image. */
+    variations?: CardVariation[];
+    attempt?: number;
+    errorReason?: GenerationErrorReason;
+    /** Text the model sent back instead of an image, shown to explain the failure. */
+    modelText?: string;
+};
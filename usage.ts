@@ -0,0 +1,155 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Locale, getUiLocale } from "./i18n";
+import { GenerationErrorReason, GenerationUsage, ProviderId } from "./providers";
+
+// --- Type Definitions ---
+/** One request as sent to the provider, retries included. */
+export type RequestRecord = {
+    id: number;
+    /** The generation run it belonged to; the diagnostics panel totals the latest one. */
+    runId: number;
+    cardId: string;
+    age: number;
+    kind: 'image' | 'variation';
+    provider: ProviderId;
+    model: string;
+    startedAt: number;
+    /** From leaving the queue to the final answer, including backoff between retries. */
+    durationMs: number;
+    attempts: number;
+    outcome: 'success' | 'error' | 'cancelled';
+    errorReason?: GenerationErrorReason;
+    /** Decoded size of the returned image. */
+    responseBytes: number;
+    usage?: GenerationUsage;
+    /** Estimated with the pricing in effect when the request finished. */
+    cost: number;
+};
+
+export type UsageTotals = {
+    requests: number;
+    images: number;
+    failed: number;
+    cancelled: number;
+    retries: number;
+    durationMs: number;
+    responseBytes: number;
+    promptTokens: number;
+    outputTokens: number;
+    cost: number;
+};
+
+/** Prices in US dollars. */
+export type Pricing = {
+    perImage: number;
+    perMillionInputTokens: number;
+};
+
+/** What is kept in this browser between visits: prices, the budget cap and the running totals. */
+export type UsageSettings = {
+    pricing: Pricing;
+    /** New runs are refused once the all-time estimate reaches it; null means no cap. */
+    budget: number | null;
+    allTime: UsageTotals;
+    /** When the all-time totals were last reset. */
+    since: number;
+};
+
+// --- Totals ---
+const STORAGE_KEY = 'timemirror.usage';
+
+/** Gemini 2.5 Flash Image list prices: one image is billed as 1290 output tokens. */
+export const DEFAULT_PRICING: Pricing = { perImage: 0.039, perMillionInputTokens: 0.3 };
+
+/** Only the latest requests are listed; the all-time totals keep counting past them. */
+export const MAX_REQUEST_RECORDS = 200;
+
+export const EMPTY_TOTALS: UsageTotals = {
+    requests: 0, images: 0, failed: 0, cancelled: 0, retries: 0,
+    durationMs: 0, responseBytes: 0, promptTokens: 0, outputTokens: 0, cost: 0,
+};
+
+export const createUsageSettings = (): UsageSettings =>
+    ({ pricing: { ...DEFAULT_PRICING }, budget: null, allTime: { ...EMPTY_TOTALS }, since: Date.now() });
+
+/** Finished images are billed at the image price, and every request's input tokens at the token price. The mock provider is free. */
+export const estimateCost = (record: Omit<RequestRecord, 'id' | 'cost'>, pricing: Pricing): number => {
+    if (record.provider === 'mock') return 0;
+    const imageCost = record.outcome === 'success' ? pricing.perImage : 0;
+    return imageCost + (record.usage?.promptTokens ?? 0) * pricing.perMillionInputTokens / 1_000_000;
+};
+
+export const addToTotals = (totals: UsageTotals, record: RequestRecord): UsageTotals => ({
+    requests: totals.requests + 1,
+    images: totals.images + (record.outcome === 'success' ? 1 : 0),
+    failed: totals.failed + (record.outcome === 'error' ? 1 : 0),
+    cancelled: totals.cancelled + (record.outcome === 'cancelled' ? 1 : 0),
+    retries: totals.retries + Math.max(0, record.attempts - 1),
+    durationMs: totals.durationMs + record.durationMs,
+    responseBytes: totals.responseBytes + record.responseBytes,
+    promptTokens: totals.promptTokens + (record.usage?.promptTokens ?? 0),
+    outputTokens: totals.outputTokens + (record.usage?.outputTokens ?? 0),
+    cost: totals.cost + record.cost,
+});
+
+/** Totals for the most recent run among `records`. */
+export const getLastRunTotals = (records: RequestRecord[]): UsageTotals => {
+    const runId = records[records.length - 1]?.runId;
+    return records.filter(record => record.runId === runId).reduce(addToTotals, EMPTY_TOTALS);
+};
+
+/** The size of the bytes a base64 string decodes to. */
+export const getBase64Size = (base64: string) =>
+    Math.floor(base64.length * 3 / 4) - (base64.endsWith('==') ? 2 : base64.endsWith('=') ? 1 : 0);
+
+export const isOverBudget = ({ budget, allTime }: UsageSettings) => budget !== null && allTime.cost >= budget;
+
+// --- Formatting ---
+export const formatCost = (value: number, locale: Locale = getUiLocale()) =>
+    new Intl.NumberFormat(locale, { style: 'currency', currency: 'USD', maximumFractionDigits: value > 0 && value < 1 ? 3 : 2 }).format(value);
+
+export const formatBytes = (bytes: number, locale: Locale = getUiLocale()) => {
+    const [value, unit] = bytes >= 1024 * 1024 ? [bytes / 1024 / 1024, 'megabyte'] : [bytes / 1024, 'kilobyte'];
+    return new Intl.NumberFormat(locale, { style: 'unit', unit, maximumFractionDigits: 1 }).format(value);
+};
+
+export const formatDuration = (ms: number, locale: Locale = getUiLocale()) =>
+    new Intl.NumberFormat(locale, { style: 'unit', unit: 'second', maximumFractionDigits: 1 }).format(ms / 1000);
+
+// --- Persistence ---
+const isFiniteOr = (value: unknown, fallback: number) => typeof value === 'number' && Number.isFinite(value) ? value : fallback;
+
+/** Restores prices, budget and totals from this browser; anything missing or malformed falls back to the defaults. */
+export const loadUsageSettings = (): UsageSettings => {
+    const defaults = createUsageSettings();
+    try {
+        const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null') as Partial<UsageSettings> | null;
+        if (!saved) return defaults;
+        return {
+            pricing: {
+                perImage: isFiniteOr(saved.pricing?.perImage, DEFAULT_PRICING.perImage),
+                perMillionInputTokens: isFiniteOr(saved.pricing?.perMillionInputTokens, DEFAULT_PRICING.perMillionInputTokens),
+            },
+            budget: typeof saved.budget === 'number' && Number.isFinite(saved.budget) ? saved.budget : null,
+            allTime: Object.fromEntries(Object.entries(EMPTY_TOTALS)
+                .map(([key, zero]) => [key, isFiniteOr(saved.allTime?.[key as keyof UsageTotals], zero)])) as UsageTotals,
+            since: isFiniteOr(saved.since, defaults.since),
+        };
+    } catch (error) {
+        console.warn('Could not restore usage totals; starting from zero.', error);
+        return defaults;
+    }
+};
+
+export const saveUsageSettings = (settings: UsageSettings) => {
+    try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+    } catch (error) {
+        console.warn('Could not save usage totals.', error);
+    }
+};
@@ -1,17 +1,36 @@
+/// <reference types="vitest/config" />
 import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
+    // In proxy mode the key stays with the proxy server and is left out of the bundle.
+    const useProxy = env.AGING_PROVIDER === 'proxy';
+    const apiKey = useProxy ? '' : env.GEMINI_API_KEY;
+    const proxy = useProxy && !env.AGING_PROXY_URL
+      ? { '/api': `http://localhost:${env.PROXY_PORT || 8787}` }
+      : undefined;
     return {
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.API_KEY': JSON.stringify(apiKey),
+        'process.env.GEMINI_API_KEY': JSON.stringify(apiKey),
+        'process.env.AGING_PROVIDER': JSON.stringify(env.AGING_PROVIDER),
+        'process.env.AGING_PROXY_URL': JSON.stringify(env.AGING_PROXY_URL ?? ''),
+        'process.env.AGING_MODEL': JSON.stringify(env.AGING_MODEL),
+        'process.env.AGING_CONCURRENCY': JSON.stringify(env.AGING_CONCURRENCY),
+        'process.env.AGING_MAX_RETRIES': JSON.stringify(env.AGING_MAX_RETRIES)
       },
+      server: { proxy },
+      preview: { proxy },
       resolve: {
         alias: {
           '@': path.resolve(__dirname, '.'),
         }
+      },
+      test: {
+        environment: 'jsdom',
+        include: ['tests/**/*.test.ts'],
+        setupFiles: ['tests/setup.ts'],
       }
     };
 });